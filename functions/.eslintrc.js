@@ -1,33 +1,43 @@
 module.exports = {
-  root: true,
-  env: {
-    es6: true,
-    node: true,
-  },
-  extends: [
-    "eslint:recommended",
-    "plugin:import/errors",
-    "plugin:import/warnings",
-    "plugin:import/typescript",
-    "google",
-    "plugin:@typescript-eslint/recommended",
-  ],
-  parser: "@typescript-eslint/parser",
-  parserOptions: {
-    project: ["tsconfig.json", "tsconfig.dev.json"],
-    sourceType: "module",
-  },
-  ignorePatterns: [
-    "/lib/**/*", // Ignore built files.
-    "/generated/**/*", // Ignore generated files.
-  ],
-  plugins: [
-    "@typescript-eslint",
-    "import",
-  ],
-  rules: {
-    "quotes": ["error", "double"],
-    "import/no-unresolved": 0,
-    "indent": ["error", 2],
-  },
+    root: true,
+    env: {
+        es6: true,
+        node: true
+    },
+    extends: [
+        'eslint:recommended',
+        'plugin:import/errors',
+        'plugin:import/warnings',
+        'plugin:import/typescript',
+        'google',
+        'plugin:@typescript-eslint/recommended'
+    ],
+    parser: '@typescript-eslint/parser',
+    parserOptions: {
+        project: ['tsconfig.json', 'tsconfig.dev.json'],
+        sourceType: 'module'
+    },
+    ignorePatterns: [
+        '/lib/**/*', // Ignore built files.
+        '/generated/**/*' // Ignore generated files.
+    ],
+    plugins: [
+        '@typescript-eslint',
+        'import'
+    ],
+    rules: {
+        'quotes': ['error', 'single', { 'avoidEscape': true }],
+        'import/no-unresolved': 0,
+        'indent': ['error', 4, { 'SwitchCase': 0 }],
+        'max-len': ['error', { 'code': 160, 'ignoreComments': true, 'ignoreStrings': true, 'ignoreTemplateLiterals': true }],
+        'object-curly-spacing': ['error', 'always'],
+        'comma-dangle': ['error', 'never'],
+        'new-cap': ['error', { 'capIsNewExceptions': ['Router'] }],
+        'no-multi-spaces': ['error', { 'ignoreEOLComments': true }],
+        'operator-linebreak': 'off',
+        'require-jsdoc': 'off',
+        'valid-jsdoc': 'off',
+        '@typescript-eslint/no-explicit-any': 'off',
+        '@typescript-eslint/no-unused-vars': ['error', { 'argsIgnorePattern': '^_' }]
+    }
 };
@@ -0,0 +1,46 @@
+import express from 'express';
+import { corsMiddleware } from '../middleware/cors-middleware';
+import { errorHandler, notFound } from './helpers';
+import { productsRouter } from './routes/products';
+import { customersRouter } from './routes/customers';
+import { ordersRouter } from './routes/orders';
+import { invoicesRouter } from './routes/invoices';
+import { repairsRouter } from './routes/repairs';
+import { inventoryRouter } from './routes/inventory';
+import { fireberryRouter } from './routes/fireberry';
+import { usersRouter } from './routes/users';
+import { outboxRouter } from './routes/outbox';
+import { checkoutRouter } from './routes/checkout';
+import { promotionsRouter } from './routes/promotions';
+import { drawersRouter } from './routes/drawers';
+import { returnsRouter } from './routes/returns';
+import { transfersRouter } from './routes/transfers';
+import { purchaseOrdersRouter } from './routes/purchase-orders';
+import { stocktakesRouter } from './routes/stocktakes';
+
+// Single routed REST API served by the `api` function.
+// Request bodies are already parsed by the Functions runtime.
+export const app = express();
+
+app.disable('x-powered-by');
+app.use(corsMiddleware);
+
+app.use('/products', productsRouter);
+app.use('/customers', customersRouter);
+app.use('/orders', ordersRouter);
+app.use('/invoices', invoicesRouter);
+app.use('/repairs', repairsRouter);
+app.use('/inventory', inventoryRouter);
+app.use('/fireberry', fireberryRouter);
+app.use('/users', usersRouter);
+app.use('/outbox', outboxRouter);
+app.use('/checkout', checkoutRouter);
+app.use('/promotions', promotionsRouter);
+app.use('/drawers', drawersRouter);
+app.use('/returns', returnsRouter);
+app.use('/transfers', transfersRouter);
+app.use('/purchase-orders', purchaseOrdersRouter);
+app.use('/stocktakes', stocktakesRouter);
+
+app.use(notFound);
+app.use(errorHandler);
@@ -0,0 +1,160 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { AuthContext, requireAuth, Role } from '../middleware/auth-middleware';
+import { handleError } from '../utils/error-handler';
+import { AppError, fromFireberryError, MethodNotAllowedError, NotFoundError } from '../utils/errors';
+import { FireberryResponse } from '../services/fireberry/fireberry-service';
+import { outboxService, OutboxEntry, OutboxOperation } from '../services/outbox-service';
+import { Receipt, ReceiptFormat } from '../services/receipt-service';
+
+// Role groups used to guard routes (admins are always allowed)
+export const ADMINS: Role[] = ['admin'];
+export const MANAGERS: Role[] = ['manager'];
+export const SALES_STAFF: Role[] = ['cashier', 'manager'];
+export const REPAIR_STAFF: Role[] = ['cashier', 'technician', 'manager'];
+
+/**
+ * Wrap an async route handler so rejected promises reach the error handler
+ */
+export const asyncHandler = (handler: (req: Request, res: Response) => Promise<void>): RequestHandler => {
+    return (req, res, next) => {
+        handler(req, res).catch(next);
+    };
+};
+
+/**
+ * Route middleware that authenticates the caller and enforces the allowed roles.
+ * The auth context is stored in `res.locals.auth`.
+ */
+export const authorize = (allowedRoles: Role[]): RequestHandler => {
+    return (req, res, next) => {
+        requireAuth(req, res, allowedRoles)
+            .then((auth) => {
+                if (auth) {
+                    res.locals.auth = auth;
+                    next();
+                }
+            })
+            .catch(next);
+    };
+};
+
+/**
+ * Get the auth context set by `authorize`
+ */
+export const getAuth = (res: Response): AuthContext => {
+    return res.locals.auth as AuthContext;
+};
+
+/**
+ * Respond 405 for unsupported methods on a known route
+ */
+export const methodNotAllowed: RequestHandler = (req, res) => {
+    handleError(new MethodNotAllowedError(), res);
+};
+
+/**
+ * Respond 404 for unknown routes
+ */
+export const notFound: RequestHandler = (req, res) => {
+    handleError(new NotFoundError(`Route not found: ${req.method} ${req.path}`), res);
+};
+
+/**
+ * Express error handler. Express recognises error handlers by their four parameters.
+ */
+export const errorHandler = (error: unknown, _req: Request, res: Response, _next: NextFunction): void => {
+    handleError(error, res);
+};
+
+/**
+ * Send a Fireberry service result in the standardized response format.
+ * Failures are mapped to the matching HTTP status and error code.
+ */
+export const sendResult = <T>(res: Response, result: FireberryResponse<T>, messages: {
+    failure: string,
+    success?: string,
+    status?: number,
+    emptyData?: boolean
+}): void => {
+    if (!result.success) {
+        handleError(fromFireberryError(result.error, messages.failure), res);
+        return;
+    }
+
+    // Return response in standardized format
+    res.status(messages.status || 200).json({
+        success: true,
+        data: messages.emptyData ? null : result.data,
+        ...(result.stale ? { stale: true } : {}),
+        message: messages.success || ''
+    });
+};
+
+/**
+ * Write an operation through the outbox and reply with the outcome.
+ * Responds 201 with the Fireberry record when the replay succeeded right away,
+ * or 202 with the outbox entry when it is still queued for the background worker.
+ * @returns The outbox entry
+ */
+export const sendQueuedWrite = async (
+    req: Request,
+    res: Response,
+    operation: OutboxOperation,
+    payload: any,
+    messages: { created: string, queued: string, failed: string }
+): Promise<OutboxEntry> => {
+    const queued = await outboxService.enqueue(operation, payload, {
+        createdBy: getAuth(res).uid,
+        idempotencyKey: req.get('Idempotency-Key')
+    });
+    return replayQueuedWrite(res, queued, messages);
+};
+
+/**
+ * Replay an entry already in the outbox and reply with the outcome, as for `sendQueuedWrite`
+ * @returns The outbox entry
+ */
+export const replayQueuedWrite = async (
+    res: Response,
+    queued: OutboxEntry,
+    messages: { created: string, queued: string, failed: string }
+): Promise<OutboxEntry> => {
+    const entry = await outboxService.replayEntry(queued.id as string) || queued;
+
+    if (entry.status === 'completed') {
+        res.status(201).json({
+            success: true,
+            data: entry.result,
+            message: messages.created
+        });
+        return entry;
+    }
+
+    if (entry.status === 'dead') {
+        const error = fromFireberryError(entry.lastError, messages.failed);
+        handleError(new AppError(error.code, error.message, error.status, { outboxId: entry.id, status: entry.status }), res);
+        return entry;
+    }
+
+    res.status(202).json({
+        success: true,
+        data: { outboxId: entry.id, status: entry.status, queued: true },
+        message: messages.queued
+    });
+    return entry;
+};
+
+/**
+ * Send a printed receipt: the ESC/POS command stream, or its plain-text preview for `format=text`
+ */
+export const sendReceipt = (res: Response, receipt: Receipt, format: ReceiptFormat = 'escpos'): void => {
+    if (format === 'text') {
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.send(receipt.text);
+        return;
+    }
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${receipt.fileName}"`);
+    res.send(receipt.content);
+};
@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { corsMiddleware } from '../middleware/cors-middleware';
+import { handleError } from '../utils/error-handler';
+import { AppError, MethodNotAllowedError, ValidationError } from '../utils/errors';
+import { app } from './app';
+
+/**
+ * Build a handler for a pre-router function name (e.g. `getProductById?id=`)
+ * that forwards the request to the matching route of the REST API.
+ * Path parameters such as `:id` are read from the query string or the body,
+ * as the old endpoints did.
+ * @param allowedMethods - Methods the old endpoint accepted
+ * @param method - Method of the new route, or null to keep the request method
+ * @param path - Path of the new route
+ * @param missingParamMessage - Error message when a path parameter is missing
+ */
+export const legacyAlias = (
+    allowedMethods: string[],
+    method: string | null,
+    path: string,
+    missingParamMessage?: string
+) => {
+    return (req: Request, res: Response): void => {
+        if (req.method === 'OPTIONS') {
+            req.url = path.replace(/:\w+/g, '_');
+            app(req, res);
+            return;
+        }
+
+        const reject = (error: AppError) => {
+            corsMiddleware(req, res, () => handleError(error, res));
+        };
+
+        if (!allowedMethods.includes(req.method)) {
+            reject(new MethodNotAllowedError());
+            return;
+        }
+
+        let targetPath = path;
+        for (const [placeholder, name] of path.matchAll(/:(\w+)/g)) {
+            const value = req.query[name] as string || req.body?.[name];
+            if (!value) {
+                reject(new ValidationError(missingParamMessage || `${name} is required`));
+                return;
+            }
+            targetPath = targetPath.replace(placeholder, encodeURIComponent(value));
+        }
+
+        const queryIndex = req.url.indexOf('?');
+        req.url = targetPath + (queryIndex >= 0 ? req.url.substring(queryIndex) : '');
+        req.method = method || req.method;
+
+        app(req, res);
+    };
+};
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { checkoutService } from '../../services/checkout-service';
+import { validateRequest } from '../../validation/validator';
+import { checkoutSchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import { NotFoundError } from '../../utils/errors';
+import { asyncHandler, authorize, getAuth, methodNotAllowed, SALES_STAFF } from '../helpers';
+
+export const checkoutRouter = Router();
+
+checkoutRouter.route('/')
+    // Sell a cart: order, order items, invoice and stock decrement, rolled back on failure
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'checkout', async () => {
+            const checkout = validateRequest(checkoutSchema, req.body, res);
+            if (!checkout) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const result = await checkoutService.checkout(checkout, auth.uid, { branchId: auth.storeId });
+
+            // Return response in standardized format
+            res.status(201).json({
+                success: true,
+                data: result,
+                message: 'Checkout completed successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+checkoutRouter.route('/:id')
+    // Get a checkout record, including the outcome of a failed checkout
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const checkout = await checkoutService.getCheckout(req.params.id);
+        if (!checkout) {
+            throw new NotFoundError('Checkout not found');
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: checkout,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
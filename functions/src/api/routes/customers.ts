@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { customerService } from '../../services/fireberry';
+import { validateRequest } from '../../validation/validator';
+import {
+    paginationSchema,
+    customerSchema,
+    queryCustomersSchema,
+    birthdaysQuerySchema
+} from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import {
+    asyncHandler,
+    authorize,
+    methodNotAllowed,
+    sendResult,
+    MANAGERS,
+    SALES_STAFF
+} from '../helpers';
+
+export const customersRouter = Router();
+
+customersRouter.route('/')
+    // List customers with pagination
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const pagination = validateRequest(paginationSchema, req.query, res, { allowUnknown: true });
+        if (!pagination) {
+            return;
+        }
+
+        const result = await customerService.getAllCustomers(pagination);
+        sendResult(res, result, { failure: 'Failed to fetch customers' });
+    }))
+    // Create a new customer
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createCustomer', async () => {
+            const customerData = validateRequest(customerSchema, req.body, res, { omit: ['id'] });
+            if (!customerData) {
+                return;
+            }
+
+            const result = await customerService.createCustomer(customerData);
+            sendResult(res, result, {
+                failure: 'Failed to create customer',
+                success: 'Customer created successfully',
+                status: 201
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+customersRouter.route('/birthdays')
+    // Get customers with upcoming birthdays
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const params = validateRequest(birthdaysQuerySchema, req.query, res, { allowUnknown: true });
+        if (!params) {
+            return;
+        }
+
+        const result = await customerService.getUpcomingBirthdays(params.days ?? 30);
+        sendResult(res, result, { failure: 'Failed to fetch upcoming birthdays' });
+    }))
+    .all(methodNotAllowed);
+
+// Query customers with advanced filtering, sorting, and pagination.
+// Accepts both GET (query string) and POST (body) for flexibility.
+const queryCustomersHandler = asyncHandler(async (req, res) => {
+    const queryParams = req.method === 'GET'
+        ? validateRequest(queryCustomersSchema, req.query, res, { allowUnknown: true })
+        : validateRequest(queryCustomersSchema, req.body || {}, res);
+    if (!queryParams) {
+        return;
+    }
+
+    // Preserve the Fireberry API response structure
+    const result = await customerService.queryCustomers(queryParams);
+    sendResult(res, result, { failure: 'Failed to query customers' });
+});
+
+customersRouter.route('/query')
+    .get(authorize(SALES_STAFF), queryCustomersHandler)
+    .post(authorize(SALES_STAFF), queryCustomersHandler)
+    .all(methodNotAllowed);
+
+customersRouter.route('/:id')
+    // Get a customer by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const result = await customerService.getCustomerById(req.params.id);
+        sendResult(res, result, { failure: 'Failed to fetch customer' });
+    }))
+    // Update an existing customer
+    .put(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        // Remove id from the data if it exists to avoid overwriting
+        const rawData = { ...req.body };
+        delete rawData.id;
+
+        const customerData = validateRequest(customerSchema, rawData, res, { partial: true });
+        if (!customerData) {
+            return;
+        }
+
+        const result = await customerService.updateCustomer(req.params.id, customerData);
+        sendResult(res, result, {
+            failure: 'Failed to update customer',
+            success: 'Customer updated successfully'
+        });
+    }))
+    // Delete a customer
+    .delete(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const result = await customerService.deleteCustomer(req.params.id);
+        sendResult(res, result, {
+            failure: 'Failed to delete customer',
+            success: 'Customer deleted successfully',
+            emptyData: true
+        });
+    }))
+    .all(methodNotAllowed);
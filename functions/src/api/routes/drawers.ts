@@ -0,0 +1,131 @@
+import { Router } from 'express';
+import { drawerService } from '../../services/drawer-service';
+import { validateRequest } from '../../validation/validator';
+import { closeDrawerSchema, drawerMovementSchema, drawerSessionQuerySchema, openDrawerSchema } from '../../validation/schemas';
+import { NotFoundError } from '../../utils/errors';
+import { asyncHandler, authorize, getAuth, methodNotAllowed, MANAGERS, SALES_STAFF } from '../helpers';
+
+export const drawersRouter = Router();
+
+drawersRouter.route('/sessions')
+    // List drawer sessions (?registerId=&status=open|closed&limit=)
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const query = validateRequest(drawerSessionQuerySchema, req.query, res);
+        if (!query) {
+            return;
+        }
+
+        const sessions = await drawerService.listSessions({ registerId: query.registerId, status: query.status }, query.limit);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: sessions,
+            message: ''
+        });
+    }))
+    // Open a drawer session with a starting float
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const body = validateRequest(openDrawerSchema, req.body, res);
+        if (!body) {
+            return;
+        }
+
+        const session = await drawerService.openSession(body.registerId, body.openingFloat, getAuth(res));
+        res.status(201).json({
+            success: true,
+            data: session,
+            message: 'Drawer session opened'
+        });
+    }))
+    .all(methodNotAllowed);
+
+drawersRouter.route('/sessions/current')
+    // Get the caller's open session
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const session = await drawerService.findOpenSession(getAuth(res).uid);
+        if (!session) {
+            throw new NotFoundError('No open drawer session');
+        }
+
+        res.json({
+            success: true,
+            data: session,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+drawersRouter.route('/sessions/:id')
+    // Get a drawer session with its paid-in/paid-out entries
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const session = await drawerService.getSession(req.params.id, getAuth(res));
+        const movements = await drawerService.listMovements(req.params.id);
+
+        res.json({
+            success: true,
+            data: { ...session, movements },
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+drawersRouter.route('/sessions/:id/movements')
+    // Record a paid-in or paid-out
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const movement = validateRequest(drawerMovementSchema, req.body, res);
+        if (!movement) {
+            return;
+        }
+
+        const created = await drawerService.addMovement(req.params.id, movement, getAuth(res));
+        res.status(201).json({
+            success: true,
+            data: created,
+            message: 'Drawer movement recorded'
+        });
+    }))
+    .all(methodNotAllowed);
+
+drawersRouter.route('/sessions/:id/x-report')
+    // Produce an X report for an open session
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const report = await drawerService.xReport(req.params.id, getAuth(res));
+
+        res.status(201).json({
+            success: true,
+            data: report,
+            message: 'X report generated'
+        });
+    }))
+    .all(methodNotAllowed);
+
+drawersRouter.route('/sessions/:id/close')
+    // Close a session with a cash count and produce its Z report
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const body = validateRequest(closeDrawerSchema, req.body, res);
+        if (!body) {
+            return;
+        }
+
+        const report = await drawerService.closeSession(req.params.id, body, getAuth(res));
+        res.json({
+            success: true,
+            data: report,
+            message: 'Drawer session closed'
+        });
+    }))
+    .all(methodNotAllowed);
+
+drawersRouter.route('/reports/:id')
+    // Get a stored X or Z report
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const report = await drawerService.getReport(req.params.id, getAuth(res));
+
+        res.json({
+            success: true,
+            data: report,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
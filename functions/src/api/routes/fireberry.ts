@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { ROLES } from '../../middleware/auth-middleware';
+import { auditService } from '../../services/audit-service';
+import { proxyPolicyService } from '../../services/proxy-policy';
+import { fireberryService } from '../../services/fireberry/fireberry-service';
+import { handleError } from '../../utils/error-handler';
+import { ForbiddenError, PayloadTooLargeError, ValidationError } from '../../utils/errors';
+import { asyncHandler, authorize, getAuth, methodNotAllowed, sendResult } from '../helpers';
+
+export const fireberryRouter = Router();
+
+fireberryRouter.route('/proxy')
+    // Generic access to the Fireberry API, restricted by the proxy policy
+    .post(authorize(ROLES), asyncHandler(async (req, res) => {
+        const auth = getAuth(res);
+
+        // Extract values from request body
+        const { endpoint, method, payload } = req.body || {};
+
+        if (!endpoint) {
+            handleError(new ValidationError('Missing required parameter: endpoint'), res);
+            return;
+        }
+
+        const decision = proxyPolicyService.evaluate(auth.role, endpoint, method, payload);
+        const auditEntry = {
+            action: 'fireberry.proxy',
+            uid: auth.uid,
+            role: auth.role,
+            details: {
+                endpoint: decision.endpoint,
+                method: decision.method,
+                payloadBytes: decision.payloadBytes
+            }
+        };
+
+        if (!decision.allowed) {
+            await auditService.record({ ...auditEntry, allowed: false, reason: decision.reason });
+            const reason = decision.reason || 'Request not allowed';
+            if (decision.status === 413) {
+                handleError(new PayloadTooLargeError(reason), res);
+            } else if (decision.status === 400) {
+                handleError(new ValidationError(reason), res);
+            } else {
+                handleError(new ForbiddenError(reason), res);
+            }
+            return;
+        }
+
+        const result = await fireberryService.callApi<any>(decision.endpoint, decision.method, payload);
+
+        await auditService.record({
+            ...auditEntry,
+            allowed: true,
+            details: { ...auditEntry.details, success: result.success, errorCode: result.error?.code }
+        });
+
+        sendResult(res, result, { failure: 'Failed to call Fireberry API' });
+    }))
+    .all(methodNotAllowed);
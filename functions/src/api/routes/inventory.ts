@@ -0,0 +1,171 @@
+import { Router } from 'express';
+import { inventoryService } from '../../services/fireberry';
+import { locationService } from '../../services/location-service';
+import { stockService } from '../../services/stock-service';
+import { reorderService } from '../../services/reorder-service';
+import { validateRequest } from '../../validation/validator';
+import { paginationSchema, reorderPurchaseSchema, stockLocationSchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import { NotFoundError } from '../../utils/errors';
+import {
+    asyncHandler,
+    authorize,
+    getAuth,
+    methodNotAllowed,
+    sendResult,
+    MANAGERS,
+    SALES_STAFF
+} from '../helpers';
+
+export const inventoryRouter = Router();
+
+inventoryRouter.route('/')
+    // List inventory with pagination
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const pagination = validateRequest(paginationSchema, req.query, res, { allowUnknown: true });
+        if (!pagination) {
+            return;
+        }
+
+        const result = await inventoryService.getAllInventory(pagination);
+        sendResult(res, result, { failure: 'Failed to fetch inventory' });
+    }))
+    .all(methodNotAllowed);
+
+inventoryRouter.route('/low-stock')
+    // List the inventory items at their reorder point, from sales velocity (legacy; see /reorder-suggestions)
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const pagination = validateRequest(paginationSchema, req.query, res, { allowUnknown: true });
+        if (!pagination) {
+            return;
+        }
+
+        const items = await reorderService.lowStock(pagination);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: items,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+inventoryRouter.route('/reorder-suggestions')
+    // Suggest reorder quantities from sales velocity, lead time and safety stock, grouped by supplier
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const groups = await reorderService.suggest();
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: groups,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+inventoryRouter.route('/reorder-suggestions/purchase-orders')
+    // Turn the suggestions into draft purchase orders, one per supplier
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createReorderPurchaseOrders', async () => {
+            const input = validateRequest(reorderPurchaseSchema, req.body, res);
+            if (!input) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const orders = await reorderService.createPurchaseOrders(input, auth.uid, auth.storeId);
+            res.status(201).json({
+                success: true,
+                data: orders,
+                message: `${orders.length} purchase order(s) created`
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+inventoryRouter.route('/locations')
+    // List stock locations (?branchId=)
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const locations = await locationService.listLocations(req.query.branchId as string | undefined);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: locations,
+            message: ''
+        });
+    }))
+    // Create a stock location
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const location = validateRequest(stockLocationSchema, req.body, res);
+        if (!location) {
+            return;
+        }
+
+        const created = await locationService.createLocation(location);
+        res.status(201).json({
+            success: true,
+            data: created,
+            message: 'Location created successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+inventoryRouter.route('/locations/:id')
+    // Get a stock location by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const location = await locationService.getLocation(req.params.id);
+        if (!location) {
+            throw new NotFoundError('Location not found');
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: location,
+            message: ''
+        });
+    }))
+    // Update a stock location
+    .put(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        // Remove id from the data if it exists to avoid overwriting
+        const rawData = { ...req.body };
+        delete rawData.id;
+
+        const changes = validateRequest(stockLocationSchema, rawData, res, { partial: true, omit: ['id'] });
+        if (!changes) {
+            return;
+        }
+
+        const location = await locationService.updateLocation(req.params.id, changes);
+        res.json({
+            success: true,
+            data: location,
+            message: 'Location updated successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+inventoryRouter.route('/locations/:id/low-stock')
+    // List products at or below their minimum at a location, from the stock ledger
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const items = await stockService.lowStock(req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: items,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+inventoryRouter.route('/:id')
+    // Get an inventory item by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const result = await inventoryService.getInventoryById(req.params.id);
+        sendResult(res, result, { failure: 'Failed to fetch inventory item' });
+    }))
+    .all(methodNotAllowed);
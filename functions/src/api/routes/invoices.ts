@@ -0,0 +1,287 @@
+import { Router } from 'express';
+import { invoiceService } from '../../services/fireberry';
+import { unwrapRecord } from '../../services/fireberry/fireberry-service';
+import { Invoice } from '../../services/fireberry/invoice-service';
+import { pricingService } from '../../services/pricing-service';
+import { promotionService } from '../../services/promotion-service';
+import { paymentService } from '../../services/payment-service';
+import { returnsService } from '../../services/returns-service';
+import { numberingService } from '../../services/numbering-service';
+import { outboxService, OutboxEntry } from '../../services/outbox-service';
+import { pdfService } from '../../services/pdf-service';
+import { receiptService } from '../../services/receipt-service';
+import { emailService } from '../../services/email-service';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import { validateRequest } from '../../validation/validator';
+import { paginationSchema, invoiceSchema, paymentSchema, refundSchema, voidPaymentSchema, receiptQuerySchema, sendEmailSchema } from '../../validation/schemas';
+import {
+    asyncHandler,
+    authorize,
+    getAuth,
+    methodNotAllowed,
+    replayQueuedWrite,
+    sendReceipt,
+    sendResult,
+    MANAGERS,
+    SALES_STAFF
+} from '../helpers';
+
+export const invoicesRouter = Router();
+
+// Invoice fields computed by the pricing engine
+const MONEY_FIELDS: (keyof Invoice)[] = ['items', 'subtotal', 'discount', 'tax', 'total', 'vat'];
+
+invoicesRouter.route('/')
+    // List invoices with pagination
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const pagination = validateRequest(paginationSchema, req.query, res, { allowUnknown: true });
+        if (!pagination) {
+            return;
+        }
+
+        const result = await invoiceService.getAllInvoices(pagination);
+        sendResult(res, result, { failure: 'Failed to fetch invoices' });
+    }))
+    // Create a new invoice (written through the outbox)
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createInvoice', async () => {
+            const invoiceData = validateRequest(invoiceSchema, req.body, res, { omit: ['id', 'number', 'vat'] });
+            if (!invoiceData) {
+                return;
+            }
+
+            // Line totals, tax and total are computed server side
+            const pricedInvoice = await pricingService.priceInvoice(invoiceData);
+            const promotions = await promotionService.evaluateReferenced(pricedInvoice.promotions || [], pricedInvoice.items.map((item) => ({
+                productId: item.productId,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice
+            })));
+
+            // The number is issued before the write is queued, so replays of the entry keep it
+            const auth = getAuth(res);
+            const { number } = await numberingService.next(pricedInvoice.type, { branchId: auth.storeId, createdBy: auth.uid });
+
+            // Promotions are redeemed under the invoice number before it is queued, so one past its cap is refused
+            try {
+                await promotionService.redeem(promotions, { sourceType: 'invoice', sourceId: number, createdBy: auth.uid });
+            } catch (error) {
+                await numberingService.void(number, 'Invoice promotions could not be redeemed');
+                throw error;
+            }
+
+            let queued: OutboxEntry;
+            try {
+                queued = await outboxService.enqueue('createInvoice', { ...pricedInvoice, number }, {
+                    createdBy: auth.uid,
+                    idempotencyKey: req.get('Idempotency-Key')
+                });
+            } catch (error) {
+                await promotionService.release(promotions, 'invoice', number);
+                await numberingService.void(number, 'Invoice could not be queued');
+                throw error;
+            }
+
+            // A retry with the same Idempotency-Key gets the entry queued first, under its own number
+            if (queued.payload?.number !== number) {
+                await promotionService.release(promotions, 'invoice', number);
+                await numberingService.void(number, `Invoice already queued as outbox entry ${queued.id}`);
+            }
+
+            await replayQueuedWrite(res, queued, {
+                created: 'Invoice created successfully',
+                queued: 'Invoice queued and will be sent to Fireberry shortly',
+                failed: 'Failed to create invoice'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id')
+    // Get an invoice by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const result = await invoiceService.getInvoiceById(req.params.id);
+        sendResult(res, result, { failure: 'Failed to fetch invoice' });
+    }))
+    // Update an existing invoice
+    .put(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        // Remove id from the data if it exists to avoid overwriting
+        const rawData = { ...req.body };
+        delete rawData.id;
+
+        let invoiceData = validateRequest(invoiceSchema, rawData, res, { partial: true, omit: ['number', 'vat'] });
+        if (!invoiceData) {
+            return;
+        }
+
+        // Changing any amount recomputes the totals against the stored invoice
+        if (MONEY_FIELDS.some((field) => invoiceData?.[field] !== undefined)) {
+            const existing = await invoiceService.getInvoiceById(req.params.id);
+            if (!existing.success || existing.stale) {
+                sendResult(res, { success: false, error: existing.error }, { failure: 'Failed to fetch invoice' });
+                return;
+            }
+
+            const priced = await pricingService.priceInvoice({ ...unwrapRecord<Invoice>(existing.data), ...invoiceData });
+            invoiceData = {
+                ...invoiceData,
+                ...Object.fromEntries(MONEY_FIELDS.map((field) => [field, priced[field]]))
+            };
+        }
+
+        const result = await invoiceService.updateInvoice(req.params.id, invoiceData);
+        sendResult(res, result, {
+            failure: 'Failed to update invoice',
+            success: 'Invoice updated successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/pdf')
+    // Render the invoice as a PDF saved to Cloud Storage; `?download=true` streams the file instead of returning a URL
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const { file, content } = await pdfService.generate(req.params.id);
+
+        if (req.query.download === 'true') {
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+            res.send(content);
+            return;
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: file,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/receipt')
+    // Print the invoice on a thermal receipt printer (ESC/POS); `?format=text` returns a plain-text preview
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const options = validateRequest(receiptQuerySchema, req.query, res);
+        if (!options) {
+            return;
+        }
+
+        const receipt = await receiptService.invoiceReceipt(req.params.id, options);
+        sendReceipt(res, receipt, options.format);
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/send')
+    // Email the invoice to the customer with its PDF attached; a draft becomes sent
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'sendInvoice', async () => {
+            const input = validateRequest(sendEmailSchema, req.body || {}, res);
+            if (!input) {
+                return;
+            }
+
+            const delivery = await emailService.sendInvoice(req.params.id, input, getAuth(res).uid);
+
+            // Return response in standardized format
+            res.json({
+                success: true,
+                data: delivery,
+                message: 'Invoice sent successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/emails')
+    // Get the emails sent for the invoice and their delivery status
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const deliveries = await emailService.listDeliveries('invoice', req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: deliveries,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/returns')
+    // Get the returns made against an invoice
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const returns = await returnsService.listReturns(req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: returns,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/payments')
+    // Get the payments, refunds and balance of an invoice
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const balance = await paymentService.getBalance(req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: balance,
+            message: ''
+        });
+    }))
+    // Record a payment; an invoice can be paid with several tenders
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'recordPayment', async () => {
+            const payment = validateRequest(paymentSchema, req.body, res);
+            if (!payment) {
+                return;
+            }
+
+            const result = await paymentService.recordPayment(req.params.id, payment, getAuth(res).uid);
+            res.status(201).json({
+                success: true,
+                data: result,
+                message: 'Payment recorded successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/payments/:paymentId/refund')
+    // Refund all or part of a payment
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'refundPayment', async () => {
+            const refund = validateRequest(refundSchema, req.body || {}, res);
+            if (!refund) {
+                return;
+            }
+
+            const result = await paymentService.refundPayment(req.params.id, req.params.paymentId, refund, getAuth(res).uid);
+            res.status(201).json({
+                success: true,
+                data: result,
+                message: 'Refund recorded successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+invoicesRouter.route('/:id/payments/:paymentId/void')
+    // Void a payment or refund entered in error
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const body = validateRequest(voidPaymentSchema, req.body, res);
+        if (!body) {
+            return;
+        }
+
+        const result = await paymentService.voidPayment(req.params.id, req.params.paymentId, body.reason, getAuth(res).uid);
+        res.json({
+            success: true,
+            data: result,
+            message: 'Payment voided successfully'
+        });
+    }))
+    .all(methodNotAllowed);
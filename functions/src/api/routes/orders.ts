@@ -0,0 +1,174 @@
+import { Response, Router } from 'express';
+import { orderService } from '../../services/fireberry';
+import { unwrapRecord, unwrapRecords } from '../../services/fireberry/fireberry-service';
+import { Order, OrderItem } from '../../services/fireberry/order-service';
+import { pricingService } from '../../services/pricing-service';
+import { receiptService } from '../../services/receipt-service';
+import { validateRequest } from '../../validation/validator';
+import { paginationSchema, orderSchema, orderItemSchema, receiptQuerySchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import {
+    asyncHandler,
+    authorize,
+    methodNotAllowed,
+    sendQueuedWrite,
+    sendReceipt,
+    sendResult,
+    MANAGERS,
+    SALES_STAFF
+} from '../helpers';
+
+export const ordersRouter = Router();
+
+// Order fields computed by the pricing engine
+const MONEY_FIELDS: (keyof Order)[] = ['subtotal', 'discount', 'tax', 'totalamount'];
+
+/**
+ * Price an order from its stored items, with the stored discount unless the changes set one.
+ * Sends the failure and returns null when the order or its items cannot be read.
+ */
+const priceStoredOrder = async (res: Response, id: string, changes: Partial<Order>): Promise<Partial<Order> | null> => {
+    const existing = await orderService.getOrderById(id);
+    if (!existing.success || existing.stale) {
+        sendResult(res, { success: false, error: existing.error }, { failure: 'Failed to fetch order' });
+        return null;
+    }
+
+    const items = await orderService.getOrderItems(id);
+    if (!items.success || items.stale) {
+        sendResult(res, { success: false, error: items.error }, { failure: 'Failed to fetch order items' });
+        return null;
+    }
+
+    const priced = await pricingService.priceOrder({ discount: unwrapRecord<Order>(existing.data).discount, ...changes },
+        unwrapRecords<OrderItem>(items.data));
+    return Object.fromEntries(MONEY_FIELDS.map((field) => [field, priced[field]]));
+};
+
+ordersRouter.route('/')
+    // List orders with pagination
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const pagination = validateRequest(paginationSchema, req.query, res, { allowUnknown: true });
+        if (!pagination) {
+            return;
+        }
+
+        const result = await orderService.getAllOrders(pagination);
+        sendResult(res, result, { failure: 'Failed to fetch orders' });
+    }))
+    // Create a new order (written through the outbox)
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createOrder', async () => {
+            const orderData = validateRequest(orderSchema, req.body, res, { omit: ['id'] });
+            if (!orderData) {
+                return;
+            }
+
+            // Totals are computed server side from the order items, which are added afterwards
+            const pricedOrder = await pricingService.priceOrder(orderData);
+
+            // Queue the order first so it is never lost, then try to replay it right away
+            await sendQueuedWrite(req, res, 'createOrder', pricedOrder, {
+                created: 'Order created successfully',
+                queued: 'Order queued and will be sent to Fireberry shortly',
+                failed: 'Failed to create order'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+ordersRouter.route('/:id')
+    // Get an order by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const result = await orderService.getOrderById(req.params.id);
+        sendResult(res, result, { failure: 'Failed to fetch order' });
+    }))
+    // Update an existing order
+    .put(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        // Remove id from the data if it exists to avoid overwriting
+        const rawData = { ...req.body };
+        delete rawData.id;
+
+        let orderData = validateRequest(orderSchema, rawData, res, { partial: true });
+        if (!orderData) {
+            return;
+        }
+
+        // Changing any amount recomputes the totals against the stored order items
+        if (MONEY_FIELDS.some((field) => orderData?.[field] !== undefined)) {
+            const totals = await priceStoredOrder(res, req.params.id, orderData);
+            if (!totals) {
+                return;
+            }
+            orderData = { ...orderData, ...totals };
+        }
+
+        const result = await orderService.updateOrder(req.params.id, orderData);
+        sendResult(res, result, {
+            failure: 'Failed to update order',
+            success: 'Order updated successfully'
+        });
+    }))
+    // Delete an order
+    .delete(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const result = await orderService.deleteOrder(req.params.id);
+        sendResult(res, result, {
+            failure: 'Failed to delete order',
+            success: 'Order deleted successfully',
+            emptyData: true
+        });
+    }))
+    .all(methodNotAllowed);
+
+ordersRouter.route('/:id/items')
+    // Get the items of an order
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const result = await orderService.getOrderItems(req.params.id);
+        sendResult(res, result, { failure: 'Failed to fetch order items' });
+    }))
+    // Add an item to an order
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const item = validateRequest(orderItemSchema, { ...req.body, orderid: req.params.id }, res, { omit: ['id'] });
+        if (!item) {
+            return;
+        }
+
+        item.amount = pricingService.priceOrderLine(item.quantity, item.unitprice, item.amount);
+
+        const result = await orderService.addOrderItem(req.params.id, item);
+        if (!result.success) {
+            sendResult(res, result, { failure: 'Failed to add order item' });
+            return;
+        }
+
+        // The new item changes the order totals
+        const totals = await priceStoredOrder(res, req.params.id, {});
+        if (!totals) {
+            return;
+        }
+        const updated = await orderService.updateOrder(req.params.id, totals);
+        if (!updated.success) {
+            sendResult(res, updated, { failure: 'Order item added, but the order totals could not be updated' });
+            return;
+        }
+
+        sendResult(res, result, {
+            failure: 'Failed to add order item',
+            success: 'Order item added successfully',
+            status: 201
+        });
+    }))
+    .all(methodNotAllowed);
+
+ordersRouter.route('/:id/receipt')
+    // Print the order on a thermal receipt printer (ESC/POS); `?format=text` returns a plain-text preview
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const options = validateRequest(receiptQuerySchema, req.query, res);
+        if (!options) {
+            return;
+        }
+
+        const receipt = await receiptService.orderReceipt(req.params.id, options);
+        sendReceipt(res, receipt, options.format);
+    }))
+    .all(methodNotAllowed);
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { outboxService } from '../../services/outbox-service';
+import { validateRequest } from '../../validation/validator';
+import { outboxQuerySchema } from '../../validation/schemas';
+import { NotFoundError } from '../../utils/errors';
+import { asyncHandler, authorize, methodNotAllowed, MANAGERS } from '../helpers';
+
+export const outboxRouter = Router();
+
+outboxRouter.route('/')
+    // List outbox entries (e.g. ?status=dead for the dead-letter list)
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const query = validateRequest(outboxQuerySchema, req.query, res);
+        if (!query) {
+            return;
+        }
+
+        const entries = await outboxService.listEntries(query.status, query.limit);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: entries,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+outboxRouter.route('/:id/redrive')
+    // Re-drive a dead-lettered outbox entry
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const { id } = req.params;
+
+        const entry = await outboxService.redrive(id);
+        if (!entry) {
+            throw new NotFoundError('Dead-lettered outbox entry not found');
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: { entry: await outboxService.replayEntry(id) },
+            message: 'Outbox entry re-queued'
+        });
+    }))
+    .all(methodNotAllowed);
@@ -0,0 +1,152 @@
+import { Router } from 'express';
+import { productService } from '../../services/fireberry';
+import { stockService } from '../../services/stock-service';
+import { locationService } from '../../services/location-service';
+import { validateRequest } from '../../validation/validator';
+import { paginationSchema, productSchema, stockMovementSchema, movementQuerySchema, stockMinimumSchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import {
+    asyncHandler,
+    authorize,
+    getAuth,
+    methodNotAllowed,
+    sendResult,
+    MANAGERS,
+    SALES_STAFF
+} from '../helpers';
+
+export const productsRouter = Router();
+
+productsRouter.route('/')
+    // List products with pagination
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const pagination = validateRequest(paginationSchema, req.query, res, { allowUnknown: true });
+        if (!pagination) {
+            return;
+        }
+
+        const result = await productService.getAllProductsPaginated(pagination);
+        sendResult(res, result, { failure: 'Failed to fetch paginated products' });
+    }))
+    // Create a new product
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createProduct', async () => {
+            const productData = validateRequest(productSchema, req.body, res, { omit: ['id', 'itemquantity'] });
+            if (!productData) {
+                return;
+            }
+
+            const result = await productService.createProduct(productData);
+            sendResult(res, result, {
+                failure: 'Failed to create product',
+                success: 'Product created successfully',
+                status: 201
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+productsRouter.route('/:id')
+    // Get a product by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const result = await productService.getProductById(req.params.id);
+        sendResult(res, result, { failure: 'Failed to fetch product' });
+    }))
+    // Update an existing product
+    .put(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        // Remove id from the data if it exists to avoid overwriting
+        const rawData = { ...req.body };
+        delete rawData.id;
+
+        const productData = validateRequest(productSchema, rawData, res, { partial: true, omit: ['itemquantity'] });
+        if (!productData) {
+            return;
+        }
+
+        const result = await productService.updateProduct(req.params.id, productData);
+        sendResult(res, result, {
+            failure: 'Failed to update product',
+            success: 'Product updated successfully'
+        });
+    }))
+    // Delete a product
+    .delete(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const result = await productService.deleteProduct(req.params.id);
+        sendResult(res, result, {
+            failure: 'Failed to delete product',
+            success: 'Product deleted successfully',
+            emptyData: true
+        });
+    }))
+    .all(methodNotAllowed);
+
+productsRouter.route('/:id/stock')
+    // Get the quantity on hand from the stock ledger
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const level = await stockService.getLevel(req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: level,
+            message: level ? '' : 'No stock movements recorded for this product'
+        });
+    }))
+    .all(methodNotAllowed);
+
+productsRouter.route('/:id/stock/movements')
+    // Get the stock movement history, newest first
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const query = validateRequest(movementQuerySchema, req.query, res);
+        if (!query) {
+            return;
+        }
+
+        const movements = await stockService.listMovements(req.params.id, query);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: movements,
+            message: ''
+        });
+    }))
+    // Record a receiving, shrinkage or count correction
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'recordStockMovement', async () => {
+            const input = validateRequest(stockMovementSchema, req.body, res);
+            if (!input) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const locationId = await locationService.resolve(input.locationId, auth.storeId);
+            const [movement] = await stockService.post([{ ...input, locationId, productId: req.params.id }], { createdBy: auth.uid });
+
+            // Return response in standardized format
+            res.status(201).json({
+                success: true,
+                data: movement,
+                message: 'Stock movement recorded successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+productsRouter.route('/:id/stock/minimums/:locationId')
+    // Set the low-stock threshold of the product at a location
+    .put(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const body = validateRequest(stockMinimumSchema, req.body, res);
+        if (!body) {
+            return;
+        }
+
+        const locationId = await locationService.resolve(req.params.locationId);
+        const level = await stockService.setMinimum(req.params.id, locationId, body.minimum);
+        res.json({
+            success: true,
+            data: level,
+            message: 'Minimum updated successfully'
+        });
+    }))
+    .all(methodNotAllowed);
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { promotionService } from '../../services/promotion-service';
+import { checkoutService } from '../../services/checkout-service';
+import { validateRequest } from '../../validation/validator';
+import { evaluateCartSchema, promotionSchema } from '../../validation/schemas';
+import { NotFoundError } from '../../utils/errors';
+import { asyncHandler, authorize, methodNotAllowed, MANAGERS, SALES_STAFF } from '../helpers';
+
+export const promotionsRouter = Router();
+
+promotionsRouter.route('/')
+    // List promotions (?active=true for the active ones only)
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const promotions = await promotionService.listPromotions(req.query.active === 'true');
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: promotions,
+            message: ''
+        });
+    }))
+    // Create a promotion
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const promotion = validateRequest(promotionSchema, req.body, res, { omit: ['id', 'usageCount'] });
+        if (!promotion) {
+            return;
+        }
+
+        const created = await promotionService.createPromotion(promotion);
+        res.status(201).json({
+            success: true,
+            data: created,
+            message: 'Promotion created successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+promotionsRouter.route('/evaluate')
+    // Apply the active promotions to a cart without selling it
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const cart = validateRequest(evaluateCartSchema, req.body, res);
+        if (!cart) {
+            return;
+        }
+
+        const lines = await checkoutService.priceCart(cart.items, false);
+        const evaluation = await promotionService.evaluate(lines.map((line) => ({
+            productId: line.productId,
+            categorycode: line.product.categorycode,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice
+        })), { couponCodes: cart.couponCodes, customerSegment: cart.customerSegment });
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: evaluation,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+promotionsRouter.route('/:id')
+    // Get a promotion by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const promotion = await promotionService.getPromotion(req.params.id);
+        if (!promotion) {
+            throw new NotFoundError('Promotion not found');
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: promotion,
+            message: ''
+        });
+    }))
+    // Update a promotion
+    .put(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        // Remove id from the data if it exists to avoid overwriting
+        const rawData = { ...req.body };
+        delete rawData.id;
+
+        const changes = validateRequest(promotionSchema, rawData, res, { partial: true, omit: ['usageCount'] });
+        if (!changes) {
+            return;
+        }
+
+        const promotion = await promotionService.updatePromotion(req.params.id, changes);
+        if (!promotion) {
+            throw new NotFoundError('Promotion not found');
+        }
+
+        res.json({
+            success: true,
+            data: promotion,
+            message: 'Promotion updated successfully'
+        });
+    }))
+    // Delete a promotion
+    .delete(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        if (!await promotionService.deletePromotion(req.params.id)) {
+            throw new NotFoundError('Promotion not found');
+        }
+
+        res.json({
+            success: true,
+            data: null,
+            message: 'Promotion deleted successfully'
+        });
+    }))
+    .all(methodNotAllowed);
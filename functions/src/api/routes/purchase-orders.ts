@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import { purchaseOrderService } from '../../services/purchase-order-service';
+import { validateRequest } from '../../validation/validator';
+import { purchaseOrderQuerySchema, purchaseOrderSchema, receivingSchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import { NotFoundError } from '../../utils/errors';
+import { asyncHandler, authorize, getAuth, methodNotAllowed, MANAGERS, SALES_STAFF } from '../helpers';
+
+export const purchaseOrdersRouter = Router();
+
+purchaseOrdersRouter.route('/')
+    // List purchase orders, newest first (?status=&supplier=&limit=)
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const query = validateRequest(purchaseOrderQuerySchema, req.query, res);
+        if (!query) {
+            return;
+        }
+
+        const orders = await purchaseOrderService.listPurchaseOrders(query);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: orders,
+            message: ''
+        });
+    }))
+    // Create a draft purchase order
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createPurchaseOrder', async () => {
+            const input = validateRequest(purchaseOrderSchema, req.body, res);
+            if (!input) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const order = await purchaseOrderService.createPurchaseOrder(input, auth.uid, auth.storeId);
+            res.status(201).json({
+                success: true,
+                data: order,
+                message: 'Purchase order created successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+purchaseOrdersRouter.route('/:id')
+    // Get a purchase order by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const order = await purchaseOrderService.getPurchaseOrder(req.params.id);
+        if (!order) {
+            throw new NotFoundError('Purchase order not found');
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: order,
+            message: ''
+        });
+    }))
+    // Update a draft purchase order
+    .put(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const changes = validateRequest(purchaseOrderSchema, req.body, res, { partial: true });
+        if (!changes) {
+            return;
+        }
+
+        const order = await purchaseOrderService.updatePurchaseOrder(req.params.id, changes);
+        res.json({
+            success: true,
+            data: order,
+            message: 'Purchase order updated successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+purchaseOrdersRouter.route('/:id/send')
+    // Mark a draft as sent to the supplier
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const order = await purchaseOrderService.send(req.params.id, getAuth(res).uid);
+        res.json({
+            success: true,
+            data: order,
+            message: 'Purchase order sent'
+        });
+    }))
+    .all(methodNotAllowed);
+
+purchaseOrdersRouter.route('/:id/cancel')
+    // Cancel a purchase order; received quantities stay in stock
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const order = await purchaseOrderService.cancel(req.params.id, getAuth(res).uid);
+        res.json({
+            success: true,
+            data: order,
+            message: 'Purchase order cancelled'
+        });
+    }))
+    .all(methodNotAllowed);
+
+purchaseOrdersRouter.route('/:id/receipts')
+    // List the deliveries booked against a purchase order
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const receipts = await purchaseOrderService.listReceipts(req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: receipts,
+            message: ''
+        });
+    }))
+    // Book a delivery: received quantities go into stock and update the product costs
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'receivePurchaseOrder', async () => {
+            const input = validateRequest(receivingSchema, req.body, res);
+            if (!input) {
+                return;
+            }
+
+            const result = await purchaseOrderService.receive(req.params.id, input, getAuth(res).uid);
+            res.status(201).json({
+                success: true,
+                data: result,
+                message: 'Delivery received successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
@@ -0,0 +1,251 @@
+import { Router } from 'express';
+import { repairService } from '../../services/fireberry';
+import { numberingService } from '../../services/numbering-service';
+import { receiptService } from '../../services/receipt-service';
+import { emailService } from '../../services/email-service';
+import { stockService } from '../../services/stock-service';
+import { locationService } from '../../services/location-service';
+import { validateRequest } from '../../validation/validator';
+import {
+    paginationSchema,
+    repairTicketSchema,
+    repairPartSchema,
+    repairLogSchema,
+    repairStatusSchema,
+    assignTechnicianSchema,
+    completeRepairSchema,
+    receiptQuerySchema,
+    sendEmailSchema
+} from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import {
+    asyncHandler,
+    authorize,
+    getAuth,
+    methodNotAllowed,
+    sendReceipt,
+    sendResult,
+    MANAGERS,
+    REPAIR_STAFF
+} from '../helpers';
+
+export const repairsRouter = Router();
+
+repairsRouter.route('/')
+    // List repair tickets with pagination
+    .get(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const pagination = validateRequest(paginationSchema, req.query, res, { allowUnknown: true });
+        if (!pagination) {
+            return;
+        }
+
+        const result = await repairService.getAllRepairs(pagination);
+        sendResult(res, result, { failure: 'Failed to fetch repairs' });
+    }))
+    // Create a new repair ticket
+    .post(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createRepair', async () => {
+            const repairData = validateRequest(repairTicketSchema, req.body, res, { omit: ['id', 'ticketNumber'] });
+            if (!repairData) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const { number } = await numberingService.next('repair', { branchId: auth.storeId, createdBy: auth.uid });
+
+            const result = await repairService.createRepair({ ...repairData, ticketNumber: number });
+            if (!result.success) {
+                await numberingService.void(number, 'Repair ticket was not created');
+            }
+            sendResult(res, result, {
+                failure: 'Failed to create repair ticket',
+                success: 'Repair ticket created successfully',
+                status: 201
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id')
+    // Get a repair ticket by ID
+    .get(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const result = await repairService.getRepairById(req.params.id);
+        sendResult(res, result, { failure: 'Failed to fetch repair ticket' });
+    }))
+    // Update a repair ticket
+    .put(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        // Remove id from the data if it exists to avoid overwriting
+        const rawData = { ...req.body };
+        delete rawData.id;
+
+        const repairData = validateRequest(repairTicketSchema, rawData, res, { partial: true, omit: ['ticketNumber'] });
+        if (!repairData) {
+            return;
+        }
+
+        const result = await repairService.updateRepair(req.params.id, repairData);
+        sendResult(res, result, {
+            failure: 'Failed to update repair ticket',
+            success: 'Repair ticket updated successfully'
+        });
+    }))
+    // Delete a repair ticket
+    .delete(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const result = await repairService.deleteRepair(req.params.id);
+        sendResult(res, result, {
+            failure: 'Failed to delete repair ticket',
+            success: 'Repair ticket deleted successfully',
+            emptyData: true
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/status')
+    // Update repair status
+    .post(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const data = validateRequest(repairStatusSchema, req.body, res);
+        if (!data) {
+            return;
+        }
+
+        const result = await repairService.updateStatus(req.params.id, data.status);
+        sendResult(res, result, {
+            failure: 'Failed to update repair status',
+            success: 'Repair status updated successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/assign')
+    // Assign a technician
+    .post(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const data = validateRequest(assignTechnicianSchema, req.body, res);
+        if (!data) {
+            return;
+        }
+
+        const result = await repairService.assignTechnician(req.params.id, data.technician);
+        sendResult(res, result, {
+            failure: 'Failed to assign technician',
+            success: 'Technician assigned successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/parts')
+    // Add a part to a repair; a part taken from stock is recorded in the stock ledger
+    .post(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const part = validateRequest(repairPartSchema, req.body, res, { omit: ['id'] });
+        if (!part) {
+            return;
+        }
+
+        const auth = getAuth(res);
+        const fromStock = part.productId && part.quantity > 0 && (part.status === 'in-stock' || part.status === 'used');
+        if (fromStock) {
+            part.locationId = await locationService.resolve(part.locationId, auth.storeId);
+        }
+        const movements = fromStock ? await stockService.post([{
+            productId: part.productId as string,
+            quantity: -part.quantity,
+            reason: 'repair-part',
+            locationId: part.locationId,
+            sourceType: 'repair',
+            sourceId: req.params.id
+        }], { createdBy: auth.uid, skipUntracked: true }) : [];
+
+        const result = await repairService.addPart(req.params.id, part);
+        if (!result.success && movements.length) {
+            await stockService.reverse(movements.map((movement) => movement.id as string), {
+                createdBy: auth.uid,
+                note: 'Repair part was not added'
+            });
+        }
+        sendResult(res, result, {
+            failure: 'Failed to add part',
+            success: 'Part added successfully',
+            status: 201
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/logs')
+    // Add a log entry to a repair
+    .post(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const log = validateRequest(repairLogSchema, req.body, res, { omit: ['id'] });
+        if (!log) {
+            return;
+        }
+
+        const result = await repairService.addLogEntry(req.params.id, log);
+        sendResult(res, result, {
+            failure: 'Failed to add log entry',
+            success: 'Log entry added successfully',
+            status: 201
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/complete')
+    // Complete a repair
+    .post(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const data = validateRequest(completeRepairSchema, req.body, res);
+        if (!data) {
+            return;
+        }
+
+        const result = await repairService.completeRepair(req.params.id, data);
+        sendResult(res, result, {
+            failure: 'Failed to complete repair',
+            success: 'Repair completed successfully'
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/slip')
+    // Print the repair intake slip on a thermal receipt printer (ESC/POS); `?format=text` returns a plain-text preview
+    .get(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const options = validateRequest(receiptQuerySchema, req.query, res);
+        if (!options) {
+            return;
+        }
+
+        const receipt = await receiptService.repairSlip(req.params.id, options);
+        sendReceipt(res, receipt, options.format);
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/send')
+    // Email the customer that the repaired device is ready for pickup
+    .post(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'sendRepairReady', async () => {
+            const input = validateRequest(sendEmailSchema, req.body || {}, res);
+            if (!input) {
+                return;
+            }
+
+            const delivery = await emailService.sendRepairReady(req.params.id, input, getAuth(res).uid);
+
+            // Return response in standardized format
+            res.json({
+                success: true,
+                data: delivery,
+                message: 'Customer notified successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+repairsRouter.route('/:id/emails')
+    // Get the emails sent for the repair and their delivery status
+    .get(authorize(REPAIR_STAFF), asyncHandler(async (req, res) => {
+        const deliveries = await emailService.listDeliveries('repair', req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: deliveries,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
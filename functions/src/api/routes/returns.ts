@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { returnsService } from '../../services/returns-service';
+import { validateRequest } from '../../validation/validator';
+import { returnSchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import { NotFoundError } from '../../utils/errors';
+import { asyncHandler, authorize, getAuth, methodNotAllowed, SALES_STAFF } from '../helpers';
+
+export const returnsRouter = Router();
+
+returnsRouter.route('/')
+    // Return items of an invoice: credit note, optional restock, refunds and exchange sale, rolled back on failure
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'return', async () => {
+            const request = validateRequest(returnSchema, req.body, res);
+            if (!request) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const result = await returnsService.processReturn(request, auth.uid, auth.storeId);
+
+            // Return response in standardized format
+            res.status(201).json({
+                success: true,
+                data: result,
+                message: 'Return processed successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+returnsRouter.route('/:id')
+    // Get a return record, including the outcome of a failed return
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const record = await returnsService.getReturn(req.params.id);
+        if (!record) {
+            throw new NotFoundError('Return not found');
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: record,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
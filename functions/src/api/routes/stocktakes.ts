@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import { stocktakeService } from '../../services/stocktake-service';
+import { validateRequest } from '../../validation/validator';
+import { approveStocktakeSchema, countSubmissionSchema, stocktakeQuerySchema, stocktakeSchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import { asyncHandler, authorize, getAuth, methodNotAllowed, MANAGERS, SALES_STAFF } from '../helpers';
+
+export const stocktakesRouter = Router();
+
+stocktakesRouter.route('/')
+    // List count sessions (?locationId=&status=&limit=)
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const query = validateRequest(stocktakeQuerySchema, req.query, res);
+        if (!query) {
+            return;
+        }
+
+        const sessions = await stocktakeService.listSessions({ locationId: query.locationId, status: query.status }, query.limit);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: sessions,
+            message: ''
+        });
+    }))
+    // Open a count session for a location, optionally one category, freezing the system quantities
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'openStocktake', async () => {
+            const input = validateRequest(stocktakeSchema, req.body, res);
+            if (!input) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const stocktake = await stocktakeService.openSession(input, auth.uid, auth.storeId);
+            res.status(201).json({
+                success: true,
+                data: stocktake,
+                message: 'Stocktake opened'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+stocktakesRouter.route('/:id')
+    // Get a count session
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const stocktake = await stocktakeService.getSession(req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: stocktake,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+stocktakesRouter.route('/:id/counts')
+    // List the count entries of all devices
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const counts = await stocktakeService.listCounts(req.params.id);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: counts,
+            message: ''
+        });
+    }))
+    // Submit counted quantities from a device, by barcode/catalog number or product ID
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'submitStocktakeCounts', async () => {
+            const submission = validateRequest(countSubmissionSchema, req.body, res);
+            if (!submission) {
+                return;
+            }
+
+            const entries = await stocktakeService.submitCounts(req.params.id, submission, getAuth(res).uid);
+            res.status(201).json({
+                success: true,
+                data: entries,
+                message: 'Counts recorded'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+stocktakesRouter.route('/:id/variance')
+    // Compare counts with the frozen system quantities and their value (?zeroUncounted=true)
+    .get(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const report = await stocktakeService.variance(req.params.id, { zeroUncounted: req.query.zeroUncounted === 'true' });
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: report,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+stocktakesRouter.route('/:id/approve')
+    // Approve the counts and post count corrections for the variances
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'approveStocktake', async () => {
+            const input = validateRequest(approveStocktakeSchema, req.body || {}, res);
+            if (!input) {
+                return;
+            }
+
+            const report = await stocktakeService.approve(req.params.id, input, getAuth(res).uid);
+            res.json({
+                success: true,
+                data: report,
+                message: 'Stocktake approved'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+stocktakesRouter.route('/:id/cancel')
+    // Cancel an open count session without posting anything
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const stocktake = await stocktakeService.cancel(req.params.id, getAuth(res).uid);
+        res.json({
+            success: true,
+            data: stocktake,
+            message: 'Stocktake cancelled'
+        });
+    }))
+    .all(methodNotAllowed);
@@ -0,0 +1,98 @@
+import { Router } from 'express';
+import { transferService } from '../../services/transfer-service';
+import { validateRequest } from '../../validation/validator';
+import { transferQuerySchema, transferSchema } from '../../validation/schemas';
+import { withIdempotency } from '../../middleware/idempotency-middleware';
+import { NotFoundError } from '../../utils/errors';
+import { asyncHandler, authorize, getAuth, methodNotAllowed, MANAGERS, SALES_STAFF } from '../helpers';
+
+export const transfersRouter = Router();
+
+transfersRouter.route('/')
+    // List stock transfers, newest first (?status=&fromLocationId=&toLocationId=&limit=)
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const query = validateRequest(transferQuerySchema, req.query, res);
+        if (!query) {
+            return;
+        }
+
+        const transfers = await transferService.listTransfers(query);
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: transfers,
+            message: ''
+        });
+    }))
+    // Create a transfer between two locations, optionally sending it right away
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        await withIdempotency(req, res, 'createTransfer', async () => {
+            const input = validateRequest(transferSchema, req.body, res);
+            if (!input) {
+                return;
+            }
+
+            const auth = getAuth(res);
+            const transfer = await transferService.createTransfer(input, auth.uid, auth.storeId);
+            res.status(201).json({
+                success: true,
+                data: transfer,
+                message: 'Transfer created successfully'
+            });
+        });
+    }))
+    .all(methodNotAllowed);
+
+transfersRouter.route('/:id')
+    // Get a transfer by ID
+    .get(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const transfer = await transferService.getTransfer(req.params.id);
+        if (!transfer) {
+            throw new NotFoundError('Transfer not found');
+        }
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: transfer,
+            message: ''
+        });
+    }))
+    .all(methodNotAllowed);
+
+transfersRouter.route('/:id/send')
+    // Send a draft transfer: its items leave the source location
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const transfer = await transferService.send(req.params.id, getAuth(res).uid);
+        res.json({
+            success: true,
+            data: transfer,
+            message: 'Transfer sent'
+        });
+    }))
+    .all(methodNotAllowed);
+
+transfersRouter.route('/:id/receive')
+    // Receive a sent transfer at the destination location
+    .post(authorize(SALES_STAFF), asyncHandler(async (req, res) => {
+        const transfer = await transferService.receive(req.params.id, getAuth(res).uid);
+        res.json({
+            success: true,
+            data: transfer,
+            message: 'Transfer received'
+        });
+    }))
+    .all(methodNotAllowed);
+
+transfersRouter.route('/:id/cancel')
+    // Cancel a transfer that was not received; sent items return to the source location
+    .post(authorize(MANAGERS), asyncHandler(async (req, res) => {
+        const transfer = await transferService.cancel(req.params.id, getAuth(res).uid);
+        res.json({
+            success: true,
+            data: transfer,
+            message: 'Transfer cancelled'
+        });
+    }))
+    .all(methodNotAllowed);
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { isRole } from '../../middleware/auth-middleware';
+import { adminAuth } from '../../utils/firebase-admin';
+import { handleError } from '../../utils/error-handler';
+import { ValidationError } from '../../utils/errors';
+import { asyncHandler, authorize, methodNotAllowed, ADMINS } from '../helpers';
+
+export const usersRouter = Router();
+
+usersRouter.route('/:uid/role')
+    // Assign a role to a staff user via Firebase Auth custom claims
+    .post(authorize(ADMINS), asyncHandler(async (req, res) => {
+        const { uid } = req.params;
+        const { role, storeId } = req.body || {};
+        if (!isRole(role)) {
+            handleError(new ValidationError('A valid role (cashier, technician, manager, admin) is required'), res);
+            return;
+        }
+
+        await adminAuth.setCustomUserClaims(uid, storeId ? { role, storeId } : { role });
+
+        // Return response in standardized format
+        res.json({
+            success: true,
+            data: { uid, role },
+            message: 'User role updated successfully'
+        });
+    }))
+    .all(methodNotAllowed);
@@ -0,0 +1,502 @@
+import express, { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+/**
+ * In-process fake of the Fireberry REST API for local development and tests.
+ *
+ * Implements record CRUD under `api/record/{object}`, paging via
+ * `pagesize`/`pagenumber`, and `api/query` with the Fireberry query syntax
+ * (`(field start-with '%abc') OR (field = 'x')`, AND/OR and parentheses).
+ *
+ * Point FireberryService at it with `FIREBERRY_BASE_URL` or `fireberry.base_url`.
+ */
+
+// Record objects the emulator knows about, with their primary key and object type number
+const OBJECTS: Record<string, { primaryKey: string, primaryField: string, objectType: number }> = {
+    account: { primaryKey: 'accountid', primaryField: 'accountname', objectType: 1 },
+    cases: { primaryKey: 'casesid', primaryField: 'title', objectType: 5 },
+    crmorder: { primaryKey: 'crmorderid', primaryField: 'name', objectType: 13 },
+    product: { primaryKey: 'productid', primaryField: 'name', objectType: 14 },
+    // Emulator-only object type numbers; these objects are not queried through api/query
+    inventory: { primaryKey: 'inventoryid', primaryField: 'name', objectType: 1001 },
+    invoiceno: { primaryKey: 'invoicenoid', primaryField: 'number', objectType: 1002 }
+};
+
+const MAX_PAGE_SIZE = 50;
+
+type FireberryRecord = Record<string, any>;
+
+// Injected failure for the next matching requests
+interface Fault {
+    status: number;
+    remaining: number;
+    retryAfter?: string;
+    pathPrefix?: string;
+}
+
+export interface FireberryEmulatorOptions {
+    token?: string;              // when set, requests must send a matching `tokenid` header
+}
+
+// ----- Query language -----
+
+type QueryNode =
+    | { kind: 'and' | 'or', left: QueryNode, right: QueryNode }
+    | { kind: 'condition', field: string, operator: string, value?: string };
+
+const OPERATORS = ['not-start-with', 'start-with', 'is-not-null', 'is-null', '!=', '<=', '>=', '=', '<', '>'];
+
+/**
+ * Parse a Fireberry query string into a tree
+ */
+export const parseQuery = (query: string): QueryNode => {
+    let position = 0;
+
+    const skipWhitespace = () => {
+        while (position < query.length && /\s/.test(query[position])) {
+            position++;
+        }
+    };
+
+    const expect = (token: string) => {
+        skipWhitespace();
+        if (!query.startsWith(token, position)) {
+            throw new Error(`Expected '${token}' at position ${position}`);
+        }
+        position += token.length;
+    };
+
+    const keyword = (word: string): boolean => {
+        skipWhitespace();
+        const candidate = query.substring(position, position + word.length);
+        if (candidate.toUpperCase() === word && !/\w/.test(query[position + word.length] || '')) {
+            position += word.length;
+            return true;
+        }
+        return false;
+    };
+
+    const parseCondition = (): QueryNode => {
+        skipWhitespace();
+        const fieldMatch = /^[A-Za-z_][\w]*/.exec(query.substring(position));
+        if (!fieldMatch) {
+            throw new Error(`Expected field name at position ${position}`);
+        }
+        const field = fieldMatch[0];
+        position += field.length;
+        skipWhitespace();
+
+        const operator = OPERATORS.find((candidate) => query.startsWith(candidate, position));
+        if (!operator) {
+            throw new Error(`Unknown operator at position ${position}`);
+        }
+        position += operator.length;
+
+        if (operator === 'is-null' || operator === 'is-not-null') {
+            return { kind: 'condition', field, operator };
+        }
+
+        skipWhitespace();
+        let value = '';
+        if (query[position] === '\'') {
+            const end = query.indexOf('\'', position + 1);
+            if (end < 0) {
+                throw new Error('Unterminated string literal');
+            }
+            value = query.substring(position + 1, end);
+            position = end + 1;
+        } else {
+            const valueMatch = /^[^\s)]+/.exec(query.substring(position));
+            value = valueMatch ? valueMatch[0] : '';
+            position += value.length;
+        }
+
+        return { kind: 'condition', field, operator, value };
+    };
+
+    const parsePrimary = (): QueryNode => {
+        skipWhitespace();
+        if (query[position] === '(') {
+            position++;
+            const node = parseOr();
+            expect(')');
+            return node;
+        }
+        return parseCondition();
+    };
+
+    const parseAnd = (): QueryNode => {
+        let node = parsePrimary();
+        while (keyword('AND')) {
+            node = { kind: 'and', left: node, right: parsePrimary() };
+        }
+        return node;
+    };
+
+    const parseOr = (): QueryNode => {
+        let node = parseAnd();
+        while (keyword('OR')) {
+            node = { kind: 'or', left: node, right: parseAnd() };
+        }
+        return node;
+    };
+
+    const tree = parseOr();
+    skipWhitespace();
+    if (position < query.length) {
+        throw new Error(`Unexpected input at position ${position}`);
+    }
+    return tree;
+};
+
+const compare = (left: any, right: string): number => {
+    const leftNumber = Number(left);
+    const rightNumber = Number(right);
+    if (left !== '' && right !== '' && !Number.isNaN(leftNumber) && !Number.isNaN(rightNumber)) {
+        return leftNumber - rightNumber;
+    }
+    return String(left).localeCompare(right);
+};
+
+/**
+ * Evaluate a parsed query against a record
+ */
+export const matchesQuery = (node: QueryNode, record: FireberryRecord): boolean => {
+    if (node.kind !== 'condition') {
+        return node.kind === 'and'
+            ? matchesQuery(node.left, record) && matchesQuery(node.right, record)
+            : matchesQuery(node.left, record) || matchesQuery(node.right, record);
+    }
+
+    const actual = record[node.field];
+    const expected = node.value ?? '';
+    const isNull = actual === undefined || actual === null || actual === '';
+
+    switch (node.operator) {
+    case 'is-null':
+        return isNull;
+    case 'is-not-null':
+        return !isNull;
+    case 'start-with':
+    case 'not-start-with': {
+        const text = String(actual ?? '').toLowerCase();
+        // A leading % matches anywhere in the field
+        const matched = expected.startsWith('%')
+            ? text.includes(expected.substring(1).toLowerCase())
+            : text.startsWith(expected.toLowerCase());
+        return node.operator === 'start-with' ? !isNull && matched : !matched;
+    }
+    case '=':
+        return !isNull && compare(actual, expected) === 0;
+    case '!=':
+        return isNull || compare(actual, expected) !== 0;
+    case '<':
+        return !isNull && compare(actual, expected) < 0;
+    case '>':
+        return !isNull && compare(actual, expected) > 0;
+    case '<=':
+        return !isNull && compare(actual, expected) <= 0;
+    case '>=':
+        return !isNull && compare(actual, expected) >= 0;
+    }
+
+    return false;
+};
+
+// ----- Emulator -----
+
+export class FireberryEmulator {
+    private records = new Map<string, Map<string, FireberryRecord>>();
+    private faults: Fault[] = [];
+    private server: Server | null = null;
+
+    // Every request received, for assertions
+    readonly requests: { method: string, path: string, body: any }[] = [];
+
+    readonly app = express();
+
+    constructor(private options: FireberryEmulatorOptions = {}) {
+        for (const object of Object.keys(OBJECTS)) {
+            this.records.set(object, new Map());
+        }
+        this.configureRoutes();
+    }
+
+    /**
+     * Start listening
+     * @param port - Port to listen on, 0 for a random free port
+     * @returns Base URL to use as `fireberry.base_url`
+     */
+    start(port: number = 0): Promise<string> {
+        return new Promise((resolve) => {
+            this.server = this.app.listen(port, '127.0.0.1', () => {
+                const address = this.server?.address() as AddressInfo;
+                resolve(`http://127.0.0.1:${address.port}`);
+            });
+        });
+    }
+
+    /**
+     * Stop listening
+     */
+    stop(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close((error) => (error ? reject(error) : resolve()));
+            this.server = null;
+        });
+    }
+
+    /**
+     * Remove all records, faults and recorded requests
+     */
+    reset(): void {
+        this.records.forEach((records) => records.clear());
+        this.faults = [];
+        this.requests.length = 0;
+    }
+
+    /**
+     * Insert records directly
+     * @returns The stored records, with primary keys assigned
+     */
+    seed(object: string, records: FireberryRecord[]): FireberryRecord[] {
+        return records.map((record) => this.insert(object, record));
+    }
+
+    /**
+     * Get all records of an object
+     */
+    all(object: string): FireberryRecord[] {
+        return Array.from(this.records.get(object)?.values() || []);
+    }
+
+    /**
+     * Fail the next `count` requests (optionally only those under `pathPrefix`) with `status`
+     */
+    failNext(status: number, count: number = 1, options: { retryAfter?: string, pathPrefix?: string } = {}): void {
+        this.faults.push({ status, remaining: count, ...options });
+    }
+
+    private insert(object: string, record: FireberryRecord): FireberryRecord {
+        const { primaryKey } = OBJECTS[object];
+        const id = record[primaryKey] || randomUUID();
+        const now = new Date().toISOString();
+        const stored = { ...record, [primaryKey]: id, createdon: record.createdon || now, modifiedon: now };
+        delete stored.id;
+        this.records.get(object)?.set(id, stored);
+        return stored;
+    }
+
+    private configureRoutes(): void {
+        this.app.use(express.json({ limit: '1mb' }));
+
+        // Record requests, check the token and apply injected faults
+        this.app.use((req, res, next) => {
+            this.requests.push({ method: req.method, path: req.path, body: req.body });
+
+            if (this.options.token && req.get('tokenid') !== this.options.token) {
+                res.status(401).json({ success: false, Message: 'Invalid token' });
+                return;
+            }
+
+            const fault = this.faults.find((candidate) =>
+                candidate.remaining > 0 && (!candidate.pathPrefix || req.path.startsWith(candidate.pathPrefix)));
+            if (fault) {
+                fault.remaining--;
+                this.faults = this.faults.filter((candidate) => candidate.remaining > 0);
+                if (fault.retryAfter) {
+                    res.set('Retry-After', fault.retryAfter);
+                }
+                res.status(fault.status).json({ success: false, Message: `Injected failure (${fault.status})` });
+                return;
+            }
+
+            next();
+        });
+
+        this.app.get('/api/record/:object', (req, res) => this.list(req, res));
+        this.app.get('/api/record/:object/:id', (req, res) => this.get(req, res));
+        this.app.post('/api/record/:object', (req, res) => this.create(req, res));
+        this.app.put('/api/record/:object/:id', (req, res) => this.update(req, res));
+        this.app.patch('/api/record/:object/:id', (req, res) => this.update(req, res));
+        this.app.delete('/api/record/:object/:id', (req, res) => this.remove(req, res));
+        this.app.post('/api/query', (req, res) => this.query(req, res));
+
+        this.app.use((req, res) => {
+            res.status(404).json({ success: false, Message: `No route for ${req.method} ${req.path}` });
+        });
+    }
+
+    private getObject(req: Request, res: Response): string | null {
+        const object = req.params.object.toLowerCase();
+        if (!OBJECTS[object]) {
+            res.status(404).json({ success: false, Message: `Unknown object: ${req.params.object}` });
+            return null;
+        }
+        return object;
+    }
+
+    private paging(pageSizeInput: any, pageNumberInput: any): { pageSize: number, pageNumber: number } {
+        const pageSize = Math.min(Math.max(Number(pageSizeInput) || MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const pageNumber = Math.max(Number(pageNumberInput) || 1, 1);
+        return { pageSize, pageNumber };
+    }
+
+    private list(req: Request, res: Response): void {
+        const object = this.getObject(req, res);
+        if (!object) {
+            return;
+        }
+
+        const { pageSize, pageNumber } = this.paging(req.query.pagesize, req.query.pagenumber);
+        const records = this.all(object);
+        const start = (pageNumber - 1) * pageSize;
+
+        res.json({
+            success: true,
+            data: {
+                PrimaryKey: OBJECTS[object].primaryKey,
+                PrimaryField: OBJECTS[object].primaryField,
+                Total_Records: records.length,
+                Page_Size: pageSize,
+                Page_Number: pageNumber,
+                Records: records.slice(start, start + pageSize)
+            },
+            message: ''
+        });
+    }
+
+    private get(req: Request, res: Response): void {
+        const object = this.getObject(req, res);
+        if (!object) {
+            return;
+        }
+
+        const record = this.records.get(object)?.get(req.params.id);
+        if (!record) {
+            res.status(404).json({ success: false, Message: 'Record not found' });
+            return;
+        }
+
+        res.json({ success: true, data: { Record: record }, message: '' });
+    }
+
+    private create(req: Request, res: Response): void {
+        const object = this.getObject(req, res);
+        if (!object) {
+            return;
+        }
+
+        if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+            res.status(400).json({ success: false, Message: 'Request body must be an object' });
+            return;
+        }
+
+        const record = this.insert(object, { ...req.body, [OBJECTS[object].primaryKey]: undefined });
+        res.json({ success: true, data: { Record: record }, message: 'Record created' });
+    }
+
+    private update(req: Request, res: Response): void {
+        const object = this.getObject(req, res);
+        if (!object) {
+            return;
+        }
+
+        const records = this.records.get(object) as Map<string, FireberryRecord>;
+        const existing = records.get(req.params.id);
+        if (!existing) {
+            res.status(404).json({ success: false, Message: 'Record not found' });
+            return;
+        }
+
+        const { primaryKey } = OBJECTS[object];
+        const updated = {
+            ...existing,
+            ...req.body,
+            [primaryKey]: existing[primaryKey],
+            modifiedon: new Date().toISOString()
+        };
+        records.set(req.params.id, updated);
+
+        res.json({ success: true, data: { Record: updated }, message: 'Record updated' });
+    }
+
+    private remove(req: Request, res: Response): void {
+        const object = this.getObject(req, res);
+        if (!object) {
+            return;
+        }
+
+        if (!this.records.get(object)?.delete(req.params.id)) {
+            res.status(404).json({ success: false, Message: 'Record not found' });
+            return;
+        }
+
+        res.json({ success: true, data: { Record: { [OBJECTS[object].primaryKey]: req.params.id } }, message: 'Record deleted' });
+    }
+
+    private query(req: Request, res: Response): void {
+        const body = req.body || {};
+        const object = Object.keys(OBJECTS).find((name) => OBJECTS[name].objectType === Number(body.objecttype));
+        if (!object) {
+            res.status(400).json({ success: false, Message: `Unknown objecttype: ${body.objecttype}` });
+            return;
+        }
+
+        let tree: QueryNode | null = null;
+        if (body.query) {
+            try {
+                tree = parseQuery(String(body.query));
+            } catch (error) {
+                res.status(400).json({ success: false, Message: `Invalid query: ${(error as Error).message}` });
+                return;
+            }
+        }
+
+        const { pageSize, pageNumber } = this.paging(body.page_size, body.page_number);
+        const fields = typeof body.fields === 'string' && body.fields !== '*'
+            ? body.fields.split(',').map((field: string) => field.trim()).filter(Boolean)
+            : null;
+
+        let records = this.all(object).filter((record) => !tree || matchesQuery(tree, record));
+
+        if (body.sort_by) {
+            const direction = String(body.sort_type).toLowerCase() === 'desc' ? -1 : 1;
+            records = records.sort((a, b) => direction * compare(a[body.sort_by] ?? '', String(b[body.sort_by] ?? '')));
+        }
+
+        const start = (pageNumber - 1) * pageSize;
+        const page = records.slice(start, start + pageSize).map((record) => fields
+            ? Object.fromEntries(fields.map((field: string) => [field, record[field] ?? null]))
+            : record);
+
+        res.json({
+            success: true,
+            data: {
+                ObjectName: object,
+                PrimaryKey: OBJECTS[object].primaryKey,
+                PrimaryField: OBJECTS[object].primaryField,
+                Total_Records: records.length,
+                PageNum: pageNumber,
+                Page_Size: pageSize,
+                IsLastPage: start + pageSize >= records.length,
+                Data: page
+            },
+            message: ''
+        });
+    }
+}
+
+// Allow running standalone: node lib/emulator/fireberry-emulator.js
+if (require.main === module) {
+    const emulator = new FireberryEmulator({ token: process.env.FIREBERRY_EMULATOR_TOKEN });
+    emulator.start(Number(process.env.FIREBERRY_EMULATOR_PORT) || 5005).then((baseUrl) => {
+        console.log(`Fireberry emulator listening on ${baseUrl}`);
+    });
+}
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { adminAuth, db } from '../utils/firebase-admin';
+import { handleError } from '../utils/error-handler';
+import { ForbiddenError, UnauthenticatedError } from '../utils/errors';
+
+// Roles that can be assigned to staff users and store API keys
+export type Role = 'cashier' | 'technician' | 'manager' | 'admin';
+
+export const ROLES: Role[] = ['cashier', 'technician', 'manager', 'admin'];
+
+// Authenticated caller details
+export interface AuthContext {
+    uid: string;
+    role: Role;
+    method: 'token' | 'apiKey';
+    storeId?: string;
+}
+
+// Firestore collection holding store API keys, keyed by SHA-256 of the key
+const API_KEYS_COLLECTION = 'apiKeys';
+
+/**
+ * Check whether a value is a known role
+ */
+export const isRole = (value: unknown): value is Role => {
+    return typeof value === 'string' && ROLES.includes(value as Role);
+};
+
+/**
+ * Hash a store API key for lookup
+ * @param apiKey - Raw API key
+ * @returns Hex encoded SHA-256 digest
+ */
+export const hashApiKey = (apiKey: string): string => {
+    return createHash('sha256').update(apiKey).digest('hex');
+};
+
+/**
+ * Resolve the caller from a Firebase ID token or a store API key
+ * @param req - HTTP request
+ * @returns Auth context, or null if no valid credentials were supplied
+ */
+const authenticate = async (req: Request): Promise<AuthContext | null> => {
+    const authorization = req.get('Authorization') || '';
+
+    if (authorization.startsWith('Bearer ')) {
+        const idToken = authorization.substring('Bearer '.length).trim();
+        try {
+            const decoded = await adminAuth.verifyIdToken(idToken);
+            return {
+                uid: decoded.uid,
+                role: decoded.role,
+                method: 'token',
+                storeId: decoded.storeId
+            };
+        } catch (error) {
+            console.warn('Invalid ID token:', (error as Error).message);
+            return null;
+        }
+    }
+
+    const apiKey = req.get('X-API-Key');
+    if (apiKey) {
+        const snapshot = await db.collection(API_KEYS_COLLECTION).doc(hashApiKey(apiKey)).get();
+        const keyData = snapshot.data();
+        if (!snapshot.exists || !keyData || keyData.active === false) {
+            return null;
+        }
+
+        return {
+            uid: `apikey:${snapshot.id.substring(0, 12)}`,
+            role: keyData.role,
+            method: 'apiKey',
+            storeId: keyData.storeId
+        };
+    }
+
+    return null;
+};
+
+/**
+ * Authenticate the request and enforce the allowed roles.
+ * Admins are allowed on every endpoint. On failure a 401/403 response is
+ * sent and null is returned, so the caller should simply return.
+ * @param req - HTTP request
+ * @param res - HTTP response
+ * @param allowedRoles - Roles allowed to call the endpoint
+ * @returns Auth context when the caller is allowed, otherwise null
+ */
+export const requireAuth = async (req: Request, res: Response, allowedRoles: Role[]): Promise<AuthContext | null> => {
+    const context = await authenticate(req);
+
+    if (!context) {
+        handleError(new UnauthenticatedError(), res);
+        return null;
+    }
+
+    if (!isRole(context.role)) {
+        handleError(new ForbiddenError('No role assigned to this account'), res);
+        return null;
+    }
+
+    if (context.role !== 'admin' && !allowedRoles.includes(context.role)) {
+        handleError(new ForbiddenError(`Role '${context.role}' is not allowed to perform this action`), res);
+        return null;
+    }
+
+    return context;
+};
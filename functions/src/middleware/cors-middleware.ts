@@ -1,23 +1,12 @@
-import { Request, Response } from 'express';
 import cors from 'cors';
 
-const corsHandler = cors({
+/**
+ * CORS middleware for the HTTP API
+ */
+export const corsMiddleware = cors({
     origin: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key'],
+    exposedHeaders: ['Idempotent-Replayed'],
     credentials: true
 });
-
-/**
- * Handle CORS for HTTP functions
- * @param req - HTTP request
- * @param res - HTTP response
- * @returns Promise that resolves when CORS is handled
- */
-export const applyCors = (req: Request, res: Response): Promise<void> => {
-    return new Promise((resolve) => {
-        corsHandler(req, res, () => {
-            resolve();
-        });
-    });
-}; 
\ No newline at end of file
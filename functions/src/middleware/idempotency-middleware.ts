@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import * as functions from 'firebase-functions';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { handleError } from '../utils/error-handler';
+import { ConflictError, ValidationError } from '../utils/errors';
+
+// Firestore collection holding idempotency records.
+// A TTL policy on `expiresAt` can be used to purge old records.
+const IDEMPOTENCY_COLLECTION = 'idempotencyKeys';
+
+// How long an in-progress record blocks retries before it is considered abandoned
+const IN_PROGRESS_TIMEOUT_MS = 60 * 1000;
+
+// Stored idempotency record
+interface IdempotencyRecord {
+    scope: string;
+    requestHash: string;
+    status: 'in-progress' | 'completed';
+    response?: {
+        statusCode: number;
+        body: any;
+    };
+    lockedAt: Timestamp;
+    expiresAt: Timestamp;
+}
+
+/**
+ * Retention window for idempotency keys (idempotency.retention_hours, default 24h)
+ */
+const getRetentionMs = (): number => {
+    const hours = Number(functions.config().idempotency?.retention_hours) || 24;
+    return hours * 60 * 60 * 1000;
+};
+
+/**
+ * JSON stringify with sorted keys so equal bodies hash equally
+ */
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter((key) => value[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Hash a request body
+ */
+export const hashRequestBody = (body: any): string => {
+    return createHash('sha256').update(stableStringify(body ?? null)).digest('hex');
+};
+
+/**
+ * Run a create handler at most once per `Idempotency-Key` header.
+ * A repeated key within the retention window replays the stored response;
+ * reusing a key with a different body, or while the first request is still
+ * running, is rejected with 409. Requests without the header run normally.
+ * Only successful (2xx) responses are stored, so failed requests can be retried.
+ * @param req - HTTP request
+ * @param res - HTTP response
+ * @param scope - Endpoint name, so the same key can be used on different endpoints
+ * @param handler - The handler to run
+ */
+export const withIdempotency = async (
+    req: Request,
+    res: Response,
+    scope: string,
+    handler: () => Promise<void>
+): Promise<void> => {
+    const key = req.get('Idempotency-Key');
+    if (!key) {
+        await handler();
+        return;
+    }
+
+    if (key.length > 255) {
+        handleError(new ValidationError('Idempotency-Key must be at most 255 characters'), res);
+        return;
+    }
+
+    const requestHash = hashRequestBody(req.body);
+    const docRef = db.collection(IDEMPOTENCY_COLLECTION)
+        .doc(createHash('sha256').update(`${scope}:${key}`).digest('hex'));
+
+    const existing = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        const record = doc.data() as IdempotencyRecord | undefined;
+        const now = Date.now();
+
+        const isLive = record &&
+            record.expiresAt.toMillis() > now &&
+            (record.status === 'completed' || now - record.lockedAt.toMillis() < IN_PROGRESS_TIMEOUT_MS);
+
+        if (isLive) {
+            return record;
+        }
+
+        transaction.set(docRef, {
+            scope,
+            requestHash,
+            status: 'in-progress',
+            lockedAt: Timestamp.fromMillis(now),
+            expiresAt: Timestamp.fromMillis(now + getRetentionMs())
+        });
+        return null;
+    });
+
+    if (existing) {
+        if (existing.requestHash !== requestHash) {
+            handleError(new ConflictError('Idempotency-Key was already used with a different request body'), res);
+            return;
+        }
+
+        if (existing.status !== 'completed' || !existing.response) {
+            handleError(new ConflictError('A request with this Idempotency-Key is still being processed'), res);
+            return;
+        }
+
+        res.set('Idempotent-Replayed', 'true');
+        res.status(existing.response.statusCode).json(existing.response.body);
+        return;
+    }
+
+    // Capture the response the handler sends
+    let captured: { statusCode: number, body: any } | null = null;
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+        captured = { statusCode: res.statusCode, body };
+        return originalJson(body);
+    };
+
+    try {
+        await handler();
+    } finally {
+        res.json = originalJson;
+
+        const result = captured as { statusCode: number, body: any } | null;
+        try {
+            if (result && result.statusCode >= 200 && result.statusCode < 300) {
+                await docRef.update({
+                    status: 'completed',
+                    response: JSON.parse(JSON.stringify(result)),
+                    completedAt: FieldValue.serverTimestamp()
+                });
+            } else {
+                // Release the key so the client can retry
+                await docRef.delete();
+            }
+        } catch (error) {
+            console.error('Failed to store idempotency record:', error);
+        }
+    }
+};
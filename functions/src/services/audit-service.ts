@@ -0,0 +1,39 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+
+// Audit log entry
+export interface AuditEntry {
+    action: string;              // e.g. 'fireberry.proxy'
+    uid: string;                 // caller uid (or API key reference)
+    role: string;                // caller role
+    allowed: boolean;            // whether the action was permitted
+    reason?: string;             // rejection reason, if any
+    details?: Record<string, any>;
+}
+
+export class AuditService {
+    private collection = 'auditLogs';
+
+    /**
+     * Write an audit record.
+     * Failures are logged and swallowed so auditing never breaks the request.
+     */
+    async record(entry: AuditEntry): Promise<void> {
+        try {
+            // Firestore rejects undefined values
+            const cleanedEntry = Object.fromEntries(
+                Object.entries(entry).filter(([_, value]) => value !== undefined)
+            );
+
+            await db.collection(this.collection).add({
+                ...cleanedEntry,
+                createdAt: FieldValue.serverTimestamp()
+            });
+        } catch (error) {
+            console.error('Failed to write audit record:', error);
+        }
+    }
+}
+
+// Export a singleton instance
+export const auditService = new AuditService();
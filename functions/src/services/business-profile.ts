@@ -0,0 +1,33 @@
+import * as functions from 'firebase-functions';
+
+// Business details printed on documents, read from `functions.config().business`
+export interface BusinessProfile {
+    name: string;
+    vatId?: string;              // עוסק מורשה / ח.פ.
+    address?: string;
+    phone?: string;
+    email?: string;
+    website?: string;
+    logoPath?: string;           // Cloud Storage path of a PNG or JPEG logo
+    fontPath?: string;           // Cloud Storage path of a TTF font with Hebrew glyphs
+    boldFontPath?: string;       // optional bold variant of the font
+}
+
+/**
+ * Build the business profile from Firebase config
+ */
+export const loadBusinessProfile = (): BusinessProfile => {
+    const config = functions.config().business || {};
+
+    return JSON.parse(JSON.stringify({
+        name: config.name || '',
+        vatId: config.vat_id,
+        address: config.address,
+        phone: config.phone,
+        email: config.email,
+        website: config.website,
+        logoPath: config.logo_path,
+        fontPath: config.font_path,
+        boldFontPath: config.bold_font_path
+    }));
+};
@@ -0,0 +1,481 @@
+import { randomUUID } from 'crypto';
+import { DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { moneyEquals, roundMoney } from '../utils/money';
+import { AppError, ConflictError, fromFireberryError, NotFoundError, ValidationError } from '../utils/errors';
+import { FireberryResponse, unwrapRecord } from './fireberry/fireberry-service';
+import { orderService, Order, OrderItem } from './fireberry/order-service';
+import { invoiceService, Invoice, InvoiceItem } from './fireberry/invoice-service';
+import { productService, Product } from './fireberry/product-service';
+import { pricingService } from './pricing-service';
+import { promotionService, AppliedPromotion } from './promotion-service';
+import { paymentService, Payment, PaymentInput, PaymentMethod } from './payment-service';
+import { drawerService } from './drawer-service';
+import { numberingService } from './numbering-service';
+import { stockService, StockChange } from './stock-service';
+import { locationService } from './location-service';
+import { toAppError } from '../utils/error-handler';
+
+// A cart line as sent by the till
+export interface CartItem {
+    productId: string;
+    quantity: number;
+}
+
+// Checkout request
+export interface CheckoutRequest {
+    accountid: string;           // customer account id
+    companyname: string;         // customer company name
+    customerName?: string;
+    customerPhone?: string;
+    customerEmail?: string;
+    customerAddress?: string;
+    items: CartItem[];
+    invoiceType?: 'invoice' | 'receipt';
+    paymentMethod?: PaymentMethod;  // single tender for the full amount
+    payments?: PaymentInput[];   // split tender; takes precedence over paymentMethod
+    couponCodes?: string[];
+    customerSegment?: string;
+    locationId?: string;         // stock location sold from; defaults to the branch default location
+    notes?: string;
+}
+
+// A priced cart line
+export interface PricedLine {
+    product: Product;
+    productId: string;
+    quantity: number;
+    unitPrice: number;
+    amount: number;              // quantity * unit price
+    discount: number;            // promotion discount
+}
+
+export type CheckoutStatus = 'pending' | 'completed' | 'rolled-back' | 'rollback-failed';
+
+// Checkout record stored in Firestore, updated as each step completes
+export interface CheckoutRecord {
+    id?: string;
+    status: CheckoutStatus;
+    request: CheckoutRequest;
+    orderId?: string;
+    orderItemIds: string[];
+    invoiceId?: string;
+    invoiceNumber?: string;
+    locationId: string;          // stock location the sale decremented
+    stockChanges: StockChange[];
+    promotions: AppliedPromotion[];
+    paymentIds?: string[];
+    failedStep?: string;
+    error?: {
+        code: string;
+        message: string;
+    };
+    compensationErrors?: string[];
+    sessionId?: string;          // drawer session of the cashier
+    createdBy?: string;
+    createdAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+// Result of a completed checkout
+export interface CheckoutResult {
+    checkoutId: string;
+    order: Order;
+    items: OrderItem[];
+    invoice: Invoice;
+    stockChanges: StockChange[];
+    promotions: AppliedPromotion[];
+    payments: Payment[];
+}
+
+// Checkout options
+export interface CheckoutOptions {
+    branchId?: string;           // branch whose invoice number series and default stock location are used
+    storeCredit?: {              // credit applied before the tenders, e.g. from an exchange
+        amount: number;
+        reference: string;       // credit note ID
+    };
+}
+
+// Raised by a checkout step; carries the Fireberry error for the step
+class StepFailure extends Error {
+    constructor(public readonly step: string, public readonly error: AppError) {
+        super(error.message);
+    }
+}
+
+export class CheckoutService {
+    private collection = 'checkouts';
+
+    /**
+     * Sell a cart: apply promotions, create the order and its items, issue the invoice,
+     * decrement stock and record the tenders. Each step is recorded in Firestore; if a step fails, the completed steps are
+     * compensated in reverse order and the error is thrown with the checkout id.
+     * Store credit is applied first, up to the total; the tenders cover the rest.
+     */
+    async checkout(request: CheckoutRequest, createdBy?: string, options: CheckoutOptions = {}): Promise<CheckoutResult> {
+        const locationId = await locationService.resolve(request.locationId, options.branchId);
+        const lines = await this.priceCart(request.items, true, locationId);
+
+        const evaluation = await promotionService.evaluate(lines.map((line) => ({
+            productId: line.productId,
+            categorycode: line.product.categorycode,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice
+        })), { couponCodes: request.couponCodes, customerSegment: request.customerSegment });
+        lines.forEach((line, index) => {
+            line.discount = evaluation.lines[index].discount;
+        });
+
+        const totals = pricingService.calculate(lines.map((line) => ({
+            categorycode: line.product.categorycode,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            discount: line.discount
+        })));
+
+        const credit = roundMoney(Math.min(options.storeCredit?.amount || 0, totals.total));
+        const due = roundMoney(totals.total - credit);
+        const requested: PaymentInput[] = request.payments?.length
+            ? request.payments
+            : request.paymentMethod && due > 0 ? [{ method: request.paymentMethod, amount: due }] : [];
+        if (requested.length === 0 && (due > 0 || credit === 0)) {
+            throw new ValidationError('Either paymentMethod or payments is required',
+                [{ field: 'payments', message: 'is required' }]);
+        }
+        const tenders: PaymentInput[] = credit > 0
+            ? [{ method: 'store-credit', amount: credit, reference: options.storeCredit?.reference }, ...requested]
+            : requested;
+        paymentService.checkTenders(tenders, totals.total);
+        const amountPaid = roundMoney(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const session = createdBy ? await drawerService.findOpenSession(createdBy) : null;
+        const record: CheckoutRecord = {
+            status: 'pending',
+            request: JSON.parse(JSON.stringify(request)),
+            orderItemIds: [],
+            locationId,
+            stockChanges: [],
+            promotions: evaluation.applied,
+            ...(session ? { sessionId: session.id } : {}),
+            ...(createdBy ? { createdBy } : {})
+        };
+        await docRef.set({
+            ...record,
+            createdAt: FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+
+        const today = new Date().toISOString().substring(0, 10);
+
+        let order: Order | undefined;
+        const items: OrderItem[] = [];
+        let invoice: Invoice | undefined;
+        let payments: Payment[] = [];
+
+        try {
+            // Count the promotions against their usage caps; the rollback releases them
+            try {
+                await promotionService.redeem(evaluation.applied, { sourceType: 'checkout', sourceId: docRef.id, createdBy });
+            } catch (error) {
+                throw new StepFailure('redeemPromotions', toAppError(error));
+            }
+
+            order = await this.runStep('createOrder', () => orderService.createOrder({
+                accountid: request.accountid,
+                companyname: request.companyname,
+                orderdate: today,
+                // Order subtotal is before promotions, which are shown as the order discount
+                subtotal: roundMoney(totals.subtotal + evaluation.totalDiscount),
+                discount: evaluation.totalDiscount,
+                tax: totals.tax,
+                totalamount: totals.total
+            }));
+            record.orderId = this.recordId(order, 'crmorderid');
+            await this.saveProgress(docRef, { orderId: record.orderId });
+
+            for (const line of lines) {
+                const item = await this.runStep('addOrderItem', () => orderService.addOrderItem(record.orderId as string, {
+                    orderid: record.orderId as string,
+                    productid: line.productId,
+                    name: line.product.name,
+                    quantity: line.quantity,
+                    unitprice: line.unitPrice,
+                    amount: roundMoney(line.amount - line.discount)
+                }));
+                items.push(item);
+                const itemId = this.recordId(item);
+                if (itemId) {
+                    record.orderItemIds.push(itemId);
+                }
+            }
+            await this.saveProgress(docRef, { orderItemIds: record.orderItemIds });
+
+            try {
+                const issued = await numberingService.next(request.invoiceType || 'receipt', { branchId: options.branchId, createdBy });
+                record.invoiceNumber = issued.number;
+            } catch (error) {
+                throw new StepFailure('issueNumber', toAppError(error));
+            }
+            await this.saveProgress(docRef, { invoiceNumber: record.invoiceNumber });
+
+            invoice = await this.runStep('createInvoice', () => invoiceService.createInvoice({
+                number: record.invoiceNumber,
+                type: request.invoiceType || 'receipt',
+                date: today,
+                customerId: request.accountid,
+                customerName: request.customerName || request.companyname,
+                customerPhone: request.customerPhone,
+                customerEmail: request.customerEmail,
+                customerAddress: request.customerAddress,
+                items: lines.map((line): InvoiceItem => ({
+                    productId: line.productId,
+                    productName: line.product.name,
+                    quantity: line.quantity,
+                    unitPrice: line.unitPrice,
+                    discount: line.discount,
+                    total: roundMoney(line.amount - line.discount)
+                })),
+                subtotal: totals.subtotal,
+                tax: totals.tax,
+                discount: totals.discount,
+                total: totals.total,
+                vat: totals.vat,
+                notes: request.notes,
+                status: moneyEquals(amountPaid, totals.total) ? 'paid' : 'partially-paid',
+                paymentMethod: tenders[0].method,
+                paymentDate: today,
+                promotions: evaluation.applied.map((promotion) => promotion.promotionId)
+            }));
+            record.invoiceId = this.recordId(invoice, 'invoicenoid');
+            await this.saveProgress(docRef, { invoiceId: record.invoiceId });
+
+            try {
+                // Products without a tracked quantity are not stock managed
+                const movements = await stockService.post(lines.map((line) => ({
+                    productId: line.productId,
+                    quantity: -line.quantity,
+                    reason: 'sale',
+                    locationId,
+                    sourceType: 'checkout',
+                    sourceId: docRef.id
+                })), { createdBy, skipUntracked: true });
+                record.stockChanges = stockService.changes(movements);
+            } catch (error) {
+                throw new StepFailure('decrementStock', toAppError(error));
+            }
+            await this.saveProgress(docRef, { stockChanges: record.stockChanges });
+
+            try {
+                payments = await paymentService.recordTenders(record.invoiceId as string, tenders, createdBy);
+            } catch (error) {
+                throw new StepFailure('recordPayments', toAppError(error));
+            }
+            record.paymentIds = payments.map((payment) => payment.id as string);
+        } catch (error) {
+            // Errors outside a step, e.g. a failed progress write, still leave completed steps to undo
+            const failure = error instanceof StepFailure ? error : new StepFailure('unexpected', toAppError(error));
+
+            const compensationErrors = await this.compensate(docRef.id, record);
+            const status: CheckoutStatus = compensationErrors.length ? 'rollback-failed' : 'rolled-back';
+
+            await this.saveProgress(docRef, {
+                status,
+                failedStep: failure.step,
+                error: { code: failure.error.code, message: failure.error.message },
+                compensationErrors
+            });
+
+            throw new AppError(failure.error.code, `Checkout failed at ${failure.step}: ${failure.error.message}`, failure.error.status, {
+                checkoutId: docRef.id,
+                failedStep: failure.step,
+                status
+            });
+        }
+
+        await this.saveProgress(docRef, { status: 'completed', stockChanges: record.stockChanges, paymentIds: record.paymentIds });
+
+        return {
+            checkoutId: docRef.id,
+            order: order as Order,
+            items,
+            invoice: invoice as Invoice,
+            stockChanges: record.stockChanges,
+            promotions: evaluation.applied,
+            payments
+        };
+    }
+
+    /**
+     * Get a checkout record by ID
+     */
+    async getCheckout(id: string): Promise<CheckoutRecord | null> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        return doc.exists ? { id: doc.id, ...doc.data() } as CheckoutRecord : null;
+    }
+
+    /**
+     * Roll back a completed checkout, e.g. the exchange sale of a return that failed afterwards.
+     * The payments are voided and the other steps are undone as when the checkout itself fails.
+     * @throws ConflictError when the checkout is not completed
+     */
+    async rollback(id: string, reason: string): Promise<CheckoutRecord> {
+        const docRef = db.collection(this.collection).doc(id);
+
+        // Claim the checkout in a transaction, so that it is not rolled back twice
+        const record = await db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(docRef);
+            if (!doc.exists) {
+                throw new NotFoundError(`Checkout ${id} not found`);
+            }
+
+            const existing = { id: doc.id, ...doc.data() } as CheckoutRecord;
+            if (existing.status !== 'completed') {
+                throw new ConflictError(`Checkout ${id} is ${existing.status}`);
+            }
+            transaction.update(docRef, { status: 'rolled-back', updatedAt: FieldValue.serverTimestamp() });
+            return existing;
+        });
+
+        const compensationErrors = await this.compensate(id, record, reason);
+        const status: CheckoutStatus = compensationErrors.length ? 'rollback-failed' : 'rolled-back';
+        await this.saveProgress(docRef, { status, compensationErrors });
+
+        return { ...record, status, compensationErrors };
+    }
+
+    /**
+     * Load the cart products and price each line from `Product.itemprice`.
+     * Repeated products are merged into one line.
+     * @param checkStock - Reject lines with more than the quantity in stock
+     * @param locationId - Location whose stock is checked; defaults to the configured default location
+     */
+    async priceCart(cart: CartItem[], checkStock: boolean = true, locationId?: string): Promise<PricedLine[]> {
+        const quantities = new Map<string, number>();
+        for (const item of cart) {
+            quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+        }
+
+        const lines: PricedLine[] = [];
+        for (const [productId, quantity] of quantities) {
+            const result = await productService.getProductById(productId);
+            if (!result.success) {
+                throw fromFireberryError(result.error, `Failed to fetch product ${productId}`);
+            }
+            if (result.stale) {
+                throw new AppError('UPSTREAM_UNAVAILABLE', 'Fireberry is unavailable; cannot price the cart from cached data', 503);
+            }
+
+            const product = unwrapRecord<Product>(result.data);
+            if (product.itemprice === undefined || product.itemprice === null) {
+                throw new ValidationError(`Product ${productId} has no price`);
+            }
+
+            const available = checkStock ? await stockService.available(productId, product, locationId) : undefined;
+            if (available !== undefined && available < quantity) {
+                throw new ConflictError(`Insufficient stock for ${product.name}: ${available} available, ${quantity} requested`);
+            }
+
+            lines.push({
+                product,
+                productId,
+                quantity,
+                unitPrice: product.itemprice,
+                amount: roundMoney(quantity * product.itemprice),
+                discount: 0
+            });
+        }
+
+        return lines;
+    }
+
+    /**
+     * Run a Fireberry call for a checkout step, throwing a StepFailure when it fails
+     */
+    private async runStep<T>(step: string, call: () => Promise<FireberryResponse<T>>): Promise<T> {
+        const result = await call();
+        if (!result.success) {
+            throw new StepFailure(step, fromFireberryError(result.error, `Checkout step ${step} failed`));
+        }
+        return unwrapRecord<T>(result.data);
+    }
+
+    /**
+     * Undo the completed steps in reverse order
+     * @returns Messages for the steps that could not be undone
+     */
+    private async compensate(checkoutId: string, record: CheckoutRecord, reason: string = `Checkout ${checkoutId} rolled back`): Promise<string[]> {
+        const errors: string[] = [];
+
+        const undo = async (description: string, call: () => Promise<FireberryResponse<any>>) => {
+            const result = await call();
+            if (!result.success) {
+                errors.push(`${description}: ${result.error?.message || 'unknown error'}`);
+            }
+        };
+
+        if (record.paymentIds?.length) {
+            try {
+                await paymentService.voidPayments(record.paymentIds, reason);
+            } catch (error) {
+                errors.push(`void payments: ${(error as Error).message}`);
+            }
+        }
+
+        if (record.stockChanges.length) {
+            try {
+                await stockService.reverse(record.stockChanges.map((change) => change.movementId), { note: reason });
+            } catch (error) {
+                errors.push(`restore stock: ${(error as Error).message}`);
+            }
+        }
+
+        if (record.invoiceId) {
+            await undo(`delete invoice ${record.invoiceId}`, () => invoiceService.deleteInvoice(record.invoiceId as string));
+        }
+
+        // Items first, so that none is left behind if Fireberry does not cascade the order delete
+        for (const itemId of [...record.orderItemIds].reverse()) {
+            await undo(`delete order item ${itemId}`, () => orderService.deleteOrderItem(record.orderId as string, itemId));
+        }
+        if (record.orderId) {
+            await undo(`delete order ${record.orderId}`, () => orderService.deleteOrder(record.orderId as string));
+        }
+
+        try {
+            await promotionService.release(record.promotions, 'checkout', checkoutId);
+        } catch (error) {
+            errors.push(`release promotions: ${(error as Error).message}`);
+        }
+
+        // The number is not reused; voiding it accounts for the gap in the series
+        if (record.invoiceNumber) {
+            try {
+                await numberingService.void(record.invoiceNumber, reason);
+            } catch (error) {
+                errors.push(`void invoice number ${record.invoiceNumber}: ${(error as Error).message}`);
+            }
+        }
+
+        if (errors.length) {
+            console.error('Checkout compensation incomplete:', errors);
+        }
+
+        return errors;
+    }
+
+    private recordId(record: any, primaryKey?: string): string | undefined {
+        return (primaryKey && record?.[primaryKey]) || record?.id;
+    }
+
+    private async saveProgress(docRef: DocumentReference, fields: Partial<CheckoutRecord>): Promise<void> {
+        await docRef.update({
+            ...JSON.parse(JSON.stringify(fields)),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+    }
+}
+
+// Export a singleton instance
+export const checkoutService = new CheckoutService();
@@ -0,0 +1,333 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Query, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { AuthContext } from '../middleware/auth-middleware';
+import type { Payment, PaymentMethod } from './payment-service';
+
+// Denominations accepted in a cash count (ILS notes and coins)
+export const DENOMINATIONS = [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.1] as const;
+
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'credit', 'bank', 'mobile', 'store-credit'];
+
+export type DrawerSessionStatus = 'open' | 'closed';
+
+export type DrawerMovementType = 'paid-in' | 'paid-out';
+
+export type DrawerReportType = 'X' | 'Z';
+
+// Till session stored in Firestore
+export interface DrawerSession {
+    id?: string;
+    registerId: string;
+    storeId?: string;
+    cashierUid: string;
+    status: DrawerSessionStatus;
+    openingFloat: number;
+    openedAt?: Timestamp;
+    closedAt?: Timestamp;
+    closedBy?: string;
+    zReportId?: string;
+}
+
+// Cash put into or taken out of the drawer outside a sale
+export interface DrawerMovement {
+    id?: string;
+    type: DrawerMovementType;
+    amount: number;
+    reason: string;
+    createdBy?: string;
+    createdAt?: Timestamp;
+}
+
+// A line of a cash count
+export interface DenominationCount {
+    value: number;
+    count: number;
+}
+
+// X (mid-shift) or Z (closing) report
+export interface DrawerReport {
+    id?: string;
+    type: DrawerReportType;
+    sessionId: string;
+    registerId: string;
+    cashierUid: string;
+    generatedBy: string;
+    openingFloat: number;
+    salesByMethod: Record<PaymentMethod, number>;
+    refundsByMethod: Record<PaymentMethod, number>;
+    totalSales: number;
+    totalRefunds: number;
+    discounts: number;           // promotion discounts given at checkout
+    paidIn: number;
+    paidOut: number;
+    expectedCash: number;
+    countedCash?: number;        // Z report only
+    variance?: number;           // counted - expected
+    denominations?: DenominationCount[];
+    voidedPayments: number;
+    invoiceIds: string[];
+    paymentIds: string[];
+    notes?: string;
+    createdAt?: Timestamp;
+}
+
+// Input for closing a session
+export interface CloseDrawerInput {
+    denominations: DenominationCount[];
+    notes?: string;
+}
+
+export class DrawerService {
+    private collection = 'drawerSessions';
+    private reportsCollection = 'drawerReports';
+    private registersCollection = 'drawerRegisters';
+    private cashiersCollection = 'drawerCashiers';
+
+    /**
+     * Open a session on a register. A register and a cashier can each have one open session.
+     */
+    async openSession(registerId: string, openingFloat: number, auth: AuthContext): Promise<DrawerSession> {
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const registerRef = db.collection(this.registersCollection).doc(registerId);
+        const cashierRef = db.collection(this.cashiersCollection).doc(auth.uid);
+
+        // The register and cashier docs hold the open session, so that two requests cannot both open one
+        return db.runTransaction(async (transaction) => {
+            const [register, cashier] = await Promise.all([transaction.get(registerRef), transaction.get(cashierRef)]);
+            if (cashier.data()?.openSessionId) {
+                throw new ConflictError(`You already have an open session on register ${cashier.data()?.registerId}`);
+            }
+            if (register.data()?.openSessionId) {
+                throw new ConflictError(`Register ${registerId} already has an open session`);
+            }
+
+            const session: DrawerSession = {
+                registerId,
+                cashierUid: auth.uid,
+                status: 'open',
+                openingFloat: roundMoney(openingFloat),
+                ...(auth.storeId ? { storeId: auth.storeId } : {})
+            };
+
+            transaction.set(registerRef, { openSessionId: docRef.id, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+            transaction.set(cashierRef, { openSessionId: docRef.id, registerId, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+            transaction.set(docRef, { ...session, openedAt: FieldValue.serverTimestamp() });
+
+            return { id: docRef.id, ...session };
+        });
+    }
+
+    /**
+     * Get the open session of a cashier, if any
+     */
+    async findOpenSession(cashierUid: string): Promise<DrawerSession | null> {
+        const snapshot = await db.collection(this.collection)
+            .where('cashierUid', '==', cashierUid)
+            .where('status', '==', 'open')
+            .limit(1)
+            .get();
+
+        return snapshot.empty ? null : { id: snapshot.docs[0].id, ...snapshot.docs[0].data() } as DrawerSession;
+    }
+
+    /**
+     * Get a session the caller may see: their own, or any session for managers
+     */
+    async getSession(id: string, auth: AuthContext): Promise<DrawerSession> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        if (!doc.exists) {
+            throw new NotFoundError('Drawer session not found');
+        }
+
+        const session = { id: doc.id, ...doc.data() } as DrawerSession;
+        if (session.cashierUid !== auth.uid && auth.role !== 'manager' && auth.role !== 'admin') {
+            throw new ForbiddenError('This drawer session belongs to another cashier');
+        }
+
+        return session;
+    }
+
+    /**
+     * List sessions, newest first
+     */
+    async listSessions(filters: { registerId?: string, status?: DrawerSessionStatus }, limit: number = 50): Promise<DrawerSession[]> {
+        let query: Query = db.collection(this.collection);
+        if (filters.registerId) {
+            query = query.where('registerId', '==', filters.registerId);
+        }
+        if (filters.status) {
+            query = query.where('status', '==', filters.status);
+        }
+
+        const snapshot = await query.orderBy('openedAt', 'desc').limit(limit).get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as DrawerSession);
+    }
+
+    /**
+     * Record a paid-in or paid-out on an open session
+     */
+    async addMovement(sessionId: string, movement: Omit<DrawerMovement, 'id' | 'createdBy' | 'createdAt'>, auth: AuthContext): Promise<DrawerMovement> {
+        const session = await this.getSession(sessionId, auth);
+        if (session.status !== 'open') {
+            throw new ConflictError('Drawer session is closed');
+        }
+
+        const data: DrawerMovement = { ...movement, amount: roundMoney(movement.amount), createdBy: auth.uid };
+        const docRef = await db.collection(this.collection).doc(sessionId).collection('movements').add({
+            ...data,
+            createdAt: FieldValue.serverTimestamp()
+        });
+
+        return { id: docRef.id, ...data };
+    }
+
+    /**
+     * List the paid-in/paid-out entries of a session
+     */
+    async listMovements(sessionId: string): Promise<DrawerMovement[]> {
+        const snapshot = await db.collection(this.collection).doc(sessionId).collection('movements').orderBy('createdAt').get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as DrawerMovement);
+    }
+
+    /**
+     * Produce and store an X report: the session totals so far, without closing it
+     */
+    async xReport(sessionId: string, auth: AuthContext): Promise<DrawerReport> {
+        const session = await this.getSession(sessionId, auth);
+        if (session.status !== 'open') {
+            throw new ConflictError('Drawer session is closed; use its Z report');
+        }
+
+        const report = await this.buildReport('X', session, auth.uid);
+        const docRef = await db.collection(this.reportsCollection).add({ ...report, createdAt: FieldValue.serverTimestamp() });
+
+        return { id: docRef.id, ...report };
+    }
+
+    /**
+     * Close a session with a cash count and store its Z report
+     */
+    async closeSession(sessionId: string, input: CloseDrawerInput, auth: AuthContext): Promise<DrawerReport> {
+        const session = await this.getSession(sessionId, auth);
+        if (session.status !== 'open') {
+            throw new ConflictError('Drawer session is already closed');
+        }
+
+        const invalid = input.denominations.filter((line) => !(DENOMINATIONS as readonly number[]).includes(line.value));
+        if (invalid.length) {
+            throw new ValidationError('Unknown denomination', invalid.map((line) => ({
+                field: 'denominations',
+                message: `${line.value} is not one of ${DENOMINATIONS.join(', ')}`
+            })));
+        }
+
+        const countedCash = roundMoney(input.denominations.reduce((sum, line) => sum + line.value * line.count, 0));
+        const report = await this.buildReport('Z', session, auth.uid);
+        report.countedCash = countedCash;
+        report.variance = roundMoney(countedCash - report.expectedCash);
+        report.denominations = input.denominations;
+        if (input.notes) {
+            report.notes = input.notes;
+        }
+
+        const sessionRef = db.collection(this.collection).doc(sessionId);
+        const reportRef = db.collection(this.reportsCollection).doc(randomUUID());
+        const registerRef = db.collection(this.registersCollection).doc(session.registerId);
+        const cashierRef = db.collection(this.cashiersCollection).doc(session.cashierUid);
+
+        await db.runTransaction(async (transaction) => {
+            const current = await transaction.get(sessionRef);
+            if (current.data()?.status !== 'open') {
+                throw new ConflictError('Drawer session is already closed');
+            }
+
+            transaction.set(reportRef, { ...report, createdAt: FieldValue.serverTimestamp() });
+            transaction.update(sessionRef, {
+                status: 'closed',
+                closedAt: FieldValue.serverTimestamp(),
+                closedBy: auth.uid,
+                zReportId: reportRef.id
+            });
+            transaction.set(registerRef, { openSessionId: null, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+            transaction.set(cashierRef, { openSessionId: null, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+        });
+
+        return { id: reportRef.id, ...report };
+    }
+
+    /**
+     * Get a stored report
+     */
+    async getReport(id: string, auth: AuthContext): Promise<DrawerReport> {
+        const doc = await db.collection(this.reportsCollection).doc(id).get();
+        if (!doc.exists) {
+            throw new NotFoundError('Drawer report not found');
+        }
+
+        const report = { id: doc.id, ...doc.data() } as DrawerReport;
+        if (report.cashierUid !== auth.uid && auth.role !== 'manager' && auth.role !== 'admin') {
+            throw new ForbiddenError('This drawer report belongs to another cashier');
+        }
+
+        return report;
+    }
+
+    /**
+     * Total the payments, refunds, discounts and cash movements of a session
+     */
+    private async buildReport(type: DrawerReportType, session: DrawerSession, generatedBy: string): Promise<DrawerReport> {
+        const sessionId = session.id as string;
+
+        const [paymentsSnapshot, checkoutsSnapshot, movements] = await Promise.all([
+            db.collection('payments').where('sessionId', '==', sessionId).get(),
+            db.collection('checkouts').where('sessionId', '==', sessionId).where('status', '==', 'completed').get(),
+            this.listMovements(sessionId)
+        ]);
+
+        const payments = paymentsSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Payment);
+        const completed = payments.filter((payment) => payment.status === 'completed');
+
+        const byMethod = (kind: Payment['kind']) => Object.fromEntries(PAYMENT_METHODS.map((method) => [
+            method,
+            roundMoney(completed
+                .filter((payment) => payment.kind === kind && payment.method === method)
+                .reduce((sum, payment) => sum + payment.amount, 0))
+        ])) as Record<PaymentMethod, number>;
+
+        const salesByMethod = byMethod('payment');
+        const refundsByMethod = byMethod('refund');
+        const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0));
+
+        const paidIn = sum(movements.filter((movement) => movement.type === 'paid-in').map((movement) => movement.amount));
+        const paidOut = sum(movements.filter((movement) => movement.type === 'paid-out').map((movement) => movement.amount));
+
+        const discounts = sum(checkoutsSnapshot.docs.flatMap((doc) =>
+            ((doc.data().promotions || []) as { discount: number }[]).map((promotion) => promotion.discount)));
+
+        return {
+            type,
+            sessionId,
+            registerId: session.registerId,
+            cashierUid: session.cashierUid,
+            generatedBy,
+            openingFloat: session.openingFloat,
+            salesByMethod,
+            refundsByMethod,
+            totalSales: sum(Object.values(salesByMethod)),
+            totalRefunds: sum(Object.values(refundsByMethod)),
+            discounts,
+            paidIn,
+            paidOut,
+            expectedCash: roundMoney(session.openingFloat + salesByMethod.cash - refundsByMethod.cash + paidIn - paidOut),
+            voidedPayments: payments.length - completed.length,
+            invoiceIds: Array.from(new Set(payments.map((payment) => payment.invoiceId))),
+            paymentIds: payments.map((payment) => payment.id as string)
+        };
+    }
+}
+
+// Export a singleton instance
+export const drawerService = new DrawerService();
@@ -0,0 +1,273 @@
+import * as functions from 'firebase-functions';
+import nodemailer, { Transporter } from 'nodemailer';
+import { randomUUID } from 'crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { AppError, fromFireberryError, ValidationError } from '../utils/errors';
+import { FireberryResponse, unwrapRecord } from './fireberry/fireberry-service';
+import { invoiceService, Invoice } from './fireberry/invoice-service';
+import { repairService, RepairTicket } from './fireberry/repair-service';
+import { customerService, Customer } from './fireberry/customer-service';
+import { outboxService } from './outbox-service';
+import { pdfService } from './pdf-service';
+import { loadBusinessProfile } from './business-profile';
+import { EmailTemplate, renderEmail } from './email-templates';
+
+// A message handed to a transport
+export interface EmailMessage {
+    from: string;
+    to: string;
+    replyTo?: string;
+    subject: string;
+    text: string;
+    html: string;
+    attachments?: { filename: string, content: Buffer, contentType: string }[];
+}
+
+// Delivery backend. SMTP is built in; other providers implement the same interface.
+export interface EmailTransport {
+    name: string;
+    send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+// Email configuration, read from `functions.config().email` by default
+export interface EmailConfig {
+    from: string;                // sender address, e.g. `"My Shop" <billing@example.com>`
+    replyTo?: string;
+    smtpHost: string;
+    smtpPort: number;
+    smtpSecure: boolean;         // TLS from the start (port 465); STARTTLS is used when offered otherwise
+    smtpUser?: string;
+    smtpPass?: string;
+}
+
+export type EmailDeliveryStatus = 'sending' | 'sent' | 'failed';
+
+// Every send attempt, kept for the document's history
+export interface EmailDelivery {
+    id?: string;
+    template: EmailTemplate;
+    documentType: 'invoice' | 'repair';
+    documentId: string;
+    to: string;
+    subject: string;
+    attachments: string[];       // file names
+    transport: string;
+    status: EmailDeliveryStatus;
+    messageId?: string;
+    error?: string;
+    createdBy?: string;
+    createdAt?: Timestamp;
+    sentAt?: Timestamp;
+}
+
+// Caller overrides for a send
+export interface SendEmailInput {
+    to?: string;                 // defaults to the customer's email
+    subject?: string;
+    message?: string;
+}
+
+/**
+ * Build the email config from Firebase config, with defaults.
+ * On the Functions emulator the SMTP server defaults to a local catcher such as Mailpit (localhost:1025).
+ */
+export const loadEmailConfig = (): EmailConfig => {
+    const config = functions.config().email || {};
+    const emulator = process.env.FUNCTIONS_EMULATOR === 'true';
+
+    return JSON.parse(JSON.stringify({
+        from: config.from || '',
+        replyTo: config.reply_to,
+        smtpHost: config.smtp_host || (emulator ? 'localhost' : ''),
+        smtpPort: config.smtp_port !== undefined ? Number(config.smtp_port) : (emulator ? 1025 : 587),
+        smtpSecure: String(config.smtp_secure) === 'true',
+        smtpUser: config.smtp_user,
+        smtpPass: config.smtp_pass
+    }));
+};
+
+export class SmtpTransport implements EmailTransport {
+    name = 'smtp';
+    private transporter?: Transporter;
+
+    constructor(private config: EmailConfig) {}
+
+    async send(message: EmailMessage): Promise<{ messageId: string }> {
+        if (!this.config.smtpHost) {
+            throw new AppError('INTERNAL', 'Email delivery needs email.smtp_host to be set', 500);
+        }
+
+        if (!this.transporter) {
+            this.transporter = nodemailer.createTransport({
+                host: this.config.smtpHost,
+                port: this.config.smtpPort,
+                secure: this.config.smtpSecure,
+                ...(this.config.smtpUser ? { auth: { user: this.config.smtpUser, pass: this.config.smtpPass } } : {})
+            });
+        }
+
+        const info = await this.transporter.sendMail(message);
+        return { messageId: info.messageId };
+    }
+}
+
+export class EmailService {
+    private collection = 'emailDeliveries';
+    private config: EmailConfig;
+    private transport: EmailTransport;
+
+    constructor(config: Partial<EmailConfig> = {}, transport?: EmailTransport) {
+        this.config = { ...loadEmailConfig(), ...config };
+        this.transport = transport || new SmtpTransport(this.config);
+    }
+
+    /**
+     * Email an invoice, receipt, credit note or quote with its PDF attached.
+     * A draft moves to `sent` once the message is accepted.
+     */
+    async sendInvoice(invoiceId: string, input: SendEmailInput, createdBy?: string): Promise<EmailDelivery> {
+        const invoice = await this.load<Invoice>(() => invoiceService.getInvoiceById(invoiceId), 'Failed to fetch invoice');
+        const to = input.to || invoice.customerEmail || await this.customerEmail(invoice.customerId);
+        if (!to) {
+            throw new ValidationError('The invoice has no customer email; provide a recipient');
+        }
+
+        const { file, content } = await pdfService.generate(invoiceId);
+        const delivery = await this.deliver(invoice.type === 'quote' ? 'quote' : 'invoice', {
+            documentType: 'invoice',
+            documentId: invoiceId,
+            to,
+            input,
+            context: { invoice },
+            attachments: [{ filename: file.fileName, content, contentType: 'application/pdf' }],
+            createdBy
+        });
+
+        if (invoice.status === 'draft') {
+            const entry = await outboxService.enqueue('updateInvoice', { id: invoiceId, changes: { status: 'sent' } }, { createdBy });
+            await outboxService.replayEntry(entry.id as string);
+        }
+
+        return delivery;
+    }
+
+    /**
+     * Tell the customer their repaired device is ready for pickup
+     */
+    async sendRepairReady(repairId: string, input: SendEmailInput, createdBy?: string): Promise<EmailDelivery> {
+        const repair = await this.load<RepairTicket>(() => repairService.getRepairById(repairId), 'Failed to fetch repair ticket');
+        if (repair.status !== 'completed') {
+            throw new ValidationError(`Repair is ${repair.status}; only completed repairs can be announced as ready`);
+        }
+
+        const to = input.to || await this.customerEmail(repair.customerId);
+        if (!to) {
+            throw new ValidationError('The repair has no customer email; provide a recipient');
+        }
+
+        return this.deliver('repair-ready', {
+            documentType: 'repair',
+            documentId: repairId,
+            to,
+            input,
+            context: { repair },
+            attachments: [],
+            createdBy
+        });
+    }
+
+    /**
+     * Emails sent for a document, newest first
+     */
+    async listDeliveries(documentType: EmailDelivery['documentType'], documentId: string): Promise<EmailDelivery[]> {
+        const snapshot = await db.collection(this.collection)
+            .where('documentType', '==', documentType)
+            .where('documentId', '==', documentId)
+            .get();
+
+        return snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() }) as EmailDelivery)
+            .sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
+    }
+
+    /**
+     * Render, record and send a message. The delivery record is written before sending
+     * so that a crash mid-send leaves a `sending` record behind instead of nothing.
+     */
+    private async deliver(template: EmailTemplate, request: {
+        documentType: EmailDelivery['documentType'],
+        documentId: string,
+        to: string,
+        input: SendEmailInput,
+        context: { invoice?: Invoice, repair?: RepairTicket },
+        attachments: NonNullable<EmailMessage['attachments']>,
+        createdBy?: string
+    }): Promise<EmailDelivery> {
+        if (!this.config.from) {
+            throw new AppError('INTERNAL', 'Email delivery needs email.from to be set', 500);
+        }
+
+        const rendered = renderEmail(template, { profile: loadBusinessProfile(), message: request.input.message, ...request.context });
+        const subject = request.input.subject || rendered.subject;
+
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const delivery: EmailDelivery = JSON.parse(JSON.stringify({
+            template,
+            documentType: request.documentType,
+            documentId: request.documentId,
+            to: request.to,
+            subject,
+            attachments: request.attachments.map((attachment) => attachment.filename),
+            transport: this.transport.name,
+            status: 'sending',
+            createdBy: request.createdBy
+        }));
+        await docRef.set({ ...delivery, createdAt: FieldValue.serverTimestamp() });
+
+        try {
+            const { messageId } = await this.transport.send({
+                from: this.config.from,
+                to: request.to,
+                ...(this.config.replyTo ? { replyTo: this.config.replyTo } : {}),
+                subject,
+                text: rendered.text,
+                html: rendered.html,
+                attachments: request.attachments
+            });
+
+            await docRef.update({ status: 'sent', messageId, sentAt: FieldValue.serverTimestamp() });
+            return { id: docRef.id, ...delivery, status: 'sent', messageId };
+        } catch (error) {
+            const message = (error as Error).message;
+            await docRef.update({ status: 'failed', error: message });
+            throw error instanceof AppError
+                ? error
+                : new AppError('UPSTREAM_ERROR', `Email delivery failed: ${message}`, 502, { deliveryId: docRef.id });
+        }
+    }
+
+    private async customerEmail(customerId?: string): Promise<string | undefined> {
+        if (!customerId) {
+            return undefined;
+        }
+
+        const result = await customerService.getCustomerById(customerId);
+        if (!result.success) {
+            throw fromFireberryError(result.error, 'Failed to fetch customer');
+        }
+        const customer = unwrapRecord<Customer>(result.data);
+        return customer.emailaddress1 || customer.emailaddress2;
+    }
+
+    private async load<T>(call: () => Promise<FireberryResponse<T>>, failure: string): Promise<T> {
+        const result = await call();
+        if (!result.success) {
+            throw fromFireberryError(result.error, failure);
+        }
+        return unwrapRecord<T>(result.data);
+    }
+}
+
+// Export a singleton instance
+export const emailService = new EmailService();
@@ -0,0 +1,92 @@
+import { Invoice } from './fireberry/invoice-service';
+import { RepairTicket } from './fireberry/repair-service';
+import { BusinessProfile } from './business-profile';
+import { DOCUMENT_TEMPLATES } from './pdf-service';
+
+export type EmailTemplate = 'invoice' | 'quote' | 'repair-ready';
+
+// A rendered message, before addressing
+export interface RenderedEmail {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+// Data available to the templates
+export interface EmailContext {
+    profile: BusinessProfile;
+    message?: string;            // free text from the sender, added under the greeting
+    invoice?: Invoice;
+    repair?: RepairTicket;
+}
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const money = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Lay out paragraphs as plain text and as right-to-left HTML
+ */
+const layout = (subject: string, paragraphs: string[], profile: BusinessProfile): RenderedEmail => {
+    const signature = [profile.name, profile.phone, profile.website].filter((line): line is string => Boolean(line));
+    const body = paragraphs.filter(Boolean);
+
+    return {
+        subject,
+        text: [body.join('\n\n'), signature.join('\n')].filter(Boolean).join('\n\n'),
+        html: [
+            '<!DOCTYPE html>',
+            '<html dir="rtl" lang="he"><body style="font-family: Arial, sans-serif; direction: rtl; text-align: right;">',
+            ...body.map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`),
+            signature.length ? `<p style="color: #666666;">${signature.map(escapeHtml).join('<br>')}</p>` : '',
+            '</body></html>'
+        ].join('\n')
+    };
+};
+
+const greeting = (name?: string) => (name ? `שלום ${name},` : 'שלום,');
+
+const RENDERERS: Record<EmailTemplate, (context: EmailContext) => RenderedEmail> = {
+    'invoice': ({ profile, message, invoice }) => {
+        const document = invoice as Invoice;
+        const title = `${DOCUMENT_TEMPLATES[document.type].title} ${document.number || ''}`.trim();
+        return layout(`${title} מ${profile.name || 'העסק'}`, [
+            greeting(document.customerName),
+            message || '',
+            `מצורפת ${title} על סך ${money(document.total)} ש"ח.`,
+            document.dueDate && document.type === 'invoice' ? `מועד התשלום: ${document.dueDate.substring(0, 10)}.` : '',
+            'תודה שבחרת בנו.'
+        ], profile);
+    },
+    'quote': ({ profile, message, invoice }) => {
+        const quote = invoice as Invoice;
+        const title = `הצעת מחיר ${quote.number || ''}`.trim();
+        return layout(`${title} מ${profile.name || 'העסק'}`, [
+            greeting(quote.customerName),
+            message || '',
+            `מצורפת ${title} על סך ${money(quote.total)} ש"ח.`,
+            quote.dueDate ? `ההצעה בתוקף עד ${quote.dueDate.substring(0, 10)}.` : '',
+            'נשמח לעמוד לרשותך בכל שאלה.'
+        ], profile);
+    },
+    'repair-ready': ({ profile, message, repair }) => {
+        const ticket = repair as RepairTicket;
+        const device = `${ticket.deviceType} ${ticket.deviceModel}`.trim();
+        return layout(`התיקון הסתיים - ${ticket.ticketNumber || device}`, [
+            greeting(ticket.customerName),
+            `שמחים לעדכן שהתיקון של ה${device}${ticket.ticketNumber ? ` (תעודה ${ticket.ticketNumber})` : ''} הסתיים והמכשיר מוכן לאיסוף.`,
+            ticket.actualCost !== undefined ? `עלות התיקון: ${money(ticket.actualCost)} ש"ח.` : '',
+            message || '',
+            profile.address ? `ניתן לאסוף את המכשיר ב${profile.address}.` : ''
+        ], profile);
+    }
+};
+
+/**
+ * Render a message template
+ */
+export const renderEmail = (template: EmailTemplate, context: EmailContext): RenderedEmail => RENDERERS[template](context);
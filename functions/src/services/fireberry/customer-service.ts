@@ -58,14 +58,14 @@ export class CustomerService {
         const pageNumber = params.pageNumber || 1;
 
         const queryParams = `pagesize=${pageSize}&pagenumber=${pageNumber}`;
-        return fireberryService.callApi<Customer[]>(`${this.apiRecordPath}?${queryParams}`);
+        return fireberryService.callApi<Customer[]>(`${this.apiRecordPath}?${queryParams}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
      * Get a customer by ID
      */
     async getCustomerById(id: string): Promise<FireberryResponse<Customer>> {
-        return fireberryService.callApi<Customer>(`${this.apiRecordPath}/${id}`);
+        return fireberryService.callApi<Customer>(`${this.apiRecordPath}/${id}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
@@ -229,7 +229,7 @@ export class CustomerService {
                 data: customersWithUpcomingBirthdays
             };
         } catch (error: any) {
-            console.error("Error fetching upcoming birthdays:", error);
+            console.error('Error fetching upcoming birthdays:', error);
             return {
                 success: false,
                 error: {
@@ -242,4 +242,4 @@ export class CustomerService {
 }
 
 // Export a singleton instance
-export const customerService = new CustomerService(); 
\ No newline at end of file
+export const customerService = new CustomerService();
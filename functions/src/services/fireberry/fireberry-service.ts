@@ -1,10 +1,14 @@
 import * as functions from 'firebase-functions';
 import axios, { AxiosRequestConfig } from 'axios';
+import { TokenBucket } from '../../utils/token-bucket';
+import { CircuitBreaker, CircuitState } from '../../utils/circuit-breaker';
+import { snapshotService } from '../snapshot-service';
 
 // Fireberry API response interface
 export interface FireberryResponse<T> {
     success: boolean;
     data?: T;
+    stale?: boolean;             // true when served from a last-known-good snapshot
     error?: {
         code: string;
         message: string;
@@ -14,71 +18,295 @@ export interface FireberryResponse<T> {
 // Define HTTP methods
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
+// Methods that are safe to retry after a server or network error
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+// Status codes worth retrying
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+// Service configuration, read from `functions.config().fireberry` by default
+export interface FireberryServiceConfig {
+    baseUrl: string;
+    token: string;
+    timeoutMs: number;           // per-attempt timeout
+    maxRetries: number;          // retries after the first attempt
+    baseDelayMs: number;         // initial backoff delay
+    maxDelayMs: number;          // upper bound for any single wait
+    rateLimitPerSecond: number;  // token refill rate, 0 disables limiting
+    rateLimitBurst: number;      // token bucket capacity
+    breakerFailureThreshold: number; // consecutive failures before the breaker opens
+    breakerResetMs: number;      // how long the breaker stays open before probing
+}
+
+// Per-call overrides
+export interface CallOptions {
+    timeoutMs?: number;
+    maxRetries?: number;
+    snapshot?: boolean;          // GET only: keep a last-known-good copy and serve it when Fireberry is down
+}
+
+/**
+ * Build the service config from Firebase config, with defaults.
+ * FIREBERRY_BASE_URL overrides the base URL, e.g. to use the local emulator.
+ */
+export const loadFireberryConfig = (): FireberryServiceConfig => {
+    const config = functions.config().fireberry || {};
+
+    return {
+        baseUrl: process.env.FIREBERRY_BASE_URL || config.base_url || 'https://api.fireberry.com',
+        token: config.token || '',
+        timeoutMs: Number(config.timeout_ms) || 10000,
+        maxRetries: config.max_retries !== undefined ? Number(config.max_retries) : 3,
+        baseDelayMs: Number(config.base_delay_ms) || 250,
+        maxDelayMs: Number(config.max_delay_ms) || 10000,
+        rateLimitPerSecond: config.rate_limit_per_second !== undefined ? Number(config.rate_limit_per_second) : 5,
+        rateLimitBurst: Number(config.rate_limit_burst) || 10,
+        breakerFailureThreshold: Number(config.breaker_failure_threshold) || 5,
+        breakerResetMs: Number(config.breaker_reset_ms) || 30000
+    };
+};
+
+/**
+ * Get the record from a Fireberry single-record response (`{ data: { Record } }`).
+ * Falls back to the data itself for responses that are not wrapped.
+ */
+export const unwrapRecord = <T>(data: any): T => {
+    return (data?.data?.Record ?? data?.Record ?? data) as T;
+};
+
+/**
+ * Get the records from a Fireberry list response, which comes either as an array or wrapped in a records page
+ */
+export const unwrapRecords = <T>(data: any): T[] => {
+    if (Array.isArray(data)) {
+        return data;
+    }
+    return data?.data?.Records ?? data?.Records ?? data?.data?.Data ?? data?.Data ?? [];
+};
+
 export class FireberryService {
-    private baseUrl: string;
-    private token: string;
+    private config: FireberryServiceConfig;
+    private limiter: TokenBucket;
+    private breaker: CircuitBreaker;
 
-    constructor() {
-        // Get the base URL and token from Firebase config
-        this.baseUrl = 'https://api.fireberry.com';
-        this.token = functions.config().fireberry?.token || '';
+    constructor(config: Partial<FireberryServiceConfig> = {}) {
+        this.config = { ...loadFireberryConfig(), ...config };
+        this.limiter = new TokenBucket(this.config.rateLimitPerSecond, this.config.rateLimitBurst);
+        this.breaker = new CircuitBreaker(this.config.breakerFailureThreshold, this.config.breakerResetMs);
     }
 
     /**
-     * Generic method to call the Fireberry API
+     * Generic method to call the Fireberry API.
+     * Guarded by a circuit breaker; reads called with `snapshot: true` fall back
+     * to the last-known-good copy (flagged `stale`) while Fireberry is unavailable.
      */
     async callApi<T>(
         endpoint: string,
         method: HttpMethod = 'GET',
-        data?: any
+        data?: any,
+        options: CallOptions = {}
     ): Promise<FireberryResponse<T>> {
-        try {
-            const config: AxiosRequestConfig = {
-                url: `${this.baseUrl}/${endpoint}`,
-                method,
-                headers: {
-                    'accept': 'application/json',
-                    'tokenid': this.token,
-                    'Content-Type': 'application/json',
-                },
+        const useSnapshot = Boolean(options.snapshot) && method === 'GET';
+
+        if (!this.breaker.allowRequest()) {
+            const unavailable: FireberryResponse<T> = {
+                success: false,
+                error: {
+                    code: 'CIRCUIT_OPEN',
+                    message: 'Fireberry is temporarily unavailable'
+                }
             };
+            return useSnapshot ? this.fromSnapshot(endpoint, unavailable) : unavailable;
+        }
+
+        const result = await this.callWithRetry<T>(endpoint, method, data, options);
 
-            if (data && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
-                config.data = data;
+        if (result.success || !this.isUnavailable(result.error?.code)) {
+            this.breaker.recordSuccess();
+        } else {
+            this.breaker.recordFailure();
+        }
+
+        if (useSnapshot) {
+            if (result.success) {
+                await snapshotService.save(endpoint, result.data);
+            } else if (this.isUnavailable(result.error?.code)) {
+                return this.fromSnapshot(endpoint, result);
             }
+        }
 
-            const response = await axios(config);
+        return result;
+    }
 
-            return {
-                success: true,
-                data: response.data as T
-            };
-        } catch (error: any) {
-            console.error(`Error calling Fireberry API (${endpoint}):`, error);
+    /**
+     * Current circuit breaker state
+     */
+    getCircuitState(): CircuitState {
+        return this.breaker.getState();
+    }
 
-            // Log more details about the error
-            if (error.response) {
-                console.error('Response status:', error.response.status);
-                console.error('Response data:', error.response.data);
-            }
+    /**
+     * Whether an error code means Fireberry itself is unavailable (as opposed to rejecting the request)
+     */
+    private isUnavailable(code: string | undefined): boolean {
+        if (!code || code === 'unknown' || code === 'CIRCUIT_OPEN') {
+            return true;
+        }
+        const status = Number(code);
+        return status === 408 || status === 429 || status >= 500;
+    }
 
-            return {
-                success: false,
-                error: {
-                    code: error.response?.status?.toString() || 'unknown',
-                    message: error.response?.data?.Message || error.message || 'Unknown error occurred'
+    /**
+     * Serve the last-known-good snapshot for an endpoint, or the original failure if there is none
+     */
+    private async fromSnapshot<T>(endpoint: string, failure: FireberryResponse<T>): Promise<FireberryResponse<T>> {
+        const snapshot = await snapshotService.load<T>(endpoint);
+        if (!snapshot) {
+            return failure;
+        }
+
+        return {
+            success: true,
+            data: snapshot.data,
+            stale: true
+        };
+    }
+
+    /**
+     * Call the API, rate limited and retried with exponential backoff on 429s,
+     * and on 5xx/network errors for idempotent methods
+     */
+    private async callWithRetry<T>(
+        endpoint: string,
+        method: HttpMethod,
+        data: any,
+        options: CallOptions
+    ): Promise<FireberryResponse<T>> {
+        const maxRetries = options.maxRetries ?? this.config.maxRetries;
+        let attempt = 0;
+
+        for (;;) {
+            try {
+                await this.limiter.acquire();
+
+                const config: AxiosRequestConfig = {
+                    url: `${this.config.baseUrl}/${endpoint}`,
+                    method,
+                    timeout: options.timeoutMs ?? this.config.timeoutMs,
+                    headers: {
+                        'accept': 'application/json',
+                        'tokenid': this.config.token,
+                        'Content-Type': 'application/json'
+                    }
+                };
+
+                if (data && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
+                    config.data = data;
                 }
-            };
+
+                const response = await axios(config);
+
+                return {
+                    success: true,
+                    data: response.data as T
+                };
+            } catch (error: any) {
+                if (attempt < maxRetries && this.isRetryable(method, error)) {
+                    const delay = this.getRetryDelay(attempt, error);
+                    console.warn(`Retrying Fireberry API (${endpoint}) in ${delay}ms, attempt ${attempt + 1} of ${maxRetries}`);
+                    attempt++;
+                    await this.sleep(delay);
+                    continue;
+                }
+
+                console.error(`Error calling Fireberry API (${endpoint}):`, error);
+
+                // Log more details about the error
+                if (error.response) {
+                    console.error('Response status:', error.response.status);
+                    console.error('Response data:', error.response.data);
+                }
+
+                return {
+                    success: false,
+                    error: {
+                        code: error.response?.status?.toString() || 'unknown',
+                        message: error.response?.data?.Message || error.message || 'Unknown error occurred'
+                    }
+                };
+            }
+        }
+    }
+
+    /**
+     * Decide whether a failed call should be retried
+     */
+    private isRetryable(method: HttpMethod, error: any): boolean {
+        const status: number | undefined = error.response?.status;
+
+        // A 429 means the request was not processed, so any method can be retried
+        if (status === 429) {
+            return true;
+        }
+
+        if (!IDEMPOTENT_METHODS.includes(method)) {
+            return false;
         }
+
+        // No response at all: timeout or network failure
+        if (status === undefined) {
+            return true;
+        }
+
+        return RETRYABLE_STATUS_CODES.includes(status);
+    }
+
+    /**
+     * Compute the wait before the next attempt: Retry-After if present,
+     * otherwise exponential backoff with full jitter
+     */
+    private getRetryDelay(attempt: number, error: any): number {
+        const retryAfter = this.parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (retryAfter !== null) {
+            return Math.min(retryAfter, this.config.maxDelayMs);
+        }
+
+        const exponential = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt);
+        return Math.floor(Math.random() * exponential);
+    }
+
+    /**
+     * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+     */
+    private parseRetryAfter(value: string | undefined): number | null {
+        if (!value) {
+            return null;
+        }
+
+        const seconds = Number(value);
+        if (!Number.isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        const date = Date.parse(value);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+
+        return null;
+    }
+
+    protected sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
     }
 
     /**
      * Check if the service is properly configured
      */
     isConfigured(): boolean {
-        return Boolean(this.token);
+        return Boolean(this.config.token);
     }
 }
 
 // Create and export a singleton instance
-export const fireberryService = new FireberryService(); 
\ No newline at end of file
+export const fireberryService = new FireberryService();
@@ -4,7 +4,6 @@ import { RepairService } from './repair-service';
 import { InventoryService } from './inventory-service';
 import { InvoiceService } from './invoice-service';
 import { OrderService } from './order-service';
-import { AxiosError } from 'axios';
 import { FireberryService } from './fireberry-service';
 
 // Create service instances
@@ -15,22 +14,6 @@ const inventoryService = new InventoryService();
 const invoiceService = new InvoiceService();
 const orderService = new OrderService();
 
-// Helper function to handle Fireberry API errors
-export function handleFireberryError(error: AxiosError): { success: false, error: { code: string, message: string } } {
-    console.error('Fireberry API Error:', error);
-
-    const statusCode = error.response?.status;
-    const errorMessage = (error.response?.data as any)?.Message || error.message || 'Unknown error';
-
-    return {
-        success: false,
-        error: {
-            code: `FIREBERRY_ERROR_${statusCode || 'UNKNOWN'}`,
-            message: errorMessage
-        }
-    };
-}
-
 // Export service instances
 export {
     customerService,
@@ -47,4 +30,4 @@ export type { Customer } from './customer-service';
 export type { Product } from './product-service';
 export type { Invoice, InvoiceItem } from './invoice-service';
 export type { RepairTicket, RepairPart, RepairLog } from './repair-service';
-export type { InventoryItem } from './inventory-service'; 
\ No newline at end of file
+export type { InventoryItem } from './inventory-service';
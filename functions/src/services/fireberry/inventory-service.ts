@@ -29,14 +29,14 @@ export class InventoryService {
         const pageNumber = params.pageNumber || 1;
 
         const queryParams = `pagesize=${pageSize}&pagenumber=${pageNumber}`;
-        return fireberryService.callApi<InventoryItem[]>(`${this.apiRecordPath}?${queryParams}`);
+        return fireberryService.callApi<InventoryItem[]>(`${this.apiRecordPath}?${queryParams}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
      * Get an inventory item by ID
      */
     async getInventoryById(id: string): Promise<FireberryResponse<InventoryItem>> {
-        return fireberryService.callApi<InventoryItem>(`${this.apiRecordPath}/${id}`);
+        return fireberryService.callApi<InventoryItem>(`${this.apiRecordPath}/${id}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
@@ -60,28 +60,6 @@ export class InventoryService {
         return fireberryService.callApi<void>(`${this.apiRecordPath}/${id}`, 'DELETE');
     }
 
-    /**
-     * Adjust inventory stock
-     */
-    async adjustStock(id: string, adjustment: number): Promise<FireberryResponse<InventoryItem>> {
-        return fireberryService.callApi<InventoryItem>(
-            `${this.apiRecordPath}/${id}/adjust`,
-            'POST',
-            { adjustment }
-        );
-    }
-
-    /**
-     * Get low stock items
-     */
-    async getLowStock(params: PaginationParams = {}): Promise<FireberryResponse<InventoryItem[]>> {
-        const pageSize = params.pageSize || 50;
-        const pageNumber = params.pageNumber || 1;
-
-        const queryParams = `pagesize=${pageSize}&pagenumber=${pageNumber}`;
-        return fireberryService.callApi<InventoryItem[]>(`${this.apiRecordPath}/low-stock?${queryParams}`);
-    }
-
     /**
      * Get inventory valuation
      */
@@ -91,4 +69,4 @@ export class InventoryService {
 }
 
 // Export a singleton instance
-export const inventoryService = new InventoryService(); 
\ No newline at end of file
+export const inventoryService = new InventoryService();
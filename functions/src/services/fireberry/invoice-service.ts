@@ -1,4 +1,5 @@
 import { fireberryService, FireberryResponse } from './fireberry-service';
+import type { VatLine } from '../pricing-service';
 
 // Invoice item interface
 export interface InvoiceItem {
@@ -16,7 +17,7 @@ export interface InvoiceItem {
 export interface Invoice {
     id?: string;
     number?: string;
-    type: 'invoice' | 'quote' | 'receipt';
+    type: 'invoice' | 'quote' | 'receipt' | 'credit-note';
     date: string;
     dueDate?: string;
     customerId?: string;
@@ -29,10 +30,13 @@ export interface Invoice {
     tax: number;
     discount: number;
     total: number;
+    vat?: VatLine[];             // VAT per rate as priced, printed on the document
     notes?: string;
-    status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
-    paymentMethod?: 'cash' | 'credit' | 'bank' | 'mobile';
+    status: 'draft' | 'sent' | 'partially-paid' | 'paid' | 'overdue' | 'cancelled';
+    paymentMethod?: 'cash' | 'credit' | 'bank' | 'mobile' | 'store-credit';
     paymentDate?: string;
+    promotions?: string[];       // IDs of the promotions applied
+    originalInvoiceId?: string;  // credit notes: the invoice being credited
 }
 
 // Pagination params interface
@@ -53,14 +57,14 @@ export class InvoiceService {
         const pageNumber = params.pageNumber || 1;
 
         const queryParams = `pagesize=${pageSize}&pagenumber=${pageNumber}`;
-        return fireberryService.callApi<Invoice[]>(`${this.apiRecordPath}?${queryParams}`);
+        return fireberryService.callApi<Invoice[]>(`${this.apiRecordPath}?${queryParams}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
      * Get an invoice by ID
      */
     async getInvoiceById(id: string): Promise<FireberryResponse<Invoice>> {
-        return fireberryService.callApi<Invoice>(`${this.basePath}/${id}`);
+        return fireberryService.callApi<Invoice>(`${this.basePath}/${id}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
@@ -97,29 +101,7 @@ export class InvoiceService {
             paymentData
         );
     }
-
-    /**
-     * Send invoice by email
-     */
-    async sendInvoice(id: string, emailData: {
-        to: string,
-        subject?: string,
-        message?: string
-    }): Promise<FireberryResponse<any>> {
-        return fireberryService.callApi<any>(
-            `${this.basePath}/${id}/send`,
-            'POST',
-            emailData
-        );
-    }
-
-    /**
-     * Get invoice as PDF
-     */
-    async getInvoicePdf(id: string): Promise<FireberryResponse<{ url: string }>> {
-        return fireberryService.callApi<{ url: string }>(`${this.basePath}/${id}/pdf`);
-    }
 }
 
 // Export a singleton instance
-export const invoiceService = new InvoiceService(); 
\ No newline at end of file
+export const invoiceService = new InvoiceService();
@@ -47,14 +47,14 @@ export class OrderService {
         const pageNumber = params.pageNumber || 1;
 
         const queryParams = `pagesize=${pageSize}&pagenumber=${pageNumber}`;
-        return fireberryService.callApi<Order[]>(`${this.apiRecordPath}?${queryParams}`);
+        return fireberryService.callApi<Order[]>(`${this.apiRecordPath}?${queryParams}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
      * Get a specific order by ID
      */
     async getOrderById(id: string): Promise<FireberryResponse<Order>> {
-        return fireberryService.callApi<Order>(`${this.apiRecordPath}/${id}`);
+        return fireberryService.callApi<Order>(`${this.apiRecordPath}/${id}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
@@ -62,7 +62,7 @@ export class OrderService {
      */
     async getOrderItems(id: string): Promise<FireberryResponse<OrderItem[]>> {
         // Note: Using api/v2/record/13/${id}/items format as specified in the original code
-        return fireberryService.callApi<OrderItem[]>(`api/v2/record/13/${id}/items`);
+        return fireberryService.callApi<OrderItem[]>(`api/v2/record/13/${id}/items`, 'GET', undefined, { snapshot: true });
     }
 
     /**
@@ -124,6 +124,13 @@ export class OrderService {
         );
     }
 
+    /**
+     * Remove an item from an order
+     */
+    async deleteOrderItem(orderId: string, itemId: string): Promise<FireberryResponse<void>> {
+        return fireberryService.callApi<void>(`${this.apiRecordPath}/${orderId}/items/${itemId}`, 'DELETE');
+    }
+
     /**
      * Update order status
      */
@@ -137,4 +144,4 @@ export class OrderService {
 }
 
 // Export a singleton instance
-export const orderService = new OrderService(); 
\ No newline at end of file
+export const orderService = new OrderService();
@@ -8,7 +8,7 @@ export interface Product {
     categorycode?: number;          // int32
     description?: string;           // string, up to 4000 characters
     itemprice?: number;            // float
-    itemquantity?: number;         // float
+    itemquantity?: number;         // float - kept in sync with the stock ledger, not written directly
     ownerid?: string;              // string, GUID of system user
     ProductCost?: number;          // float
     productid?: string;          // string
@@ -42,14 +42,14 @@ export class ProductService {
         const pageNumber = params.pageNumber || 1;
 
         const queryParams = `pagesize=${pageSize}&pagenumber=${pageNumber}`;
-        return fireberryService.callApi<Product[]>(`${this.apiRecordPath}?${queryParams}`);
+        return fireberryService.callApi<Product[]>(`${this.apiRecordPath}?${queryParams}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
      * Get a product by ID
      */
     async getProductById(id: string): Promise<FireberryResponse<Product>> {
-        return fireberryService.callApi<Product>(`${this.apiRecordPath}/${id}`);
+        return fireberryService.callApi<Product>(`${this.apiRecordPath}/${id}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
@@ -84,17 +84,6 @@ export class ProductService {
         return fireberryService.callApi<void>(`${this.apiRecordPath}/${id}`, 'DELETE');
     }
 
-    /**
-     * Adjust product stock
-     */
-    async adjustStock(id: string, adjustment: number): Promise<FireberryResponse<Product>> {
-        return fireberryService.callApi<Product>(
-            `${this.basePath}/${id}/adjust-stock`,
-            'POST',
-            { adjustment }
-        );
-    }
-
     /**
      * Search products by query
      */
@@ -104,4 +93,4 @@ export class ProductService {
 }
 
 // Export a singleton instance
-export const productService = new ProductService(); 
\ No newline at end of file
+export const productService = new ProductService();
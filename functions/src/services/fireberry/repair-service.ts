@@ -3,6 +3,8 @@ import { fireberryService, FireberryResponse } from './fireberry-service';
 // Repair part interface
 export interface RepairPart {
     id?: string;
+    productId?: string;          // stock item the part is taken from
+    locationId?: string;         // stock location the part is taken from; defaults to the branch default location
     name: string;
     price: number;
     quantity: number;
@@ -21,7 +23,7 @@ export interface RepairLog {
 // Repair ticket interface
 export interface RepairTicket {
     id?: string;
-    ticketNumber: string;
+    ticketNumber?: string;       // issued by the numbering service on create
     customerId?: string;
     customerName: string;
     customerPhone: string;
@@ -59,14 +61,14 @@ export class RepairService {
         const pageNumber = params.pageNumber || 1;
 
         const queryParams = `pagesize=${pageSize}&pagenumber=${pageNumber}`;
-        return fireberryService.callApi<RepairTicket[]>(`${this.apiRecordPath}?${queryParams}`);
+        return fireberryService.callApi<RepairTicket[]>(`${this.apiRecordPath}?${queryParams}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
      * Get a repair ticket by ID
      */
     async getRepairById(id: string): Promise<FireberryResponse<RepairTicket>> {
-        return fireberryService.callApi<RepairTicket>(`${this.apiRecordPath}/${id}`);
+        return fireberryService.callApi<RepairTicket>(`${this.apiRecordPath}/${id}`, 'GET', undefined, { snapshot: true });
     }
 
     /**
@@ -150,4 +152,4 @@ export class RepairService {
 }
 
 // Export a singleton instance
-export const repairService = new RepairService(); 
\ No newline at end of file
+export const repairService = new RepairService();
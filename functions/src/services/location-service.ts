@@ -0,0 +1,165 @@
+import * as functions from 'firebase-functions';
+import { FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+// A place stock is kept: a shop floor, a back room, another branch
+export interface StockLocation {
+    id?: string;                 // short slug, e.g. `floor` or `branch-2-backroom`
+    name: string;
+    branchId?: string;           // store the location belongs to
+    isDefault?: boolean;         // where its branch sells from and restocks returns by default
+    active: boolean;
+    createdAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+// Inventory configuration, read from `functions.config().inventory` by default
+export interface InventoryConfig {
+    defaultLocation: string;     // location for stock without a branch default, and for opening balances
+    lowStockThreshold: number;   // minimum used when a product has none set for the location
+}
+
+const LOCATION_ID = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+/**
+ * Build the inventory config from Firebase config, with defaults
+ */
+export const loadInventoryConfig = (): InventoryConfig => {
+    const config = functions.config().inventory || {};
+
+    return {
+        defaultLocation: config.default_location || 'main',
+        lowStockThreshold: config.low_stock_threshold !== undefined ? Number(config.low_stock_threshold) : 5
+    };
+};
+
+export class LocationService {
+    private collection = 'stockLocations';
+    private config: InventoryConfig;
+
+    constructor(config: Partial<InventoryConfig> = {}) {
+        this.config = { ...loadInventoryConfig(), ...config };
+    }
+
+    get defaultLocation(): string {
+        return this.config.defaultLocation;
+    }
+
+    /**
+     * Create a location
+     */
+    async createLocation(location: StockLocation): Promise<StockLocation> {
+        const id = location.id as string;
+        if (!LOCATION_ID.test(id)) {
+            throw new ValidationError('Location ID must be lowercase letters, digits and dashes',
+                [{ field: 'id', message: 'must match [a-z0-9-]' }]);
+        }
+
+        const docRef = db.collection(this.collection).doc(id);
+        const data: StockLocation = JSON.parse(JSON.stringify({ ...location, id: undefined }));
+
+        await db.runTransaction(async (transaction) => {
+            const existing = await transaction.get(docRef);
+            if (existing.exists) {
+                throw new ConflictError(`Location ${id} already exists`);
+            }
+            if (data.isDefault && data.branchId) {
+                await this.clearDefault(transaction, data.branchId);
+            }
+            transaction.create(docRef, { ...data, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() });
+        });
+
+        return { id, ...data };
+    }
+
+    /**
+     * Update a location; making it the branch default unsets the previous default
+     */
+    async updateLocation(id: string, changes: Partial<StockLocation>): Promise<StockLocation> {
+        const docRef = db.collection(this.collection).doc(id);
+        const cleaned = JSON.parse(JSON.stringify({ ...changes, id: undefined }));
+
+        return db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(docRef);
+            if (!doc.exists) {
+                throw new NotFoundError(`Location ${id} not found`);
+            }
+
+            const location = { ...doc.data(), ...cleaned } as StockLocation;
+            if (cleaned.isDefault && location.branchId) {
+                await this.clearDefault(transaction, location.branchId, id);
+            }
+            transaction.update(docRef, { ...cleaned, updatedAt: FieldValue.serverTimestamp() });
+            return { id, ...location };
+        });
+    }
+
+    /**
+     * Get a location by ID
+     */
+    async getLocation(id: string): Promise<StockLocation | null> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        return doc.exists ? { id: doc.id, ...doc.data() } as StockLocation : null;
+    }
+
+    /**
+     * List locations, optionally those of one branch
+     */
+    async listLocations(branchId?: string): Promise<StockLocation[]> {
+        const ref = branchId
+            ? db.collection(this.collection).where('branchId', '==', branchId)
+            : db.collection(this.collection);
+        const snapshot = await ref.get();
+
+        return snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() }) as StockLocation)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Pick the location a document moves stock at: the one requested, else the default of the caller's branch,
+     * else the configured default location
+     * @throws NotFoundError or ValidationError for an unknown or inactive location
+     */
+    async resolve(locationId?: string, branchId?: string): Promise<string> {
+        if (locationId) {
+            const location = await this.getLocation(locationId);
+            if (!location) {
+                if (locationId === this.config.defaultLocation) {
+                    return locationId;
+                }
+                throw new NotFoundError(`Location ${locationId} not found`);
+            }
+            if (!location.active) {
+                throw new ValidationError(`Location ${locationId} is inactive`);
+            }
+            return locationId;
+        }
+
+        if (branchId) {
+            const snapshot = await db.collection(this.collection)
+                .where('branchId', '==', branchId)
+                .where('isDefault', '==', true)
+                .limit(1)
+                .get();
+            if (!snapshot.empty && snapshot.docs[0].data().active) {
+                return snapshot.docs[0].id;
+            }
+        }
+
+        return this.config.defaultLocation;
+    }
+
+    private async clearDefault(transaction: Transaction, branchId: string, exceptId?: string): Promise<void> {
+        const snapshot = await transaction.get(db.collection(this.collection)
+            .where('branchId', '==', branchId)
+            .where('isDefault', '==', true));
+        for (const doc of snapshot.docs.filter((candidate) => candidate.id !== exceptId)) {
+            transaction.update(doc.ref, { isDefault: false, updatedAt: FieldValue.serverTimestamp() });
+        }
+    }
+}
+
+// Export a singleton instance
+export const locationService = new LocationService();
@@ -0,0 +1,141 @@
+import * as functions from 'firebase-functions';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { NotFoundError } from '../utils/errors';
+import { Invoice } from './fireberry/invoice-service';
+
+// Document types with their own number series
+export type NumberedDocument = Invoice['type'] | 'repair' | 'transfer' | 'purchase-order' | 'stocktake';
+
+export type DocumentNumberStatus = 'issued' | 'voided';
+
+// Numbering configuration, read from `functions.config().numbering` by default
+export interface NumberingConfig {
+    prefixes: Record<NumberedDocument, string>;
+    yearReset: boolean;          // restart each series at 1 every calendar year
+    padding: number;             // digits of the sequence part
+    defaultBranch: string;       // branch for callers without a store
+}
+
+// A number issued from a series. Numbers are never reused: a document that is rolled back
+// keeps its number as voided, so every gap in a series is accounted for.
+export interface DocumentNumber {
+    id?: string;                 // the number itself
+    number: string;
+    documentType: NumberedDocument;
+    branchId: string;
+    year?: number;               // set when series reset yearly
+    sequence: number;
+    status: DocumentNumberStatus;
+    voidReason?: string;
+    createdBy?: string;
+    createdAt?: Timestamp;
+    voidedAt?: Timestamp;
+}
+
+const DEFAULT_PREFIXES: Record<NumberedDocument, string> = {
+    'invoice': 'INV',
+    'quote': 'QUO',
+    'receipt': 'RCP',
+    'credit-note': 'CRN',
+    'repair': 'RPR',
+    'transfer': 'TRF',
+    'purchase-order': 'PO',
+    'stocktake': 'STK'
+};
+
+/**
+ * Build the numbering config from Firebase config, with defaults.
+ * Prefixes are set per type, e.g. `numbering.prefix_invoice` or `numbering.prefix_credit_note`.
+ */
+export const loadNumberingConfig = (): NumberingConfig => {
+    const config = functions.config().numbering || {};
+
+    const prefixes = Object.fromEntries(Object.entries(DEFAULT_PREFIXES).map(([type, prefix]) => [
+        type,
+        config[`prefix_${type.replace(/-/g, '_')}`] ?? prefix
+    ])) as Record<NumberedDocument, string>;
+
+    return {
+        prefixes,
+        yearReset: config.year_reset !== undefined ? String(config.year_reset) === 'true' : true,
+        padding: config.padding !== undefined ? Number(config.padding) : 6,
+        defaultBranch: config.default_branch || 'main'
+    };
+};
+
+export class NumberingService {
+    private collection = 'documentNumbers';
+    private countersCollection = 'documentCounters';
+    private config: NumberingConfig;
+
+    constructor(config: Partial<NumberingConfig> = {}) {
+        this.config = { ...loadNumberingConfig(), ...config };
+    }
+
+    /**
+     * Issue the next number of a series, e.g. `INV-main-2026-000042`.
+     * The counter and the issued number are written in one transaction, so concurrent callers never get the same number.
+     */
+    async next(documentType: NumberedDocument, options: { branchId?: string, createdBy?: string } = {}): Promise<DocumentNumber> {
+        const branchId = options.branchId || this.config.defaultBranch;
+        const year = this.config.yearReset ? new Date().getFullYear() : undefined;
+        const counterRef = db.collection(this.countersCollection).doc(`${documentType}_${branchId}_${year ?? 'all'}`);
+
+        return db.runTransaction(async (transaction) => {
+            const counter = await transaction.get(counterRef);
+            const sequence = (counter.data()?.value || 0) + 1;
+
+            const number = [
+                this.config.prefixes[documentType],
+                branchId,
+                year,
+                String(sequence).padStart(this.config.padding, '0')
+            ].filter((part) => part !== undefined && part !== '').join('-');
+
+            const issued: DocumentNumber = JSON.parse(JSON.stringify({
+                number,
+                documentType,
+                branchId,
+                year,
+                sequence,
+                status: 'issued',
+                createdBy: options.createdBy
+            }));
+
+            transaction.set(counterRef, { value: sequence, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+            transaction.create(db.collection(this.collection).doc(number), { ...issued, createdAt: FieldValue.serverTimestamp() });
+
+            return { id: number, ...issued };
+        });
+    }
+
+    /**
+     * Mark a number as voided when its document was never created or was rolled back
+     */
+    async void(number: string, reason: string): Promise<void> {
+        const docRef = db.collection(this.collection).doc(number);
+        const doc = await docRef.get();
+        if (!doc.exists) {
+            throw new NotFoundError(`Document number ${number} not found`);
+        }
+
+        await docRef.update({ status: 'voided', voidReason: reason, voidedAt: FieldValue.serverTimestamp() });
+    }
+
+    /**
+     * Mark a voided number as issued again, when its document is written after all, e.g. a redriven outbox entry
+     */
+    async reinstate(number: string): Promise<void> {
+        const docRef = db.collection(this.collection).doc(number);
+        const doc = await docRef.get();
+        if (!doc.exists) {
+            throw new NotFoundError(`Document number ${number} not found`);
+        }
+
+        await docRef.update({ status: 'issued', voidReason: FieldValue.delete(), voidedAt: FieldValue.delete() });
+    }
+}
+
+// Export a singleton instance
+export const numberingService = new NumberingService();
@@ -0,0 +1,404 @@
+import { randomUUID } from 'crypto';
+import { DocumentReference, FieldValue, Query, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { fromFireberryError } from '../utils/errors';
+import { FireberryResponse, unwrapRecord } from './fireberry/fireberry-service';
+import { orderService } from './fireberry/order-service';
+import { invoiceService } from './fireberry/invoice-service';
+import { productService } from './fireberry/product-service';
+import { inventoryService } from './fireberry/inventory-service';
+import { stockService } from './stock-service';
+import { numberingService } from './numbering-service';
+
+// Write operations that are replayed to Fireberry through the outbox
+export type OutboxOperation = 'createOrder' | 'createInvoice' | 'updateInvoice' | 'syncStock' | 'updateProduct' | 'updateInventory';
+
+export type OutboxStatus = 'pending' | 'processing' | 'completed' | 'dead';
+
+// Outbox entry stored in Firestore
+export interface OutboxEntry {
+    id?: string;
+    operation: OutboxOperation;
+    payload: any;
+    idempotencyKey: string;
+    sequence: number;            // replay order
+    target?: string;             // record the operation writes; its entries are replayed in order
+    status: OutboxStatus;
+    attempts: number;
+    nextAttemptAt: Timestamp;
+    leaseExpiresAt?: Timestamp;  // set while a worker is replaying the entry
+    lastError?: {
+        code: string;
+        message: string;
+    };
+    result?: any;                // Fireberry response data once completed
+    upstreamId?: string;         // id of the record a create operation made in Fireberry
+    createdBy?: string;
+    createdAt?: Timestamp;
+    updatedAt?: Timestamp;
+    completedAt?: Timestamp;
+}
+
+// Summary of a worker run
+export interface OutboxRunSummary {
+    processed: number;
+    completed: number;
+    retried: number;
+    deadLettered: number;
+}
+
+// Options for processing the outbox
+export interface ProcessOptions {
+    limit?: number;              // maximum entries to replay in this run
+}
+
+// Replay handlers per operation
+const OPERATION_HANDLERS: Record<OutboxOperation, (payload: any) => Promise<FireberryResponse<any>>> = {
+    createOrder: (payload) => orderService.createOrder(payload),
+    createInvoice: (payload) => invoiceService.createInvoice(payload),
+    updateInvoice: (payload) => invoiceService.updateInvoice(payload.id, payload.changes),
+    syncStock: (payload) => stockService.syncToFireberry(payload.productId),
+    updateProduct: (payload) => productService.updateProduct(payload.id, payload.changes),
+    updateInventory: (payload) => inventoryService.updateInventory(payload.id, payload.changes)
+};
+
+// Record written by each operation. Creates make a new record and stock syncs read the ledger at replay time,
+// so neither depends on the order of other entries.
+const OPERATION_TARGETS: Record<OutboxOperation, (payload: any) => string | undefined> = {
+    createOrder: () => undefined,
+    createInvoice: () => undefined,
+    updateInvoice: (payload) => `invoice:${payload.id}`,
+    syncStock: () => undefined,
+    updateProduct: (payload) => `product:${payload.id}`,
+    updateInventory: (payload) => `inventory:${payload.id}`
+};
+
+// Create operations, with the primary key of the created record and how to load it again
+const CREATE_OPERATIONS: Partial<Record<OutboxOperation, { primaryKey: string, load: (id: string) => Promise<FireberryResponse<any>> }>> = {
+    createOrder: { primaryKey: 'crmorderid', load: (id) => orderService.getOrderById(id) },
+    createInvoice: { primaryKey: 'invoicenoid', load: (id) => invoiceService.getInvoiceById(id) }
+};
+
+export class OutboxService {
+    private collection = 'outbox';
+    private lastSequence = 0;
+
+    private maxAttempts = 10;
+    private baseDelayMs = 30 * 1000;
+    private maxDelayMs = 30 * 60 * 1000;
+    private leaseMs = 2 * 60 * 1000;     // longer than a Fireberry call with all its retries
+
+    /**
+     * Add a write operation to the outbox.
+     * Enqueuing the same idempotency key twice returns the existing entry.
+     */
+    async enqueue(operation: OutboxOperation, payload: any, options: {
+        idempotencyKey?: string,
+        createdBy?: string
+    } = {}): Promise<OutboxEntry> {
+        const idempotencyKey = options.idempotencyKey || randomUUID();
+        const docRef = db.collection(this.collection).doc(this.docId(operation, idempotencyKey));
+
+        return db.runTransaction(async (transaction) => {
+            const existing = await transaction.get(docRef);
+            if (existing.exists) {
+                return { id: existing.id, ...existing.data() } as OutboxEntry;
+            }
+
+            // Firestore rejects undefined values
+            const cleanedPayload = JSON.parse(JSON.stringify(payload));
+            const target = OPERATION_TARGETS[operation](cleanedPayload);
+
+            const entry: OutboxEntry = {
+                operation,
+                payload: cleanedPayload,
+                idempotencyKey,
+                sequence: this.nextSequence(),
+                ...(target ? { target } : {}),
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: Timestamp.now(),
+                ...(options.createdBy ? { createdBy: options.createdBy } : {})
+            };
+
+            transaction.set(docRef, {
+                ...entry,
+                createdAt: FieldValue.serverTimestamp(),
+                updatedAt: FieldValue.serverTimestamp()
+            });
+
+            return { id: docRef.id, ...entry };
+        });
+    }
+
+    /**
+     * Get an outbox entry by ID
+     */
+    async getEntry(id: string): Promise<OutboxEntry | null> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        return doc.exists ? { id: doc.id, ...doc.data() } as OutboxEntry : null;
+    }
+
+    /**
+     * List outbox entries, optionally filtered by status
+     */
+    async listEntries(status?: OutboxStatus, limit: number = 50): Promise<OutboxEntry[]> {
+        let query: Query = db.collection(this.collection);
+        if (status) {
+            query = query.where('status', '==', status);
+        }
+
+        const snapshot = await query.orderBy('sequence', 'desc').limit(limit).get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OutboxEntry);
+    }
+
+    /**
+     * Move a dead-lettered entry back into the queue
+     * @returns The updated entry, or null if it does not exist or is not dead-lettered
+     */
+    async redrive(id: string): Promise<OutboxEntry | null> {
+        const docRef = db.collection(this.collection).doc(id);
+
+        const entry = await db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(docRef);
+            if (!doc.exists || doc.data()?.status !== 'dead') {
+                return null;
+            }
+
+            const update = {
+                status: 'pending' as OutboxStatus,
+                attempts: 0,
+                nextAttemptAt: Timestamp.now()
+            };
+            transaction.update(docRef, { ...update, updatedAt: FieldValue.serverTimestamp() });
+
+            return { id: doc.id, ...doc.data(), ...update } as OutboxEntry;
+        });
+
+        // The invoice number was voided when the entry was dead-lettered
+        const number = entry ? this.invoiceNumber(entry) : undefined;
+        if (number) {
+            await numberingService.reinstate(number);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Replay one entry right away, e.g. the write a request has just queued; the other entries are left to the worker.
+     * So is this one while it is backing off, leased to a worker, or behind an unfinished entry for the same record.
+     * @returns The entry after the attempt, or null if it does not exist
+     */
+    async replayEntry(id: string): Promise<OutboxEntry | null> {
+        const docRef = db.collection(this.collection).doc(id);
+
+        const claimed = await db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(docRef);
+            if (!doc.exists) {
+                return null;
+            }
+
+            const entry = { id: doc.id, ...doc.data() } as OutboxEntry;
+            if (!this.isDue(entry)) {
+                return null;
+            }
+
+            if (entry.target) {
+                const earlier = await transaction.get(db.collection(this.collection)
+                    .where('target', '==', entry.target)
+                    .where('status', 'in', ['pending', 'processing'])
+                    .where('sequence', '<', entry.sequence)
+                    .limit(1));
+                if (!earlier.empty) {
+                    return null;
+                }
+            }
+
+            this.lease(transaction, docRef);
+            return entry;
+        });
+
+        if (claimed) {
+            await this.replay(claimed);
+        }
+        return this.getEntry(id);
+    }
+
+    /**
+     * Replay pending entries to Fireberry in sequence order.
+     * A retryable failure blocks the entries behind it so the order is preserved;
+     * permanent failures are dead-lettered and skipped.
+     */
+    async processPending(options: ProcessOptions = {}): Promise<OutboxRunSummary> {
+        const limit = options.limit || 25;
+        const summary: OutboxRunSummary = { processed: 0, completed: 0, retried: 0, deadLettered: 0 };
+
+        while (summary.processed < limit) {
+            const entry = await this.claimNext();
+            if (!entry) {
+                break;
+            }
+
+            summary.processed++;
+            const outcome = await this.replay(entry);
+            summary[outcome]++;
+
+            if (outcome === 'retried') {
+                break;
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Claim the head of the queue if it is due
+     */
+    private async claimNext(): Promise<OutboxEntry | null> {
+        const headQuery = db.collection(this.collection)
+            .where('status', 'in', ['pending', 'processing'])
+            .orderBy('sequence', 'asc')
+            .limit(1);
+
+        return db.runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(headQuery);
+            if (snapshot.empty) {
+                return null;
+            }
+
+            const doc = snapshot.docs[0];
+            const entry = { id: doc.id, ...doc.data() } as OutboxEntry;
+            if (!this.isDue(entry)) {
+                return null;
+            }
+
+            this.lease(transaction, doc.ref);
+            return entry;
+        });
+    }
+
+    /**
+     * Whether an entry can be claimed: pending and not backing off, or processing under an expired lease
+     */
+    private isDue(entry: OutboxEntry): boolean {
+        const now = Date.now();
+        if (entry.status === 'processing') {
+            return !entry.leaseExpiresAt || entry.leaseExpiresAt.toMillis() <= now;
+        }
+        return entry.status === 'pending' && entry.nextAttemptAt.toMillis() <= now;
+    }
+
+    private lease(transaction: Transaction, docRef: DocumentReference): void {
+        transaction.update(docRef, {
+            status: 'processing',
+            leaseExpiresAt: Timestamp.fromMillis(Date.now() + this.leaseMs),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+    }
+
+    /**
+     * Replay a claimed entry and record the outcome
+     */
+    private async replay(entry: OutboxEntry): Promise<'completed' | 'retried' | 'deadLettered'> {
+        const docRef = db.collection(this.collection).doc(entry.id as string);
+        const attempts = entry.attempts + 1;
+
+        const create = CREATE_OPERATIONS[entry.operation];
+
+        let result: FireberryResponse<any>;
+        try {
+            // A create that reached Fireberry on an earlier attempt is loaded instead of being sent again
+            result = create && entry.upstreamId
+                ? await create.load(entry.upstreamId)
+                : await OPERATION_HANDLERS[entry.operation](entry.payload);
+        } catch (error: any) {
+            result = {
+                success: false,
+                error: { code: 'unknown', message: error.message || 'Unknown error occurred' }
+            };
+        }
+
+        if (result.success) {
+            const upstreamId = create && !entry.upstreamId ? unwrapRecord<any>(result.data)?.[create.primaryKey] : undefined;
+            if (upstreamId) {
+                await docRef.update({ upstreamId, updatedAt: FieldValue.serverTimestamp() });
+            }
+
+            await docRef.update({
+                status: 'completed',
+                attempts,
+                result: result.data === undefined ? null : JSON.parse(JSON.stringify(result.data)),
+                lastError: FieldValue.delete(),
+                leaseExpiresAt: FieldValue.delete(),
+                completedAt: FieldValue.serverTimestamp(),
+                updatedAt: FieldValue.serverTimestamp()
+            });
+            return 'completed';
+        }
+
+        const lastError = result.error || { code: 'unknown', message: 'Unknown error occurred' };
+
+        if (attempts >= this.maxAttempts || !this.isRetryable(lastError.code)) {
+            console.error(`Outbox entry ${entry.id} dead-lettered after ${attempts} attempt(s):`, lastError);
+            await docRef.update({
+                status: 'dead',
+                attempts,
+                lastError,
+                leaseExpiresAt: FieldValue.delete(),
+                updatedAt: FieldValue.serverTimestamp()
+            });
+
+            // The invoice was never created, so its number is accounted for as voided
+            const number = this.invoiceNumber(entry);
+            if (number) {
+                try {
+                    await numberingService.void(number, `Outbox entry ${entry.id} dead-lettered: ${lastError.message}`);
+                } catch (error) {
+                    console.error(`Failed to void invoice number ${number} of outbox entry ${entry.id}:`, error);
+                }
+            }
+            return 'deadLettered';
+        }
+
+        const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempts - 1));
+        await docRef.update({
+            status: 'pending',
+            attempts,
+            lastError,
+            nextAttemptAt: Timestamp.fromMillis(Date.now() + delay),
+            leaseExpiresAt: FieldValue.delete(),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+        return 'retried';
+    }
+
+    /**
+     * Only throttling and upstream outages are worth replaying; anything else will fail again
+     */
+    private isRetryable(code: string): boolean {
+        const { code: errorCode } = fromFireberryError({ code, message: '' }, '');
+        return errorCode === 'RATE_LIMITED' || errorCode === 'UPSTREAM_UNAVAILABLE';
+    }
+
+    /**
+     * The number issued to the invoice of a `createInvoice` entry
+     */
+    private invoiceNumber(entry: OutboxEntry): string | undefined {
+        return entry.operation === 'createInvoice' ? entry.payload?.number : undefined;
+    }
+
+    /**
+     * Replay order: enqueue time in microseconds, with a counter for entries queued in the same millisecond
+     */
+    private nextSequence(): number {
+        this.lastSequence = Math.max(this.lastSequence + 1, Date.now() * 1000);
+        return this.lastSequence;
+    }
+
+    private docId(operation: OutboxOperation, idempotencyKey: string): string {
+        return `${operation}_${idempotencyKey.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+    }
+}
+
+// Export a singleton instance
+export const outboxService = new OutboxService();
@@ -0,0 +1,482 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { AppError, ConflictError, fromFireberryError, NotFoundError, ValidationError } from '../utils/errors';
+import { moneyEquals, roundMoney } from '../utils/money';
+import { unwrapRecord } from './fireberry/fireberry-service';
+import { invoiceService, Invoice } from './fireberry/invoice-service';
+import { outboxService } from './outbox-service';
+import { drawerService } from './drawer-service';
+
+export type PaymentMethod = NonNullable<Invoice['paymentMethod']>;
+
+export type PaymentKind = 'payment' | 'refund';
+
+export type PaymentStatus = 'completed' | 'voided';
+
+// A tender as entered at the till
+export interface PaymentInput {
+    method: PaymentMethod;
+    amount: number;              // amount applied to the invoice
+    tendered?: number;           // cash handed over, when more than the amount
+    reference?: string;          // card authorization, transfer reference, etc.
+    cardLast4?: string;
+}
+
+// Payment or refund stored in Firestore
+export interface Payment extends PaymentInput {
+    id?: string;
+    invoiceId: string;
+    kind: PaymentKind;
+    status: PaymentStatus;
+    change?: number;             // cash given back
+    refundOf?: string;           // refunded payment ID
+    voidReason?: string;
+    voidedBy?: string;
+    voidedAt?: Timestamp;
+    sessionId?: string;          // drawer session open by the cashier at the time
+    registerId?: string;
+    createdBy?: string;
+    createdAt?: Timestamp;
+}
+
+// Payment position of an invoice
+export interface InvoiceBalance {
+    invoiceId: string;
+    total: number;
+    paid: number;                // completed payments
+    refunded: number;            // completed refunds
+    balance: number;             // still to be paid
+    status: Invoice['status'];   // derived from the balance
+    payments: Payment[];
+}
+
+// Refund request
+export interface RefundInput {
+    amount?: number;             // defaults to the unrefunded amount of the payment
+    method?: PaymentMethod;      // defaults to the method of the payment
+    reference?: string;
+}
+
+// Where the money of a credit note goes back to
+export interface CreditRefundInput {
+    paymentId?: string;          // payment of the original invoice, refunded to its tender
+    method?: PaymentMethod;      // another tender; defaults to the method of `paymentId`
+    amount?: number;             // defaults to what is left of the credit
+    reference?: string;
+}
+
+// A planned credit note refund
+export interface CreditRefund extends PaymentInput {
+    refundOf?: string;
+}
+
+export class PaymentService {
+    private collection = 'payments';
+
+    /**
+     * Get the payments and refunds of an invoice, oldest first
+     */
+    async listPayments(invoiceId: string): Promise<Payment[]> {
+        const snapshot = await db.collection(this.collection).where('invoiceId', '==', invoiceId).get();
+        return this.sort(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Payment));
+    }
+
+    /**
+     * Get the payment position of an invoice
+     */
+    async getBalance(invoiceId: string): Promise<InvoiceBalance> {
+        const invoice = await this.loadInvoice(invoiceId);
+        return this.summarize(invoiceId, invoice, await this.listPayments(invoiceId));
+    }
+
+    /**
+     * Check a set of tenders against the amount due before anything is recorded
+     * @throws ValidationError when a tender is invalid or the tenders exceed the amount due
+     */
+    checkTenders(inputs: PaymentInput[], amountDue: number): void {
+        inputs.forEach((input, index) => this.checkTender(input, `payments[${index}]`));
+
+        const sum = roundMoney(inputs.reduce((total, input) => total + input.amount, 0));
+        if (sum > amountDue && !moneyEquals(sum, amountDue)) {
+            throw new ValidationError(`Payments of ${sum} exceed the amount due of ${amountDue}`,
+                [{ field: 'payments', message: `must not exceed ${amountDue}` }]);
+        }
+    }
+
+    /**
+     * Record the tenders taken for a new invoice (e.g. at checkout).
+     * The caller creates the invoice with the matching status.
+     */
+    async recordTenders(invoiceId: string, inputs: PaymentInput[], createdBy?: string): Promise<Payment[]> {
+        return this.recordBatch(invoiceId, 'payment', inputs, createdBy);
+    }
+
+    /**
+     * Plan the refunds of a credit against the original invoice.
+     * Tenders are filled in order, each up to its amount and, for a payment of the original invoice, up to what is
+     * left unrefunded of it. Without tenders, the credit goes back to the payments of the original invoice.
+     * Credit that no tender can take is left on the credit note.
+     */
+    async planCreditRefunds(originalInvoiceId: string, credit: number, inputs: CreditRefundInput[] = []): Promise<CreditRefund[]> {
+        const originals = (await this.listPayments(originalInvoiceId))
+            .filter((payment) => payment.kind === 'payment' && payment.status === 'completed');
+
+        const refundable = new Map<string, number>();
+        for (const payment of originals) {
+            const refunds = await this.listRefundsOf(payment.id as string);
+            refundable.set(payment.id as string, roundMoney(payment.amount - refunds.reduce((sum, refund) => sum + refund.amount, 0)));
+        }
+
+        const tenders = inputs.length ? inputs : originals.map((payment): CreditRefundInput => ({ paymentId: payment.id }));
+        const refunds: CreditRefund[] = [];
+        let left = roundMoney(credit);
+
+        tenders.forEach((input, index) => {
+            const original = input.paymentId ? originals.find((payment) => payment.id === input.paymentId) : undefined;
+            if (input.paymentId && !original) {
+                throw new ValidationError(`Payment ${input.paymentId} is not a payment of invoice ${originalInvoiceId}`,
+                    [{ field: `refunds[${index}].paymentId`, message: 'must be a completed payment of the original invoice' }]);
+            }
+            if (!original && !input.method) {
+                throw new ValidationError('A refund needs a paymentId or a method',
+                    [{ field: `refunds[${index}]`, message: 'must have a paymentId or a method' }]);
+            }
+
+            const limits = [left, input.amount ?? left, original ? refundable.get(original.id as string) as number : left];
+            const amount = roundMoney(Math.min(...limits));
+            if (amount <= 0) {
+                return;
+            }
+
+            if (original) {
+                refundable.set(original.id as string, roundMoney((refundable.get(original.id as string) as number) - amount));
+            }
+            left = roundMoney(left - amount);
+
+            refunds.push(JSON.parse(JSON.stringify({
+                method: input.method || original?.method,
+                amount,
+                reference: input.reference,
+                refundOf: original?.id
+            })));
+        });
+
+        return refunds;
+    }
+
+    /**
+     * Record refunds paid out against a credit note
+     */
+    async recordRefunds(creditNoteId: string, refunds: CreditRefund[], createdBy?: string): Promise<Payment[]> {
+        return this.recordBatch(creditNoteId, 'refund', refunds, createdBy);
+    }
+
+    /**
+     * Record a payment against an invoice and update the invoice status
+     */
+    async recordPayment(invoiceId: string, input: PaymentInput, createdBy?: string): Promise<{ payment: Payment, balance: InvoiceBalance }> {
+        this.checkTender(input, '');
+
+        const invoice = await this.loadInvoice(invoiceId);
+        if (invoice.status === 'cancelled' || invoice.status === 'draft') {
+            throw new ConflictError(`Cannot take a payment for a ${invoice.status} invoice`);
+        }
+
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const payment = { ...this.buildPayment(invoiceId, 'payment', input, createdBy), ...await this.sessionFields(createdBy) };
+
+        const payments = await db.runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(db.collection(this.collection).where('invoiceId', '==', invoiceId));
+            const existing = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Payment);
+
+            const { balance } = this.summarize(invoiceId, invoice, existing);
+            if (input.amount > balance && !moneyEquals(input.amount, balance)) {
+                throw new ValidationError(`Payment of ${input.amount} exceeds the outstanding balance of ${balance}`,
+                    [{ field: 'amount', message: `must not exceed ${balance}` }]);
+            }
+
+            transaction.set(docRef, { ...payment, createdAt: FieldValue.serverTimestamp() });
+            return [...existing, { id: docRef.id, ...payment }];
+        });
+
+        const balance = this.summarize(invoiceId, invoice, payments);
+        await this.syncInvoiceStatus(invoice, balance, createdBy);
+
+        return { payment: { id: docRef.id, ...payment }, balance };
+    }
+
+    /**
+     * Void a payment or refund entered in error
+     */
+    async voidPayment(invoiceId: string, paymentId: string, reason: string, voidedBy?: string): Promise<{ payment: Payment, balance: InvoiceBalance }> {
+        const invoice = await this.loadInvoice(invoiceId);
+        const docRef = db.collection(this.collection).doc(paymentId);
+
+        const payments = await db.runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(db.collection(this.collection).where('invoiceId', '==', invoiceId));
+            const existing = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Payment);
+
+            const payment = existing.find((candidate) => candidate.id === paymentId);
+            if (!payment) {
+                throw new NotFoundError('Payment not found');
+            }
+            if (payment.status === 'voided') {
+                throw new ConflictError('Payment is already voided');
+            }
+            const refunds = await transaction.get(db.collection(this.collection).where('refundOf', '==', paymentId));
+            if (refunds.docs.some((doc) => doc.data().status === 'completed')) {
+                throw new ConflictError('Payment has refunds; void the refunds first');
+            }
+
+            const update = {
+                status: 'voided' as PaymentStatus,
+                voidReason: reason,
+                ...(voidedBy ? { voidedBy } : {})
+            };
+            transaction.update(docRef, { ...update, voidedAt: FieldValue.serverTimestamp() });
+            Object.assign(payment, update);
+
+            return existing;
+        });
+
+        const balance = this.summarize(invoiceId, invoice, payments);
+        await this.syncInvoiceStatus(invoice, balance, voidedBy);
+
+        return { payment: payments.find((payment) => payment.id === paymentId) as Payment, balance };
+    }
+
+    /**
+     * Void payments without touching the invoice, e.g. when a checkout is rolled back
+     */
+    async voidPayments(paymentIds: string[], reason: string): Promise<void> {
+        const batch = db.batch();
+        for (const id of paymentIds) {
+            batch.update(db.collection(this.collection).doc(id), {
+                status: 'voided',
+                voidReason: reason,
+                voidedAt: FieldValue.serverTimestamp()
+            });
+        }
+        await batch.commit();
+    }
+
+    /**
+     * Refund all or part of a payment, to the original or another tender
+     */
+    async refundPayment(invoiceId: string, paymentId: string, input: RefundInput, createdBy?: string): Promise<{ payment: Payment, balance: InvoiceBalance }> {
+        const invoice = await this.loadInvoice(invoiceId);
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const session = await this.sessionFields(createdBy);
+
+        const { payments, refund } = await db.runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(db.collection(this.collection).where('invoiceId', '==', invoiceId));
+            const existing = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Payment);
+
+            const original = existing.find((candidate) => candidate.id === paymentId);
+            if (!original || original.kind !== 'payment') {
+                throw new NotFoundError('Payment not found');
+            }
+            if (original.status === 'voided') {
+                throw new ConflictError('Cannot refund a voided payment');
+            }
+
+            // Refunds of the payment may also be recorded against credit notes
+            const refunds = await transaction.get(db.collection(this.collection).where('refundOf', '==', paymentId));
+            const refundedSoFar = refunds.docs
+                .map((doc) => doc.data() as Payment)
+                .filter((candidate) => candidate.status === 'completed')
+                .reduce((sum, candidate) => sum + candidate.amount, 0);
+            const refundable = roundMoney(original.amount - refundedSoFar);
+            const amount = roundMoney(input.amount ?? refundable);
+
+            if (amount <= 0 || (amount > refundable && !moneyEquals(amount, refundable))) {
+                throw new ValidationError(`Refund must be between 0 and the refundable ${refundable}`,
+                    [{ field: 'amount', message: `must be more than 0 and at most ${refundable}` }]);
+            }
+
+            const refund: Payment = {
+                ...this.buildPayment(invoiceId, 'refund', {
+                    method: input.method || original.method,
+                    amount,
+                    reference: input.reference
+                }, createdBy),
+                ...session,
+                refundOf: paymentId
+            };
+            transaction.set(docRef, { ...refund, createdAt: FieldValue.serverTimestamp() });
+
+            return { payments: [...existing, { id: docRef.id, ...refund }], refund: { id: docRef.id, ...refund } };
+        });
+
+        const balance = this.summarize(invoiceId, invoice, payments);
+        await this.syncInvoiceStatus(invoice, balance, createdBy);
+
+        return { payment: refund, balance };
+    }
+
+    /**
+     * Derive an invoice status from the net amount paid.
+     * A credit note has a negative total and is settled by refunds, i.e. a negative net amount paid.
+     * Cancelled invoices and drafts, which take no payments, keep their status.
+     */
+    deriveStatus(invoice: Pick<Invoice, 'status' | 'total' | 'dueDate'>, netPaid: number): Invoice['status'] {
+        if (invoice.status === 'cancelled' || invoice.status === 'draft') {
+            return invoice.status;
+        }
+
+        const due = Math.abs(invoice.total);
+        const settled = invoice.total < 0 ? -netPaid : netPaid;
+        if (settled > 0 && (settled >= due || moneyEquals(settled, due))) {
+            return 'paid';
+        }
+
+        const today = new Date().toISOString().substring(0, 10);
+        if (invoice.dueDate && invoice.dueDate.substring(0, 10) < today) {
+            return 'overdue';
+        }
+
+        return settled > 0 ? 'partially-paid' : 'sent';
+    }
+
+    private summarize(invoiceId: string, invoice: Invoice, payments: Payment[]): InvoiceBalance {
+        const completed = payments.filter((payment) => payment.status === 'completed');
+        const paid = roundMoney(completed
+            .filter((payment) => payment.kind === 'payment')
+            .reduce((sum, payment) => sum + payment.amount, 0));
+        const refunded = roundMoney(completed
+            .filter((payment) => payment.kind === 'refund')
+            .reduce((sum, payment) => sum + payment.amount, 0));
+        const netPaid = roundMoney(paid - refunded);
+
+        return {
+            invoiceId,
+            total: invoice.total,
+            paid,
+            refunded,
+            balance: roundMoney(invoice.total - netPaid),
+            status: this.deriveStatus(invoice, netPaid),
+            payments: this.sort(payments)
+        };
+    }
+
+    /**
+     * Write the derived status (and the latest tender) back to the invoice through the outbox.
+     * Never throws: the payments are committed by now, and a failed replay stays in the outbox for the worker.
+     */
+    private async syncInvoiceStatus(invoice: Invoice, balance: InvoiceBalance, createdBy?: string): Promise<void> {
+        const latest = balance.payments.filter((payment) => payment.kind === 'payment' && payment.status === 'completed').pop();
+        const changes: Partial<Invoice> = { status: balance.status };
+        if (latest) {
+            changes.paymentMethod = latest.method;
+            changes.paymentDate = new Date().toISOString().substring(0, 10);
+        }
+
+        if (changes.status === invoice.status && changes.paymentMethod === invoice.paymentMethod) {
+            return;
+        }
+
+        let entryId: string;
+        try {
+            entryId = (await outboxService.enqueue('updateInvoice', { id: balance.invoiceId, changes }, { createdBy })).id as string;
+        } catch (error) {
+            console.error(`Status update of invoice ${balance.invoiceId} could not be queued:`, (error as Error).message);
+            return;
+        }
+
+        try {
+            await outboxService.replayEntry(entryId);
+        } catch (error) {
+            console.warn('Invoice status update deferred to the outbox worker:', (error as Error).message);
+        }
+    }
+
+    /**
+     * Tag a payment with the drawer session the cashier has open
+     */
+    private async sessionFields(uid?: string): Promise<Pick<Payment, 'sessionId' | 'registerId'>> {
+        const session = uid ? await drawerService.findOpenSession(uid) : null;
+        return session ? { sessionId: session.id, registerId: session.registerId } : {};
+    }
+
+    private async loadInvoice(invoiceId: string): Promise<Invoice> {
+        const result = await invoiceService.getInvoiceById(invoiceId);
+        if (!result.success) {
+            throw fromFireberryError(result.error, 'Failed to fetch invoice');
+        }
+        if (result.stale) {
+            throw new AppError('UPSTREAM_UNAVAILABLE', 'Fireberry is unavailable; cannot check the invoice balance from cached data', 503);
+        }
+        return unwrapRecord<Invoice>(result.data);
+    }
+
+    private async recordBatch(invoiceId: string, kind: PaymentKind, inputs: CreditRefund[], createdBy?: string): Promise<Payment[]> {
+        const session = await this.sessionFields(createdBy);
+        const batch = db.batch();
+        const payments = inputs.map((input) => {
+            const docRef = db.collection(this.collection).doc(randomUUID());
+            const payment: Payment = {
+                ...this.buildPayment(invoiceId, kind, input, createdBy),
+                ...session,
+                ...(input.refundOf ? { refundOf: input.refundOf } : {})
+            };
+            batch.set(docRef, { ...payment, createdAt: FieldValue.serverTimestamp() });
+            return { id: docRef.id, ...payment };
+        });
+
+        await batch.commit();
+        return payments;
+    }
+
+    private async listRefundsOf(paymentId: string): Promise<Payment[]> {
+        const snapshot = await db.collection(this.collection).where('refundOf', '==', paymentId).get();
+        return snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() }) as Payment)
+            .filter((refund) => refund.status === 'completed');
+    }
+
+    private checkTender(input: PaymentInput, path: string): void {
+        const field = (name: string) => (path ? `${path}.${name}` : name);
+
+        if (!(input.amount > 0)) {
+            throw new ValidationError('Payment amount must be more than 0', [{ field: field('amount'), message: 'must be more than 0' }]);
+        }
+        if (input.tendered !== undefined && input.method !== 'cash') {
+            throw new ValidationError('Only cash payments can be tendered', [{ field: field('tendered'), message: 'is only allowed for cash' }]);
+        }
+        if (input.tendered !== undefined && input.tendered < input.amount) {
+            throw new ValidationError('Tendered cash is less than the amount', [{ field: field('tendered'), message: 'must be at least the amount' }]);
+        }
+        if (input.cardLast4 !== undefined && (input.method !== 'credit' || !/^\d{4}$/.test(input.cardLast4))) {
+            throw new ValidationError('cardLast4 must be 4 digits on a credit payment', [{ field: field('cardLast4'), message: 'must be 4 digits on a credit payment' }]);
+        }
+    }
+
+    private buildPayment(invoiceId: string, kind: PaymentKind, input: PaymentInput, createdBy?: string): Payment {
+        const amount = roundMoney(input.amount);
+        const change = input.method === 'cash' && input.tendered !== undefined ? roundMoney(input.tendered - amount) : undefined;
+
+        // Firestore rejects undefined values
+        return JSON.parse(JSON.stringify({
+            invoiceId,
+            kind,
+            status: 'completed',
+            method: input.method,
+            amount,
+            tendered: input.tendered,
+            change,
+            reference: input.reference,
+            cardLast4: input.cardLast4,
+            createdBy
+        }));
+    }
+
+    private sort(payments: Payment[]): Payment[] {
+        // Payments written in this request have no server timestamp yet, so they sort last
+        const time = (payment: Payment) => payment.createdAt?.toMillis() ?? Number.MAX_SAFE_INTEGER;
+        return payments.sort((a, b) => time(a) - time(b));
+    }
+}
+
+// Export a singleton instance
+export const paymentService = new PaymentService();
@@ -0,0 +1,372 @@
+import { randomUUID } from 'crypto';
+import * as functions from 'firebase-functions';
+import PDFDocument from 'pdfkit';
+import { storage } from '../utils/firebase-admin';
+import { AppError, fromFireberryError } from '../utils/errors';
+import { hasRtl, toVisual } from '../utils/bidi';
+import { unwrapRecord } from './fireberry/fireberry-service';
+import { invoiceService, Invoice } from './fireberry/invoice-service';
+import { pricingService, VatLine } from './pricing-service';
+import { paymentService, Payment, PaymentMethod } from './payment-service';
+import { loadBusinessProfile, BusinessProfile } from './business-profile';
+
+// Layout differences between document types
+export interface DocumentTemplate {
+    title: string;
+    subtitle: string;
+    dueDateLabel?: string;       // shown when the document has a due date
+    showPayments: boolean;
+    footer?: string;
+}
+
+export const DOCUMENT_TEMPLATES: Record<Invoice['type'], DocumentTemplate> = {
+    'invoice': {
+        title: 'חשבונית מס',
+        subtitle: 'Tax Invoice',
+        dueDateLabel: 'לתשלום עד',
+        showPayments: false
+    },
+    'receipt': {
+        title: 'חשבונית מס / קבלה',
+        subtitle: 'Tax Invoice / Receipt',
+        showPayments: true
+    },
+    'quote': {
+        title: 'הצעת מחיר',
+        subtitle: 'Price Quote',
+        dueDateLabel: 'בתוקף עד',
+        showPayments: false,
+        footer: 'מסמך זה אינו מהווה חשבונית מס'
+    },
+    'credit-note': {
+        title: 'חשבונית זיכוי',
+        subtitle: 'Credit Note',
+        showPayments: true
+    }
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    'cash': 'מזומן',
+    'credit': 'כרטיס אשראי',
+    'bank': 'העברה בנקאית',
+    'mobile': 'תשלום בנייד',
+    'store-credit': 'זיכוי'
+};
+
+// A rendered document saved to Cloud Storage
+export interface StoredPdf {
+    path: string;
+    fileName: string;
+    url: string;
+    expiresAt: string;
+}
+
+// Page geometry (A4, points)
+const PAGE = { width: 595.28, margin: 40, footer: 780 };
+const RIGHT = PAGE.width - PAGE.margin;
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+
+// Item table columns, from right to left
+const COLUMNS = [
+    { key: 'description', label: 'תיאור', width: 215 },
+    { key: 'quantity', label: 'כמות', width: 55 },
+    { key: 'unitPrice', label: 'מחיר יחידה', width: 85 },
+    { key: 'discount', label: 'הנחה', width: 70 },
+    { key: 'total', label: 'סה"כ', width: 90 }
+] as const;
+
+/**
+ * Prepare right-to-left text for PDFKit. A run is shaped by fontkit, which reverses the whole run when its first letter
+ * is right-to-left; the visual-order text is passed so that this reversal, if it happens, yields the visual order.
+ */
+const forPdfKit = (value: string): string => {
+    const visual = toVisual(value);
+    const reversed = Array.from(visual).reverse().join('');
+    const firstLetter = Array.from(reversed).find((char) => hasRtl(char) || /[A-Za-z\u00C0-\u024F]/.test(char));
+    return firstLetter && hasRtl(firstLetter) ? reversed : visual;
+};
+
+const money = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export class PdfService {
+    private folder = 'documents';
+    private urlTtlMinutes: number;
+    private assets = new Map<string, Buffer>();
+
+    constructor() {
+        const config = functions.config().documents || {};
+        this.urlTtlMinutes = Number(config.url_ttl_minutes || 60);
+    }
+
+    /**
+     * Render an invoice, quote, receipt or credit note and save it to Cloud Storage
+     */
+    async generate(invoiceId: string): Promise<{ file: StoredPdf, content: Buffer }> {
+        const invoice = await this.loadInvoice(invoiceId);
+        const profile = loadBusinessProfile();
+
+        // The VAT lines stored when the invoice was priced; invoices priced before they were stored get them
+        // recomputed at the current rates
+        const vat = invoice.vat || (await pricingService.priceLines(invoice.items.map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discount: item.discount
+        })), invoice.discount || 0)).vat;
+
+        const payments = DOCUMENT_TEMPLATES[invoice.type].showPayments
+            ? (await paymentService.listPayments(invoiceId)).filter((payment) => payment.status === 'completed')
+            : [];
+
+        const content = await this.render(invoice, profile, vat, payments);
+
+        const fileName = `${invoice.number || invoiceId}.pdf`;
+        const path = `${this.folder}/${invoice.type}/${invoiceId}.pdf`;
+        // The emulator cannot sign URLs; files are served with a download token instead
+        const emulatorToken = process.env.FIREBASE_STORAGE_EMULATOR_HOST ? randomUUID() : undefined;
+        await storage.bucket().file(path).save(content, {
+            contentType: 'application/pdf',
+            metadata: {
+                contentDisposition: `inline; filename="${fileName}"`,
+                ...(emulatorToken ? { metadata: { firebaseStorageDownloadTokens: emulatorToken } } : {})
+            }
+        });
+
+        const expires = Date.now() + this.urlTtlMinutes * 60 * 1000;
+        const url = await this.downloadUrl(path, expires, emulatorToken);
+
+        return { file: { path, fileName, url, expiresAt: new Date(expires).toISOString() }, content };
+    }
+
+    /**
+     * Lay out the document
+     */
+    private async render(invoice: Invoice, profile: BusinessProfile, vat: VatLine[], payments: Payment[]): Promise<Buffer> {
+        const template = DOCUMENT_TEMPLATES[invoice.type];
+        const [font, boldFont, logo] = await Promise.all([
+            this.loadAsset(profile.fontPath, 'business.font_path'),
+            profile.boldFontPath ? this.loadAsset(profile.boldFontPath, 'business.bold_font_path') : Promise.resolve(undefined),
+            profile.logoPath ? this.loadAsset(profile.logoPath, 'business.logo_path').catch((error) => {
+                console.warn('Document logo skipped:', (error as Error).message);
+                return undefined;
+            }) : Promise.resolve(undefined)
+        ]);
+
+        const doc = new PDFDocument({ size: 'A4', margin: PAGE.margin, info: { Title: `${template.subtitle} ${invoice.number || ''}`.trim() } });
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        const done = new Promise<Buffer>((resolve, reject) => {
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+        });
+
+        doc.registerFont('regular', font as Buffer);
+        doc.registerFont('bold', boldFont || font as Buffer);
+
+        // Text helper: right aligned by default; Hebrew text is laid out as a single run
+        const text = (value: string, x: number, y: number, width: number, options: { align?: 'left' | 'right' | 'center', bold?: boolean, size?: number } = {}) => {
+            doc.font(options.bold ? 'bold' : 'regular').fontSize(options.size || 10);
+            const rtl = hasRtl(value);
+            doc.text(rtl ? forPdfKit(value) : value, x, y, { width, align: options.align || 'right', lineBreak: false, ...(rtl ? { features: [] } : {}) });
+        };
+
+        // Header: business details on the right, logo on the left
+        let y = PAGE.margin;
+        if (logo) {
+            doc.image(logo, PAGE.margin, y, { fit: [140, 70] });
+        }
+        text(profile.name, PAGE.margin, y, CONTENT_WIDTH, { bold: true, size: 16 });
+        const details = [
+            profile.vatId ? `עוסק מורשה ${profile.vatId}` : undefined,
+            profile.address,
+            [profile.phone, profile.email].filter(Boolean).join(' | '),
+            profile.website
+        ].filter((line): line is string => Boolean(line));
+        details.forEach((line, index) => text(line, PAGE.margin, y + 22 + index * 13, CONTENT_WIDTH, { size: 9 }));
+        y += Math.max(80, 26 + details.length * 13);
+
+        doc.moveTo(PAGE.margin, y).lineTo(RIGHT, y).stroke();
+        y += 12;
+
+        // Title and document details
+        text(`${template.title} ${invoice.number || ''}`.trim(), PAGE.margin, y, CONTENT_WIDTH, { bold: true, size: 18 });
+        text(template.subtitle, PAGE.margin, y + 4, CONTENT_WIDTH, { align: 'left', size: 10 });
+        y += 30;
+
+        const meta = [
+            `תאריך: ${invoice.date.substring(0, 10)}`,
+            invoice.dueDate && template.dueDateLabel ? `${template.dueDateLabel}: ${invoice.dueDate.substring(0, 10)}` : undefined,
+            invoice.originalInvoiceId ? `זיכוי עבור חשבונית: ${invoice.originalInvoiceId}` : undefined
+        ].filter((line): line is string => Boolean(line));
+        const customer = [
+            invoice.customerName ? `לכבוד: ${invoice.customerName}` : undefined,
+            invoice.customerAddress,
+            invoice.customerPhone,
+            invoice.customerEmail
+        ].filter((line): line is string => Boolean(line));
+
+        const half = CONTENT_WIDTH / 2;
+        customer.forEach((line, index) => text(line, PAGE.margin + half, y + index * 13, half));
+        meta.forEach((line, index) => text(line, PAGE.margin, y + index * 13, half - 10));
+        y += Math.max(customer.length, meta.length) * 13 + 16;
+
+        // Items table
+        const columnX: number[] = [];
+        COLUMNS.reduce((right, column) => {
+            columnX.push(right - column.width);
+            return right - column.width;
+        }, RIGHT);
+
+        const tableRow = (values: string[], bold: boolean) => {
+            if (y > 760) {
+                doc.addPage();
+                y = PAGE.margin;
+            }
+            values.forEach((value, index) => text(value, columnX[index] + 4, y, COLUMNS[index].width - 8, {
+                bold,
+                align: index === 0 ? 'right' : 'left'
+            }));
+            y += 16;
+        };
+
+        doc.rect(PAGE.margin, y - 4, CONTENT_WIDTH, 18).fillAndStroke('#eeeeee', '#cccccc').fillColor('#000000');
+        tableRow(COLUMNS.map((column) => column.label), true);
+        for (const item of invoice.items) {
+            tableRow([
+                item.description ? `${item.productName} - ${item.description}` : item.productName,
+                String(item.quantity),
+                money(item.unitPrice),
+                item.discount ? money(item.discount) : '',
+                money(item.total)
+            ], false);
+        }
+        doc.strokeColor('#000000').moveTo(PAGE.margin, y).lineTo(RIGHT, y).stroke();
+        y += 10;
+
+        // Totals and VAT breakdown, on the left under the amounts
+        const totalsX = PAGE.margin;
+        const totalsWidth = 220;
+        const totalLine = (label: string, value: number, bold = false) => {
+            text(label, totalsX + 90, y, totalsWidth - 90, { bold });
+            text(money(value), totalsX, y, 85, { bold, align: 'left' });
+            y += 15;
+        };
+
+        totalLine('סכום ביניים', invoice.subtotal);
+        if (invoice.discount) {
+            totalLine('הנחה', -invoice.discount);
+        }
+        for (const line of vat) {
+            const percent = Math.round(line.rate * 10000) / 100;
+            totalLine(line.rate ? `חייב במע"מ ${percent}%` : 'פטור ממע"מ', line.base);
+            if (line.rate) {
+                totalLine(`מע"מ ${percent}%`, line.vat);
+            }
+        }
+        totalLine('סה"כ לתשלום', invoice.total, true);
+        y += 10;
+
+        if (template.showPayments && (payments.length || invoice.paymentMethod)) {
+            text('אמצעי תשלום', PAGE.margin, y, CONTENT_WIDTH, { bold: true });
+            y += 15;
+            const rows = payments.length
+                ? payments.map((payment) => ({ method: payment.method, amount: payment.kind === 'refund' ? -payment.amount : payment.amount, reference: payment.cardLast4 || payment.reference }))
+                : [{ method: invoice.paymentMethod as PaymentMethod, amount: invoice.total, reference: undefined }];
+            for (const row of rows) {
+                text(`${PAYMENT_METHOD_LABELS[row.method] || row.method}${row.reference ? ` (${row.reference})` : ''}`, PAGE.margin + 100, y, CONTENT_WIDTH - 100);
+                text(money(row.amount), PAGE.margin, y, 95, { align: 'left' });
+                y += 14;
+            }
+            y += 6;
+        }
+
+        if (invoice.notes) {
+            text('הערות', PAGE.margin, y, CONTENT_WIDTH, { bold: true });
+            y += 15;
+            for (const line of this.wrap(doc, invoice.notes, CONTENT_WIDTH)) {
+                text(line, PAGE.margin, y, CONTENT_WIDTH);
+                y += 13;
+            }
+        }
+
+        if (template.footer) {
+            text(template.footer, PAGE.margin, PAGE.footer, CONTENT_WIDTH, { align: 'center', size: 9 });
+        }
+
+        doc.end();
+        return done;
+    }
+
+    /**
+     * Break text into lines that fit the width, in logical order, so each line can be reordered for display on its own
+     */
+    private wrap(doc: PDFKit.PDFDocument, value: string, width: number): string[] {
+        doc.font('regular').fontSize(10);
+
+        const lines: string[] = [];
+        for (const paragraph of value.split(/\r?\n/)) {
+            let line = '';
+            for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+                const candidate = line ? `${line} ${word}` : word;
+                if (line && doc.widthOfString(candidate) > width) {
+                    lines.push(line);
+                    line = word;
+                } else {
+                    line = candidate;
+                }
+            }
+            lines.push(line);
+        }
+        return lines;
+    }
+
+    /**
+     * Signed URL in production; a token URL on the emulator
+     */
+    private async downloadUrl(path: string, expires: number, emulatorToken?: string): Promise<string> {
+        const bucket = storage.bucket();
+        const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+        if (emulatorHost && emulatorToken) {
+            const host = emulatorHost.startsWith('http') ? emulatorHost : `http://${emulatorHost}`;
+            return `${host}/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media&token=${emulatorToken}`;
+        }
+
+        const [url] = await bucket.file(path).getSignedUrl({ action: 'read', expires });
+        return url;
+    }
+
+    /**
+     * Load a font or image from Cloud Storage, cached for the lifetime of the instance
+     */
+    private async loadAsset(path: string | undefined, setting: string): Promise<Buffer> {
+        if (!path) {
+            throw new AppError('INTERNAL', `Document rendering needs ${setting} to be set`, 500);
+        }
+
+        const cached = this.assets.get(path);
+        if (cached) {
+            return cached;
+        }
+
+        const file = storage.bucket().file(path);
+        const [exists] = await file.exists();
+        if (!exists) {
+            throw new AppError('INTERNAL', `${setting} points to ${path}, which does not exist in Cloud Storage`, 500);
+        }
+
+        const [content] = await file.download();
+        this.assets.set(path, content);
+        return content;
+    }
+
+    private async loadInvoice(invoiceId: string): Promise<Invoice> {
+        const result = await invoiceService.getInvoiceById(invoiceId);
+        if (!result.success) {
+            throw fromFireberryError(result.error, 'Failed to fetch invoice');
+        }
+        return unwrapRecord<Invoice>(result.data);
+    }
+}
+
+// Export a singleton instance
+export const pdfService = new PdfService();
@@ -0,0 +1,268 @@
+import * as functions from 'firebase-functions';
+import { fromFireberryError, ValidationError } from '../utils/errors';
+import { moneyEquals, roundMoney } from '../utils/money';
+import { unwrapRecord } from './fireberry/fireberry-service';
+import { productService, Product } from './fireberry/product-service';
+import { Order, OrderItem } from './fireberry/order-service';
+import { Invoice, InvoiceItem } from './fireberry/invoice-service';
+
+// What to do when the client-sent totals differ from the computed ones
+export type MismatchPolicy = 'reject' | 'overwrite';
+
+// Pricing configuration, read from `functions.config().pricing` by default
+export interface PricingConfig {
+    vatRate: number;             // e.g. 0.18
+    pricesIncludeVat: boolean;   // unit prices already include VAT
+    exemptCategories: number[];  // Product.categorycode values that are VAT exempt
+    mismatchPolicy: MismatchPolicy;
+}
+
+// A line to price
+export interface PricingLine {
+    productId?: string;
+    categorycode?: number;
+    quantity: number;
+    unitPrice: number;
+    discount?: number;           // line discount amount
+}
+
+// VAT charged at one rate, after the document discount
+export interface VatLine {
+    rate: number;
+    base: number;                // amount before VAT
+    vat: number;
+}
+
+// Computed document totals.
+// `total = subtotal - discount + tax` when prices exclude VAT;
+// when prices include VAT, `tax` is the VAT contained in `total = subtotal - discount`.
+export interface PricingTotals {
+    lines: { amount: number, vatRate: number }[];
+    subtotal: number;
+    discount: number;
+    tax: number;
+    total: number;
+    vat: VatLine[];              // VAT breakdown per rate
+}
+
+// A submitted amount that differs from the computed one
+export interface TotalMismatch {
+    field: string;
+    submitted: number;
+    expected: number;
+}
+
+/**
+ * Build the pricing config from Firebase config, with defaults
+ */
+export const loadPricingConfig = (): PricingConfig => {
+    const config = functions.config().pricing || {};
+
+    return {
+        vatRate: config.vat_rate !== undefined ? Number(config.vat_rate) : 0.18,
+        pricesIncludeVat: config.prices_include_vat !== undefined ? String(config.prices_include_vat) === 'true' : true,
+        exemptCategories: String(config.exempt_categories || '')
+            .split(',')
+            .map((value) => value.trim())
+            .filter(Boolean)
+            .map(Number),
+        mismatchPolicy: config.mismatch_policy === 'reject' ? 'reject' : 'overwrite'
+    };
+};
+
+export class PricingService {
+    private config: PricingConfig;
+
+    constructor(config: Partial<PricingConfig> = {}) {
+        this.config = { ...loadPricingConfig(), ...config };
+    }
+
+    /**
+     * VAT rate for a product category
+     */
+    getVatRate(categorycode?: number): number {
+        if (categorycode !== undefined && this.config.exemptCategories.includes(categorycode)) {
+            return 0;
+        }
+        return this.config.vatRate;
+    }
+
+    /**
+     * Compute line amounts and document totals.
+     * A document discount is spread over the lines in proportion to their amounts,
+     * and VAT is computed once per rate on the discounted amounts.
+     */
+    calculate(lines: PricingLine[], documentDiscount: number = 0): PricingTotals {
+        const priced = lines.map((line) => ({
+            amount: roundMoney(line.quantity * line.unitPrice - (line.discount || 0)),
+            vatRate: this.getVatRate(line.categorycode)
+        }));
+
+        const subtotal = roundMoney(priced.reduce((sum, line) => sum + line.amount, 0));
+        const discount = roundMoney(documentDiscount);
+
+        // Taxable amount per VAT rate
+        const byRate = new Map<number, number>();
+        for (const line of priced) {
+            byRate.set(line.vatRate, (byRate.get(line.vatRate) || 0) + line.amount);
+        }
+
+        let tax = 0;
+        const vat: VatLine[] = [];
+        let discountLeft = discount;
+        const rates = Array.from(byRate.keys());
+        rates.forEach((rate, index) => {
+            const amount = byRate.get(rate) as number;
+            const share = index === rates.length - 1
+                ? discountLeft
+                : roundMoney(subtotal === 0 ? 0 : discount * amount / subtotal);
+            discountLeft = roundMoney(discountLeft - share);
+
+            const taxable = amount - share;
+            const rateTax = this.config.pricesIncludeVat
+                ? roundMoney(taxable * rate / (1 + rate))
+                : roundMoney(taxable * rate);
+            tax += rateTax;
+            vat.push({
+                rate,
+                base: roundMoney(this.config.pricesIncludeVat ? taxable - rateTax : taxable),
+                vat: rateTax
+            });
+        });
+        tax = roundMoney(tax);
+
+        const total = this.config.pricesIncludeVat
+            ? roundMoney(subtotal - discount)
+            : roundMoney(subtotal - discount + tax);
+
+        return { lines: priced, subtotal, discount, tax, total, vat };
+    }
+
+    /**
+     * Fill in `categorycode` for lines with a product, when VAT exemptions are configured
+     */
+    async resolveCategories(lines: PricingLine[]): Promise<PricingLine[]> {
+        if (this.config.exemptCategories.length === 0) {
+            return lines;
+        }
+
+        const categories = new Map<string, number | undefined>();
+        for (const line of lines) {
+            if (!line.productId || line.categorycode !== undefined || categories.has(line.productId)) {
+                continue;
+            }
+
+            const result = await productService.getProductById(line.productId);
+            if (!result.success) {
+                throw fromFireberryError(result.error, `Failed to fetch product ${line.productId}`);
+            }
+            categories.set(line.productId, unwrapRecord<Product>(result.data).categorycode);
+        }
+
+        return lines.map((line) => (line.productId && categories.has(line.productId)
+            ? { ...line, categorycode: categories.get(line.productId) }
+            : line));
+    }
+
+    /**
+     * Compute the totals of document lines, each taxed at the VAT rate of its product category
+     */
+    async priceLines(lines: PricingLine[], documentDiscount: number = 0): Promise<PricingTotals> {
+        return this.calculate(await this.resolveCategories(lines), documentDiscount);
+    }
+
+    /**
+     * Recompute invoice item totals and invoice totals, then reconcile with the submitted values
+     */
+    async priceInvoice<T extends Pick<Invoice, 'items' | 'subtotal' | 'tax' | 'discount' | 'total' | 'vat'>>(invoice: T): Promise<T> {
+        const totals = await this.priceLines(invoice.items.map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discount: item.discount
+        })), invoice.discount || 0);
+
+        const mismatches: TotalMismatch[] = [];
+        const items = invoice.items.map((item, index): InvoiceItem => {
+            this.compare(`items[${index}].total`, item.total, totals.lines[index].amount, mismatches);
+            return { ...item, total: totals.lines[index].amount };
+        });
+        this.compare('subtotal', invoice.subtotal, totals.subtotal, mismatches);
+        this.compare('tax', invoice.tax, totals.tax, mismatches);
+        this.compare('total', invoice.total, totals.total, mismatches);
+
+        this.enforce(mismatches, 'Invoice');
+
+        return {
+            ...invoice,
+            items,
+            subtotal: totals.subtotal,
+            discount: totals.discount,
+            tax: totals.tax,
+            total: totals.total,
+            vat: totals.vat
+        };
+    }
+
+    /**
+     * Recompute order totals from its items and discount, then reconcile.
+     * The subtotal is the sum of the item quantities times their unit prices; each item is taxed at the rate of its
+     * product, after its share of the order discount.
+     * @throws ValidationError when the discount exceeds the subtotal
+     */
+    async priceOrder<T extends Partial<Order>>(order: T, items: OrderItem[] = []): Promise<T> {
+        const lines: PricingLine[] = items.map((item) => ({ productId: item.productid, quantity: item.quantity, unitPrice: item.unitprice }));
+        const subtotal = roundMoney(lines.reduce((sum, line) => sum + roundMoney(line.quantity * line.unitPrice), 0));
+
+        const discount = roundMoney(order.discount || 0);
+        if (discount > subtotal) {
+            throw new ValidationError(`Order discount of ${discount} exceeds the subtotal of ${subtotal}`,
+                [{ field: 'discount', message: `must not exceed ${subtotal}` }]);
+        }
+
+        const totals = await this.priceLines(lines, discount);
+
+        const mismatches: TotalMismatch[] = [];
+        this.compare('subtotal', order.subtotal, totals.subtotal, mismatches);
+        this.compare('tax', order.tax, totals.tax, mismatches);
+        this.compare('totalamount', order.totalamount, totals.total, mismatches);
+
+        this.enforce(mismatches, 'Order');
+
+        return {
+            ...order,
+            subtotal: totals.subtotal,
+            discount: totals.discount,
+            tax: totals.tax,
+            totalamount: totals.total
+        };
+    }
+
+    /**
+     * Compute an order line amount, reconciling it with the submitted one
+     */
+    priceOrderLine(quantity: number, unitPrice: number, submittedAmount?: number): number {
+        const amount = roundMoney(quantity * unitPrice);
+
+        const mismatches: TotalMismatch[] = [];
+        this.compare('amount', submittedAmount, amount, mismatches);
+        this.enforce(mismatches, 'Order item');
+
+        return amount;
+    }
+
+    private compare(field: string, submitted: number | undefined, expected: number, mismatches: TotalMismatch[]): void {
+        if (submitted !== undefined && submitted !== null && !moneyEquals(submitted, expected)) {
+            mismatches.push({ field, submitted, expected });
+        }
+    }
+
+    private enforce(mismatches: TotalMismatch[], document: string): void {
+        if (mismatches.length && this.config.mismatchPolicy === 'reject') {
+            throw new ValidationError(`${document} totals do not match the computed amounts`, mismatches);
+        }
+    }
+}
+
+// Export a singleton instance
+export const pricingService = new PricingService();
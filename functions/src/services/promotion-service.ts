@@ -0,0 +1,538 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { ConflictError, fromFireberryError, ValidationError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { unwrapRecord } from './fireberry/fireberry-service';
+import { productService, Product } from './fireberry/product-service';
+
+export type PromotionType = 'percent-off' | 'amount-off' | 'buy-x-get-y' | 'bundle-price';
+
+// Promotion rule stored in Firestore
+export interface Promotion {
+    id?: string;
+    name: string;
+    type: PromotionType;
+    active: boolean;
+    startsAt?: string;           // ISO date, inclusive
+    endsAt?: string;             // ISO date, inclusive
+    productIds?: string[];       // eligible products; with categoryCodes empty, every product is eligible
+    categoryCodes?: number[];    // eligible Product.categorycode values
+    customerSegments?: string[]; // only for these customer segments
+    couponCode?: string;         // only when this coupon is presented
+    stackable: boolean;          // can combine with other promotions on the same line
+    priority?: number;           // higher priorities are applied first
+    usageLimit?: number;         // maximum number of redemptions
+    usageCount?: number;         // maintained by the service
+    percent?: number;            // percent-off
+    amount?: number;             // amount-off, spread over the eligible lines
+    buyQuantity?: number;        // buy-x-get-y: buy this many...
+    getQuantity?: number;        // ...and get this many of the cheapest free
+    bundleQuantity?: number;     // bundle-price: this many eligible units...
+    bundlePrice?: number;        // ...for this price
+}
+
+// A cart line to evaluate
+export interface PromotionLine {
+    productId: string;
+    categorycode?: number;
+    quantity: number;
+    unitPrice: number;
+}
+
+// Evaluation context
+export interface PromotionContext {
+    couponCodes?: string[];
+    customerSegment?: string;
+    date?: string;               // defaults to today
+}
+
+// A cart line with its discount
+export interface DiscountedLine extends PromotionLine {
+    amount: number;              // quantity * unit price
+    discount: number;
+    promotionIds: string[];
+}
+
+// A promotion applied to the cart
+export interface AppliedPromotion {
+    promotionId: string;
+    name: string;
+    type: PromotionType;
+    couponCode?: string;
+    discount: number;
+}
+
+// Result of evaluating a cart
+export interface PromotionEvaluation {
+    lines: DiscountedLine[];
+    applied: AppliedPromotion[];
+    totalDiscount: number;
+    unmatchedCoupons: string[];  // presented coupons that did not apply
+}
+
+// A use of a promotion by a checkout or invoice
+export interface PromotionRedemption {
+    promotionId: string;
+    sourceType: 'checkout' | 'invoice';
+    sourceId: string;
+    discount: number;
+    createdBy?: string;
+    createdAt?: Timestamp;
+}
+
+export class PromotionService {
+    private collection = 'promotions';
+    private redemptionsCollection = 'promotionRedemptions';
+
+    /**
+     * List promotions
+     */
+    async listPromotions(activeOnly: boolean = false): Promise<Promotion[]> {
+        const query = activeOnly
+            ? db.collection(this.collection).where('active', '==', true)
+            : db.collection(this.collection);
+
+        const snapshot = await query.get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Promotion);
+    }
+
+    /**
+     * Get a promotion by ID
+     */
+    async getPromotion(id: string): Promise<Promotion | null> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        return doc.exists ? { id: doc.id, ...doc.data() } as Promotion : null;
+    }
+
+    /**
+     * Create a promotion
+     */
+    async createPromotion(promotion: Omit<Promotion, 'id' | 'usageCount'>): Promise<Promotion> {
+        this.checkRule(promotion);
+
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const data = { ...JSON.parse(JSON.stringify(promotion)), usageCount: 0 };
+        await docRef.set({
+            ...data,
+            createdAt: FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+
+        return { id: docRef.id, ...data };
+    }
+
+    /**
+     * Update a promotion
+     * @returns The updated promotion, or null if it does not exist
+     */
+    async updatePromotion(id: string, changes: Partial<Promotion>): Promise<Promotion | null> {
+        const existing = await this.getPromotion(id);
+        if (!existing) {
+            return null;
+        }
+
+        const updated = { ...existing, ...changes, id };
+        this.checkRule(updated);
+
+        await db.collection(this.collection).doc(id).update({
+            ...JSON.parse(JSON.stringify(changes)),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+
+        return updated;
+    }
+
+    /**
+     * Delete a promotion
+     * @returns False if it does not exist
+     */
+    async deletePromotion(id: string): Promise<boolean> {
+        const docRef = db.collection(this.collection).doc(id);
+        const doc = await docRef.get();
+        if (!doc.exists) {
+            return false;
+        }
+
+        await docRef.delete();
+        return true;
+    }
+
+    /**
+     * Look up promotions referenced by a document
+     * @throws ValidationError when an ID is unknown
+     */
+    async resolve(ids: string[]): Promise<Promotion[]> {
+        const promotions = await Promise.all(ids.map((id) => this.getPromotion(id)));
+
+        const unknown = ids.filter((id, index) => !promotions[index]);
+        if (unknown.length) {
+            throw new ValidationError(`Unknown promotion: ${unknown.join(', ')}`,
+                unknown.map((id) => ({ field: 'promotions', message: `${id} does not exist` })));
+        }
+
+        return promotions as Promotion[];
+    }
+
+    /**
+     * Apply the active promotions to a cart.
+     * Promotions are applied by priority; a non-stackable promotion only applies to
+     * lines without other discounts, and keeps later promotions off its lines.
+     */
+    async evaluate(cart: PromotionLine[], context: PromotionContext = {}): Promise<PromotionEvaluation> {
+        const date = context.date || new Date().toISOString().substring(0, 10);
+        const coupons = (context.couponCodes || []).map((code) => code.trim().toUpperCase());
+
+        const promotions = (await this.listPromotions(true))
+            .filter((promotion) => this.isApplicable(promotion, date, coupons, context.customerSegment));
+        const { lines, applied } = this.apply(promotions, cart);
+
+        const usedCoupons = applied.map((promotion) => promotion.couponCode?.toUpperCase()).filter(Boolean);
+
+        return {
+            lines,
+            applied,
+            totalDiscount: roundMoney(applied.reduce((sum, promotion) => sum + promotion.discount, 0)),
+            unmatchedCoupons: coupons.filter((code) => !usedCoupons.includes(code))
+        };
+    }
+
+    /**
+     * Apply the promotions a document references to its lines, as a checkout would.
+     * Each must be active, within its dates, under its usage cap, for the customer segment, and discount a line;
+     * referencing a coupon promotion counts as presenting its coupon.
+     * @returns The promotions applied, with the discount of each
+     * @throws ValidationError when a promotion is unknown or does not apply
+     */
+    async evaluateReferenced(ids: string[], cart: PromotionLine[], context: PromotionContext = {}): Promise<AppliedPromotion[]> {
+        if (ids.length === 0) {
+            return [];
+        }
+
+        const date = context.date || new Date().toISOString().substring(0, 10);
+        const promotions = await this.resolve(ids);
+        const coupons = promotions.map((promotion) => promotion.couponCode?.toUpperCase()).filter(Boolean) as string[];
+
+        const { applied } = this.apply(promotions.filter((promotion) => promotion.active &&
+            this.isApplicable(promotion, date, coupons, context.customerSegment)), await this.withCategories(promotions, cart));
+
+        const rejected = promotions.filter((promotion) => !applied.some((candidate) => candidate.promotionId === promotion.id));
+        if (rejected.length) {
+            throw new ValidationError(`Promotion does not apply: ${rejected.map((promotion) => promotion.name).join(', ')}`,
+                rejected.map((promotion) => ({ field: 'promotions', message: `${promotion.id} does not apply to this document` })));
+        }
+
+        return applied;
+    }
+
+    /**
+     * Record the promotions used by a checkout or invoice and count them against their usage caps.
+     * Recording the same source twice has no effect.
+     * @param enforceLimit - Reject with 409 when a promotion has reached its usage cap
+     */
+    async redeem(applied: AppliedPromotion[], source: {
+        sourceType: PromotionRedemption['sourceType'],
+        sourceId: string,
+        createdBy?: string
+    }, enforceLimit: boolean = true): Promise<void> {
+        if (applied.length === 0) {
+            return;
+        }
+
+        await db.runTransaction(async (transaction) => {
+            const promotionRefs = applied.map((promotion) => db.collection(this.collection).doc(promotion.promotionId));
+            const redemptionRefs = applied.map((promotion) => db.collection(this.redemptionsCollection)
+                .doc(`${promotion.promotionId}_${source.sourceType}_${source.sourceId}`));
+
+            const promotionDocs = await Promise.all(promotionRefs.map((ref) => transaction.get(ref)));
+            const redemptionDocs = await Promise.all(redemptionRefs.map((ref) => transaction.get(ref)));
+
+            applied.forEach((promotion, index) => {
+                if (redemptionDocs[index].exists) {
+                    return;
+                }
+
+                const data = promotionDocs[index].data() as Promotion | undefined;
+                if (enforceLimit && data?.usageLimit !== undefined && (data.usageCount || 0) >= data.usageLimit) {
+                    throw new ConflictError(`Promotion '${promotion.name}' has reached its usage limit`);
+                }
+
+                if (promotionDocs[index].exists) {
+                    transaction.update(promotionRefs[index], { usageCount: FieldValue.increment(1) });
+                }
+
+                const redemption: PromotionRedemption = {
+                    promotionId: promotion.promotionId,
+                    sourceType: source.sourceType,
+                    sourceId: source.sourceId,
+                    discount: promotion.discount,
+                    ...(source.createdBy ? { createdBy: source.createdBy } : {})
+                };
+                transaction.set(redemptionRefs[index], { ...redemption, createdAt: FieldValue.serverTimestamp() });
+            });
+        });
+    }
+
+    /**
+     * Undo the redemptions recorded for a source, e.g. when a checkout is rolled back
+     */
+    async release(applied: AppliedPromotion[], sourceType: PromotionRedemption['sourceType'], sourceId: string): Promise<void> {
+        if (applied.length === 0) {
+            return;
+        }
+
+        await db.runTransaction(async (transaction) => {
+            const redemptionRefs = applied.map((promotion) => db.collection(this.redemptionsCollection)
+                .doc(`${promotion.promotionId}_${sourceType}_${sourceId}`));
+            const redemptionDocs = await Promise.all(redemptionRefs.map((ref) => transaction.get(ref)));
+
+            applied.forEach((promotion, index) => {
+                if (!redemptionDocs[index].exists) {
+                    return;
+                }
+                transaction.delete(redemptionRefs[index]);
+                transaction.update(db.collection(this.collection).doc(promotion.promotionId), {
+                    usageCount: FieldValue.increment(-1)
+                });
+            });
+        });
+    }
+
+    /**
+     * Check the type-specific fields of a promotion rule
+     */
+    private checkRule(promotion: Partial<Promotion>): void {
+        const required: Record<PromotionType, (keyof Promotion)[]> = {
+            'percent-off': ['percent'],
+            'amount-off': ['amount'],
+            'buy-x-get-y': ['buyQuantity', 'getQuantity'],
+            'bundle-price': ['bundleQuantity', 'bundlePrice']
+        };
+
+        const missing = (required[promotion.type as PromotionType] || [])
+            .filter((field) => promotion[field] === undefined || promotion[field] === null);
+        if (missing.length) {
+            throw new ValidationError(`Promotion type '${promotion.type}' requires: ${missing.join(', ')}`,
+                missing.map((field) => ({ field, message: 'is required' })));
+        }
+
+        if (promotion.startsAt && promotion.endsAt && promotion.startsAt > promotion.endsAt) {
+            throw new ValidationError('Promotion must start before it ends', [{ field: 'endsAt', message: 'must be after startsAt' }]);
+        }
+    }
+
+    /**
+     * Apply promotions to a cart by priority
+     */
+    private apply(promotions: Promotion[], cart: PromotionLine[]): Pick<PromotionEvaluation, 'lines' | 'applied'> {
+        const lines: DiscountedLine[] = cart.map((line) => ({
+            ...line,
+            amount: roundMoney(line.quantity * line.unitPrice),
+            discount: 0,
+            promotionIds: []
+        }));
+        const locked = new Set<number>();
+        const applied: AppliedPromotion[] = [];
+
+        for (const promotion of [...promotions].sort((a, b) => (b.priority || 0) - (a.priority || 0))) {
+            const eligible = lines
+                .map((line, index) => index)
+                .filter((index) => !locked.has(index) &&
+                    (promotion.stackable || lines[index].discount === 0) &&
+                    this.isEligible(promotion, lines[index]));
+
+            const discounts = this.computeDiscounts(promotion, lines, eligible);
+
+            let total = 0;
+            discounts.forEach((discount, index) => {
+                const line = lines[index];
+                const capped = roundMoney(Math.min(discount, line.amount - line.discount));
+                if (capped <= 0) {
+                    return;
+                }
+                line.discount = roundMoney(line.discount + capped);
+                line.promotionIds.push(promotion.id as string);
+                total += capped;
+                if (!promotion.stackable) {
+                    locked.add(index);
+                }
+            });
+
+            if (total > 0) {
+                applied.push({
+                    promotionId: promotion.id as string,
+                    name: promotion.name,
+                    type: promotion.type,
+                    ...(promotion.couponCode ? { couponCode: promotion.couponCode } : {}),
+                    discount: roundMoney(total)
+                });
+            }
+        }
+
+        return { lines, applied };
+    }
+
+    /**
+     * Fill in the product category of cart lines that lack it, when a promotion is limited to categories
+     */
+    private async withCategories(promotions: Promotion[], cart: PromotionLine[]): Promise<PromotionLine[]> {
+        if (!promotions.some((promotion) => promotion.categoryCodes?.length)) {
+            return cart;
+        }
+
+        return Promise.all(cart.map(async (line) => {
+            if (line.categorycode !== undefined) {
+                return line;
+            }
+            const result = await productService.getProductById(line.productId);
+            if (!result.success) {
+                throw fromFireberryError(result.error, `Failed to fetch product ${line.productId}`);
+            }
+            return { ...line, categorycode: unwrapRecord<Product>(result.data).categorycode };
+        }));
+    }
+
+    private isApplicable(promotion: Promotion, date: string, coupons: string[], segment?: string): boolean {
+        if (promotion.startsAt && date < promotion.startsAt.substring(0, 10)) {
+            return false;
+        }
+        if (promotion.endsAt && date > promotion.endsAt.substring(0, 10)) {
+            return false;
+        }
+        if (promotion.usageLimit !== undefined && (promotion.usageCount || 0) >= promotion.usageLimit) {
+            return false;
+        }
+        if (promotion.couponCode && !coupons.includes(promotion.couponCode.toUpperCase())) {
+            return false;
+        }
+        if (promotion.customerSegments?.length && (!segment || !promotion.customerSegments.includes(segment))) {
+            return false;
+        }
+        return true;
+    }
+
+    private isEligible(promotion: Promotion, line: PromotionLine): boolean {
+        const products = promotion.productIds || [];
+        const categories = promotion.categoryCodes || [];
+
+        if (products.length === 0 && categories.length === 0) {
+            return true;
+        }
+
+        return products.includes(line.productId) ||
+            (line.categorycode !== undefined && categories.includes(line.categorycode));
+    }
+
+    /**
+     * Discount per line index for a promotion
+     */
+    private computeDiscounts(promotion: Promotion, lines: DiscountedLine[], eligible: number[]): Map<number, number> {
+        const discounts = new Map<number, number>();
+        const add = (index: number, amount: number) => discounts.set(index, (discounts.get(index) || 0) + amount);
+
+        // Whole eligible units, most expensive first, as runs of units of one line
+        const runs = eligible
+            .map((index) => ({ index, count: Math.floor(lines[index].quantity) }))
+            .filter((run) => run.count > 0)
+            .sort((a, b) => lines[b.index].unitPrice - lines[a.index].unitPrice);
+
+        // Split the units into consecutive groups of `size`. Groups within one run are identical and visited once with
+        // how often they repeat, so the work grows with the number of lines rather than with the quantities.
+        const groups = (size: number, visit: (segments: { index: number, count: number }[], repeat: number) => void) => {
+            let left = runs.reduce((sum, run) => sum + run.count, 0);
+            let current = 0;
+            while (left >= size) {
+                const run = runs[current];
+                if (run.count >= size) {
+                    const repeat = Math.floor(run.count / size);
+                    visit([{ index: run.index, count: size }], repeat);
+                    run.count -= repeat * size;
+                    left -= repeat * size;
+                } else {
+                    const segments: { index: number, count: number }[] = [];
+                    for (let needed = size; needed > 0;) {
+                        const taken = Math.min(needed, runs[current].count);
+                        segments.push({ index: runs[current].index, count: taken });
+                        runs[current].count -= taken;
+                        needed -= taken;
+                        if (runs[current].count === 0 && needed > 0) {
+                            current++;
+                        }
+                    }
+                    visit(segments, 1);
+                    left -= size;
+                }
+                if (runs[current].count === 0) {
+                    current++;
+                }
+            }
+        };
+
+        switch (promotion.type) {
+        case 'percent-off':
+            for (const index of eligible) {
+                add(index, roundMoney((lines[index].amount - lines[index].discount) * (promotion.percent || 0) / 100));
+            }
+            break;
+
+        case 'amount-off': {
+            const base = eligible.reduce((sum, index) => sum + lines[index].amount - lines[index].discount, 0);
+            if (base <= 0) {
+                break;
+            }
+            const amount = Math.min(promotion.amount || 0, base);
+            let left = roundMoney(amount);
+            eligible.forEach((index, position) => {
+                const share = position === eligible.length - 1
+                    ? left
+                    : roundMoney(amount * (lines[index].amount - lines[index].discount) / base);
+                left = roundMoney(left - share);
+                add(index, share);
+            });
+            break;
+        }
+
+        case 'buy-x-get-y': {
+            const groupSize = (promotion.buyQuantity || 0) + (promotion.getQuantity || 0);
+            if (groupSize <= 0) {
+                break;
+            }
+            // The cheapest units of each group, those after the first buyQuantity, are free
+            const buy = promotion.buyQuantity || 0;
+            groups(groupSize, (segments, repeat) => {
+                let position = 0;
+                for (const segment of segments) {
+                    const free = Math.max(0, position + segment.count - Math.max(position, buy));
+                    add(segment.index, repeat * free * lines[segment.index].unitPrice);
+                    position += segment.count;
+                }
+            });
+            break;
+        }
+
+        case 'bundle-price': {
+            const size = promotion.bundleQuantity || 0;
+            if (size <= 0) {
+                break;
+            }
+            groups(size, (segments, repeat) => {
+                const regular = segments.reduce((sum, segment) => sum + segment.count * lines[segment.index].unitPrice, 0);
+                const saving = regular - (promotion.bundlePrice || 0);
+                if (saving <= 0) {
+                    return;
+                }
+                for (const segment of segments) {
+                    add(segment.index, repeat * saving * segment.count * lines[segment.index].unitPrice / regular);
+                }
+            });
+            break;
+        }
+        }
+
+        discounts.forEach((amount, index) => discounts.set(index, roundMoney(amount)));
+        return discounts;
+    }
+}
+
+// Export a singleton instance
+export const promotionService = new PromotionService();
@@ -0,0 +1,182 @@
+import * as functions from 'firebase-functions';
+import { HttpMethod } from './fireberry/fireberry-service';
+import { Role } from '../middleware/auth-middleware';
+
+// A single allowlist rule for the Fireberry proxy.
+// Patterns are matched per path segment: '*' matches one segment,
+// '**' matches any remaining segments. The query string is ignored.
+export interface ProxyRule {
+    pattern: string;
+    methods: HttpMethod[];
+    roles: Role[];
+}
+
+// Proxy policy configuration
+export interface ProxyPolicyConfig {
+    rules: ProxyRule[];
+    maxPayloadBytes: number;
+}
+
+// Result of evaluating a proxied call against the policy
+export interface ProxyDecision {
+    allowed: boolean;
+    status: number;              // HTTP status to return when rejected
+    reason?: string;
+    endpoint: string;            // normalized endpoint
+    method: HttpMethod;
+    payloadBytes: number;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+// Default policy: read access for staff, writes only for managers, admins unrestricted
+export const DEFAULT_PROXY_POLICY: ProxyPolicyConfig = {
+    maxPayloadBytes: 64 * 1024,
+    rules: [
+        { pattern: 'api/record/product/**', methods: ['GET'], roles: ['cashier', 'manager'] },
+        { pattern: 'api/record/account/**', methods: ['GET'], roles: ['cashier', 'manager'] },
+        { pattern: 'api/record/crmorder/**', methods: ['GET'], roles: ['cashier', 'manager'] },
+        { pattern: 'api/record/invoiceno/**', methods: ['GET'], roles: ['cashier', 'manager'] },
+        { pattern: 'api/record/cases/**', methods: ['GET'], roles: ['cashier', 'technician', 'manager'] },
+        { pattern: 'api/query', methods: ['POST'], roles: ['cashier', 'technician', 'manager'] },
+        { pattern: 'api/record/**', methods: ['POST', 'PUT', 'PATCH'], roles: ['manager'] },
+        { pattern: '**', methods: HTTP_METHODS, roles: ['admin'] }
+    ]
+};
+
+export class ProxyPolicyService {
+    private config: ProxyPolicyConfig;
+
+    constructor(config?: ProxyPolicyConfig) {
+        this.config = config || this.loadConfig();
+    }
+
+    /**
+     * Load the policy from Firebase config (proxy.policy / proxy.max_payload_bytes),
+     * falling back to the default policy
+     */
+    private loadConfig(): ProxyPolicyConfig {
+        const proxyConfig = functions.config().proxy || {};
+        let rules = DEFAULT_PROXY_POLICY.rules;
+
+        if (proxyConfig.policy) {
+            try {
+                rules = JSON.parse(proxyConfig.policy);
+            } catch (error) {
+                console.error('Invalid proxy.policy config, using default policy:', error);
+            }
+        }
+
+        return {
+            rules,
+            maxPayloadBytes: Number(proxyConfig.max_payload_bytes) || DEFAULT_PROXY_POLICY.maxPayloadBytes
+        };
+    }
+
+    /**
+     * Normalize an endpoint and reject anything that could escape the Fireberry API root
+     * @returns Normalized endpoint, or null if the endpoint is unsafe
+     */
+    normalizeEndpoint(endpoint: string): string | null {
+        if (typeof endpoint !== 'string' || endpoint.trim() === '') {
+            return null;
+        }
+
+        const trimmed = endpoint.trim();
+
+        // Absolute URLs, protocol-relative URLs and backslashes are never allowed
+        if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed) || trimmed.startsWith('//') || trimmed.includes('\\')) {
+            return null;
+        }
+
+        const [path, query] = trimmed.split('?', 2);
+
+        let decodedPath: string;
+        try {
+            decodedPath = decodeURIComponent(path);
+        } catch {
+            return null;
+        }
+
+        // Reject traversal, including percent-encoded variants, and control characters
+        if (Array.from(decodedPath).some((char) => char.charCodeAt(0) < 0x20) || decodedPath.includes('\\')) {
+            return null;
+        }
+
+        const segments = decodedPath.replace(/^\/+/, '').split('/');
+        if (segments.some((segment) => segment === '..' || segment === '.')) {
+            return null;
+        }
+
+        const normalizedPath = path.replace(/^\/+/, '');
+        return query !== undefined ? `${normalizedPath}?${query}` : normalizedPath;
+    }
+
+    /**
+     * Match an endpoint path against a rule pattern
+     */
+    private matches(pattern: string, endpointPath: string): boolean {
+        const patternSegments = pattern.split('/').filter(Boolean);
+        const pathSegments = endpointPath.split('/').filter(Boolean);
+
+        for (let i = 0; i < patternSegments.length; i++) {
+            const segment = patternSegments[i];
+            if (segment === '**') {
+                return true;
+            }
+            if (i >= pathSegments.length) {
+                return false;
+            }
+            if (segment !== '*' && segment.toLowerCase() !== pathSegments[i].toLowerCase()) {
+                return false;
+            }
+        }
+
+        return patternSegments.length === pathSegments.length;
+    }
+
+    /**
+     * Evaluate a proxied call for the given role
+     */
+    evaluate(role: Role, endpoint: string, method: string | undefined, payload: any): ProxyDecision {
+        const normalizedMethod = (method || 'GET').toUpperCase() as HttpMethod;
+        const payloadBytes = payload === undefined ? 0 : Buffer.byteLength(JSON.stringify(payload));
+        const normalizedEndpoint = this.normalizeEndpoint(endpoint);
+
+        const decision: ProxyDecision = {
+            allowed: false,
+            status: 403,
+            endpoint: normalizedEndpoint || String(endpoint),
+            method: normalizedMethod,
+            payloadBytes
+        };
+
+        if (!HTTP_METHODS.includes(normalizedMethod)) {
+            return { ...decision, status: 400, reason: `Unsupported method: ${method}` };
+        }
+
+        if (!normalizedEndpoint) {
+            return { ...decision, status: 400, reason: 'Invalid endpoint' };
+        }
+
+        if (payloadBytes > this.config.maxPayloadBytes) {
+            return { ...decision, status: 413, reason: `Payload exceeds ${this.config.maxPayloadBytes} bytes` };
+        }
+
+        const endpointPath = normalizedEndpoint.split('?')[0];
+        const rule = this.config.rules.find((candidate) =>
+            candidate.roles.includes(role) &&
+            candidate.methods.includes(normalizedMethod) &&
+            this.matches(candidate.pattern, endpointPath)
+        );
+
+        if (!rule) {
+            return { ...decision, reason: `${normalizedMethod} ${endpointPath} is not allowed for role '${role}'` };
+        }
+
+        return { ...decision, allowed: true, status: 200 };
+    }
+}
+
+// Export a singleton instance
+export const proxyPolicyService = new ProxyPolicyService();
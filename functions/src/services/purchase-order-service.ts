@@ -0,0 +1,396 @@
+import { randomUUID } from 'crypto';
+import { DocumentSnapshot, FieldValue, Query, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { roundMoney } from '../utils/money';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { locationService } from './location-service';
+import { numberingService } from './numbering-service';
+import { outboxService } from './outbox-service';
+import { stockService } from './stock-service';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially-received' | 'received' | 'cancelled';
+
+// A product ordered from the supplier
+export interface PurchaseOrderLine {
+    id?: string;                 // line ID, referenced by receipts
+    productId: string;
+    inventoryItemId?: string;    // Fireberry inventory record whose `purchasePrice` follows the received cost
+    description?: string;
+    quantity: number;
+    unitCost: number;            // agreed cost per unit, before VAT
+    receivedQuantity?: number;
+    expectedDate?: string;       // ISO date; defaults to the order's expected date
+}
+
+// Purchase order stored in Firestore
+export interface PurchaseOrder {
+    id?: string;
+    number: string;
+    status: PurchaseOrderStatus;
+    supplier: string;
+    supplierContact?: string;
+    locationId: string;          // where the goods are received
+    expectedDate?: string;       // ISO date
+    lines: PurchaseOrderLine[];
+    total: number;               // sum of quantity * unit cost
+    notes?: string;
+    createdBy?: string;
+    sentBy?: string;
+    cancelledBy?: string;
+    createdAt?: Timestamp;
+    sentAt?: Timestamp;
+    receivedAt?: Timestamp;      // when the last line was received in full
+    cancelledAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+// Purchase order request
+export type PurchaseOrderInput = Pick<PurchaseOrder, 'supplier' | 'supplierContact' | 'expectedDate' | 'notes'> & {
+    locationId?: string;         // defaults to the branch default location
+    lines: PurchaseOrderLine[];
+};
+
+// Quantity received against a line
+export interface ReceivingLine {
+    lineId: string;
+    quantity: number;
+    unitCost?: number;           // actual cost per unit; defaults to the line's unit cost
+}
+
+// Receiving request
+export interface ReceivingInput {
+    lines: ReceivingLine[];
+    note?: string;
+}
+
+// A delivery booked against a purchase order, kept under the order
+export interface PurchaseReceipt {
+    id?: string;
+    purchaseOrderId: string;
+    locationId: string;
+    lines: (ReceivingLine & { productId: string, unitCost: number })[];
+    movementIds: string[];
+    note?: string;
+    createdBy?: string;
+    createdAt?: Timestamp;
+}
+
+// Purchase order list filters
+export interface PurchaseOrderQuery {
+    status?: PurchaseOrderStatus;
+    supplier?: string;
+    limit?: number;
+}
+
+export class PurchaseOrderService {
+    private collection = 'purchaseOrders';
+
+    /**
+     * Create a draft purchase order, numbered from the branch series
+     */
+    async createPurchaseOrder(input: PurchaseOrderInput, createdBy?: string, branchId?: string): Promise<PurchaseOrder> {
+        const locationId = await locationService.resolve(input.locationId, branchId);
+        const lines = this.prepareLines(input.lines);
+
+        const { number } = await numberingService.next('purchase-order', { branchId, createdBy });
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const order: PurchaseOrder = JSON.parse(JSON.stringify({
+            number,
+            status: 'draft',
+            supplier: input.supplier,
+            supplierContact: input.supplierContact,
+            locationId,
+            expectedDate: input.expectedDate,
+            lines,
+            total: this.total(lines),
+            notes: input.notes,
+            createdBy
+        }));
+        await docRef.set({ ...order, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() });
+
+        return { id: docRef.id, ...order };
+    }
+
+    /**
+     * Update a draft; orders sent to the supplier are no longer edited
+     */
+    async updatePurchaseOrder(id: string, changes: Partial<PurchaseOrderInput>): Promise<PurchaseOrder> {
+        const docRef = db.collection(this.collection).doc(id);
+        const locationId = changes.locationId ? await locationService.resolve(changes.locationId) : undefined;
+        const lines = changes.lines ? this.prepareLines(changes.lines) : undefined;
+
+        return db.runTransaction(async (transaction) => {
+            const order = this.fromDoc(await transaction.get(docRef), id);
+            if (order.status !== 'draft') {
+                throw new ConflictError(`Purchase order ${order.number} is ${order.status}; only drafts can be edited`);
+            }
+
+            const cleaned = JSON.parse(JSON.stringify({
+                ...changes,
+                locationId,
+                lines,
+                total: lines ? this.total(lines) : undefined
+            }));
+            transaction.update(docRef, { ...cleaned, updatedAt: FieldValue.serverTimestamp() });
+            return { ...order, ...cleaned };
+        });
+    }
+
+    /**
+     * Mark a draft as sent to the supplier
+     */
+    async send(id: string, sentBy?: string): Promise<PurchaseOrder> {
+        return this.transition(id, ['draft'], 'sent', { ...(sentBy ? { sentBy } : {}), sentAt: FieldValue.serverTimestamp() });
+    }
+
+    /**
+     * Cancel an order. Quantities already received stay in stock; the rest is no longer expected.
+     */
+    async cancel(id: string, cancelledBy?: string): Promise<PurchaseOrder> {
+        return this.transition(id, ['draft', 'sent', 'partially-received'], 'cancelled', {
+            ...(cancelledBy ? { cancelledBy } : {}),
+            cancelledAt: FieldValue.serverTimestamp()
+        });
+    }
+
+    /**
+     * Book a delivery: add the received quantities to the order lines, put them in stock at the order's location
+     * and update the product costs from the actual unit costs.
+     * @throws ConflictError when a line would be received beyond its ordered quantity
+     */
+    async receive(id: string, input: ReceivingInput, createdBy?: string): Promise<{ order: PurchaseOrder, receipt: PurchaseReceipt }> {
+        const docRef = db.collection(this.collection).doc(id);
+        const receiptRef = docRef.collection('receipts').doc(randomUUID());
+
+        // Reserve the quantities on the order first, so that two deliveries cannot both fill the same line
+        const { order, receipt } = await db.runTransaction(async (transaction) => {
+            const current = this.fromDoc(await transaction.get(docRef), id);
+            if (current.status !== 'sent' && current.status !== 'partially-received') {
+                throw new ConflictError(`Purchase order ${current.number} is ${current.status}; only sent orders can be received`);
+            }
+
+            const lines = current.lines.map((line) => ({ ...line }));
+            const received: PurchaseReceipt['lines'] = [];
+            for (const item of input.lines) {
+                const line = lines.find((candidate) => candidate.id === item.lineId);
+                if (!line) {
+                    throw new ValidationError(`Purchase order line ${item.lineId} not found`, [{ field: 'lines', message: 'unknown lineId' }]);
+                }
+
+                const receivedQuantity = (line.receivedQuantity || 0) + item.quantity;
+                if (receivedQuantity > line.quantity) {
+                    throw new ConflictError(`Line ${item.lineId} would be received beyond its ordered quantity: `
+                        + `${line.quantity - (line.receivedQuantity || 0)} outstanding, ${item.quantity} received`);
+                }
+                line.receivedQuantity = receivedQuantity;
+                received.push({ ...item, productId: line.productId, unitCost: item.unitCost ?? line.unitCost });
+            }
+
+            const status = this.receivingStatus(lines);
+            const data: PurchaseReceipt = JSON.parse(JSON.stringify({
+                purchaseOrderId: id,
+                locationId: current.locationId,
+                lines: received,
+                movementIds: [],
+                note: input.note,
+                createdBy
+            }));
+
+            transaction.update(docRef, {
+                lines,
+                status,
+                ...(status === 'received' ? { receivedAt: FieldValue.serverTimestamp() } : {}),
+                updatedAt: FieldValue.serverTimestamp()
+            });
+            transaction.create(receiptRef, { ...data, createdAt: FieldValue.serverTimestamp() });
+            return { order: { ...current, lines, status }, receipt: { id: receiptRef.id, ...data } };
+        });
+
+        try {
+            const movements = await stockService.post(receipt.lines.map((line) => ({
+                productId: line.productId,
+                quantity: line.quantity,
+                reason: 'receiving',
+                locationId: receipt.locationId,
+                sourceType: 'purchase-order',
+                sourceId: id,
+                note: `${order.number} receipt ${receiptRef.id}`
+            })), { createdBy });
+            receipt.movementIds = movements.map((movement) => movement.id as string);
+            await receiptRef.update({ movementIds: receipt.movementIds });
+        } catch (error) {
+            await this.release(id, receipt);
+            throw error;
+        }
+
+        await this.updateCosts(order, receipt, createdBy);
+        return { order, receipt };
+    }
+
+    /**
+     * Get a purchase order by ID
+     */
+    async getPurchaseOrder(id: string): Promise<PurchaseOrder | null> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        return doc.exists ? { id: doc.id, ...doc.data() } as PurchaseOrder : null;
+    }
+
+    /**
+     * List purchase orders, newest first
+     */
+    async listPurchaseOrders(query: PurchaseOrderQuery = {}): Promise<PurchaseOrder[]> {
+        let ref: Query = db.collection(this.collection);
+        if (query.supplier) {
+            ref = ref.where('supplier', '==', query.supplier);
+        }
+        if (query.status) {
+            ref = ref.where('status', '==', query.status);
+        }
+
+        const snapshot = await ref.orderBy('createdAt', 'desc').limit(query.limit || 50).get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as PurchaseOrder);
+    }
+
+    /**
+     * Quantities of each product ordered and not yet received, on drafts and open orders
+     */
+    async outstanding(): Promise<Map<string, number>> {
+        const snapshot = await db.collection(this.collection)
+            .where('status', 'in', ['draft', 'sent', 'partially-received'])
+            .get();
+
+        const quantities = new Map<string, number>();
+        for (const doc of snapshot.docs) {
+            for (const line of (doc.data() as PurchaseOrder).lines) {
+                const open = line.quantity - (line.receivedQuantity || 0);
+                quantities.set(line.productId, (quantities.get(line.productId) || 0) + open);
+            }
+        }
+        return quantities;
+    }
+
+    /**
+     * Average days from sending an order to receiving it in full, per supplier, over orders completed since a date
+     */
+    async leadTimes(since: Date): Promise<Map<string, number>> {
+        const snapshot = await db.collection(this.collection)
+            .where('status', '==', 'received')
+            .where('receivedAt', '>=', Timestamp.fromDate(since))
+            .get();
+
+        const samples = new Map<string, number[]>();
+        for (const doc of snapshot.docs) {
+            const order = doc.data() as PurchaseOrder;
+            if (order.sentAt && order.receivedAt) {
+                const days = (order.receivedAt.toMillis() - order.sentAt.toMillis()) / (24 * 60 * 60 * 1000);
+                samples.set(order.supplier, [...(samples.get(order.supplier) || []), days]);
+            }
+        }
+
+        return new Map([...samples].map(([supplier, days]) => [supplier, days.reduce((sum, value) => sum + value, 0) / days.length]));
+    }
+
+    /**
+     * Deliveries booked against a purchase order, oldest first
+     */
+    async listReceipts(id: string): Promise<PurchaseReceipt[]> {
+        const snapshot = await db.collection(this.collection).doc(id).collection('receipts').orderBy('createdAt').get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as PurchaseReceipt);
+    }
+
+    /**
+     * Undo the reservation of a receipt whose stock movements failed
+     */
+    private async release(id: string, receipt: PurchaseReceipt): Promise<void> {
+        const docRef = db.collection(this.collection).doc(id);
+
+        await db.runTransaction(async (transaction) => {
+            const order = this.fromDoc(await transaction.get(docRef), id);
+            const lines = order.lines.map((line) => {
+                const quantity = receipt.lines
+                    .filter((item) => item.lineId === line.id)
+                    .reduce((sum, item) => sum + item.quantity, 0);
+                return { ...line, receivedQuantity: (line.receivedQuantity || 0) - quantity };
+            });
+
+            transaction.update(docRef, {
+                lines,
+                status: order.status === 'cancelled' ? order.status : this.receivingStatus(lines),
+                receivedAt: FieldValue.delete(),
+                updatedAt: FieldValue.serverTimestamp()
+            });
+            transaction.delete(docRef.collection('receipts').doc(receipt.id as string));
+        });
+    }
+
+    /**
+     * Write the received unit costs to Fireberry through the outbox: `ProductCost` on the product and,
+     * when the line names an inventory record, its `purchasePrice`. A failed write stays in the outbox for the worker.
+     * Never throws: the goods are in stock by now, and failing the request would have them received again on a retry.
+     */
+    private async updateCosts(order: PurchaseOrder, receipt: PurchaseReceipt, createdBy?: string): Promise<void> {
+        const entryIds: string[] = [];
+        try {
+            for (const item of receipt.lines) {
+                const line = order.lines.find((candidate) => candidate.id === item.lineId);
+                entryIds.push((await outboxService.enqueue('updateProduct', { id: item.productId, changes: { ProductCost: item.unitCost } }, { createdBy })).id as string);
+                if (line?.inventoryItemId) {
+                    entryIds.push((await outboxService.enqueue('updateInventory', { id: line.inventoryItemId, changes: { purchasePrice: item.unitCost } }, { createdBy })).id as string);
+                }
+            }
+        } catch (error) {
+            console.error(`Cost update of ${order.number} receipt ${receipt.id} could not be queued:`, (error as Error).message);
+        }
+
+        try {
+            for (const id of entryIds) {
+                await outboxService.replayEntry(id);
+            }
+        } catch (error) {
+            console.warn('Cost update deferred to the outbox worker:', (error as Error).message);
+        }
+    }
+
+    private async transition(id: string, from: PurchaseOrderStatus[], to: PurchaseOrderStatus, fields: Record<string, unknown>): Promise<PurchaseOrder> {
+        const docRef = db.collection(this.collection).doc(id);
+
+        return db.runTransaction(async (transaction) => {
+            const order = this.fromDoc(await transaction.get(docRef), id);
+            if (!from.includes(order.status)) {
+                throw new ConflictError(`Purchase order ${order.number} is ${order.status}`);
+            }
+            transaction.update(docRef, { ...fields, status: to, updatedAt: FieldValue.serverTimestamp() });
+            return { ...order, status: to };
+        });
+    }
+
+    private prepareLines(lines: PurchaseOrderLine[]): PurchaseOrderLine[] {
+        return lines.map((line) => {
+            if (line.quantity <= 0) {
+                throw new ValidationError(`Purchase order line for product ${line.productId} must order a positive quantity`);
+            }
+            return { ...line, id: line.id || randomUUID(), unitCost: roundMoney(line.unitCost), receivedQuantity: 0 };
+        });
+    }
+
+    private receivingStatus(lines: PurchaseOrderLine[]): PurchaseOrderStatus {
+        if (lines.every((line) => (line.receivedQuantity || 0) >= line.quantity)) {
+            return 'received';
+        }
+        return lines.some((line) => (line.receivedQuantity || 0) > 0) ? 'partially-received' : 'sent';
+    }
+
+    private total(lines: PurchaseOrderLine[]): number {
+        return roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+    }
+
+    private fromDoc(doc: DocumentSnapshot, id: string): PurchaseOrder {
+        if (!doc.exists) {
+            throw new NotFoundError(`Purchase order ${id} not found`);
+        }
+        return { id: doc.id, ...doc.data() } as PurchaseOrder;
+    }
+}
+
+// Export a singleton instance
+export const purchaseOrderService = new PurchaseOrderService();
@@ -0,0 +1,281 @@
+import * as functions from 'firebase-functions';
+import { EscPosBuilder } from '../utils/escpos';
+import { fromFireberryError } from '../utils/errors';
+import { FireberryResponse, unwrapRecord, unwrapRecords } from './fireberry/fireberry-service';
+import { invoiceService, Invoice } from './fireberry/invoice-service';
+import { orderService, Order, OrderItem } from './fireberry/order-service';
+import { repairService, RepairTicket } from './fireberry/repair-service';
+import { paymentService, PaymentMethod } from './payment-service';
+import { DOCUMENT_TEMPLATES, PAYMENT_METHOD_LABELS } from './pdf-service';
+import { loadBusinessProfile } from './business-profile';
+
+export type ReceiptFormat = 'escpos' | 'text';
+
+// Code printed at the bottom of a receipt, encoding the document number
+export type ReceiptCode = 'qr' | 'barcode' | 'none';
+
+// Receipt printer configuration, read from `functions.config().receipts` by default
+export interface ReceiptConfig {
+    width: number;               // characters per line: 48 on 80 mm paper, 32 on 58 mm
+    codePage: number;            // `ESC t` table with Hebrew glyphs (15 is PC862 on Epson printers)
+    code: ReceiptCode;
+    footer?: string;             // closing line on sales receipts
+    repairTerms?: string;        // terms printed on repair intake slips
+}
+
+// Per-request overrides
+export interface ReceiptOptions {
+    format?: ReceiptFormat;
+    width?: number;
+    code?: ReceiptCode;
+}
+
+// A rendered receipt: the ESC/POS command stream and its plain-text preview
+export interface Receipt {
+    fileName: string;
+    content: Buffer;
+    text: string;
+}
+
+const REPAIR_PRIORITY_LABELS: Record<RepairTicket['priority'], string> = {
+    'low': 'נמוכה',
+    'medium': 'רגילה',
+    'high': 'גבוהה',
+    'urgent': 'דחופה'
+};
+
+/**
+ * Build the receipt printer config from Firebase config, with defaults
+ */
+export const loadReceiptConfig = (): ReceiptConfig => {
+    const config = functions.config().receipts || {};
+
+    return JSON.parse(JSON.stringify({
+        width: config.width !== undefined ? Number(config.width) : 48,
+        codePage: config.code_page !== undefined ? Number(config.code_page) : 15,
+        code: config.code || 'qr',
+        footer: config.footer,
+        repairTerms: config.repair_terms
+    }));
+};
+
+const money = (value: number) => value.toFixed(2);
+
+const day = (value?: string) => (value ? value.substring(0, 10) : '');
+
+export class ReceiptService {
+    private config: ReceiptConfig;
+
+    constructor(config: Partial<ReceiptConfig> = {}) {
+        this.config = { ...loadReceiptConfig(), ...config };
+    }
+
+    /**
+     * Print an invoice, receipt, quote or credit note with its items, totals and payments
+     */
+    async invoiceReceipt(invoiceId: string, options: ReceiptOptions = {}): Promise<Receipt> {
+        const invoice = await this.load<Invoice>(() => invoiceService.getInvoiceById(invoiceId), 'Failed to fetch invoice');
+        const template = DOCUMENT_TEMPLATES[invoice.type];
+        const number = invoice.number || invoiceId;
+
+        const printer = this.header(options);
+        printer
+            .text(`${template.title} ${invoice.number || ''}`.trim(), { align: 'center', bold: true })
+            .row('תאריך', day(invoice.date));
+        if (invoice.customerName) {
+            printer.row('לכבוד', invoice.customerName);
+        }
+        if (invoice.originalInvoiceId) {
+            printer.row('זיכוי עבור חשבונית', invoice.originalInvoiceId);
+        }
+        printer.rule();
+
+        for (const item of invoice.items) {
+            printer
+                .text(item.description ? `${item.productName} - ${item.description}` : item.productName)
+                .row(`${item.quantity} x ${money(item.unitPrice)}`, money(item.quantity * item.unitPrice));
+            if (item.discount) {
+                printer.row('הנחה', money(-item.discount));
+            }
+        }
+        printer.rule();
+
+        printer.row('סכום ביניים', money(invoice.subtotal));
+        if (invoice.discount) {
+            printer.row('הנחה', money(-invoice.discount));
+        }
+        printer
+            .row('מע"מ', money(invoice.tax))
+            .row('סה"כ', money(invoice.total), { bold: true, large: true });
+
+        if (template.showPayments || invoice.paymentMethod) {
+            const payments = (await paymentService.listPayments(invoiceId)).filter((payment) => payment.status === 'completed');
+            const rows = payments.length
+                ? payments.map((payment) => ({
+                    method: payment.method,
+                    amount: payment.kind === 'refund' ? -payment.amount : payment.amount,
+                    reference: payment.cardLast4 || payment.reference,
+                    change: payment.change
+                }))
+                : invoice.paymentMethod
+                    ? [{ method: invoice.paymentMethod as PaymentMethod, amount: invoice.total, reference: undefined, change: undefined }]
+                    : [];
+
+            if (rows.length) {
+                printer.rule();
+                for (const row of rows) {
+                    printer.row(`${PAYMENT_METHOD_LABELS[row.method] || row.method}${row.reference ? ` (${row.reference})` : ''}`, money(row.amount));
+                    if (row.change) {
+                        printer.row('עודף', money(row.change));
+                    }
+                }
+            }
+        }
+
+        if (template.footer) {
+            printer.feed().text(template.footer, { align: 'center' });
+        }
+        if (this.config.footer && invoice.type !== 'quote') {
+            printer.feed().text(this.config.footer, { align: 'center' });
+        }
+
+        return this.finish(printer, number, options);
+    }
+
+    /**
+     * Print an order with its items and totals
+     */
+    async orderReceipt(orderId: string, options: ReceiptOptions = {}): Promise<Receipt> {
+        const order = await this.load<Order>(() => orderService.getOrderById(orderId), 'Failed to fetch order');
+        const itemsResult = await orderService.getOrderItems(orderId);
+        if (!itemsResult.success) {
+            throw fromFireberryError(itemsResult.error, 'Failed to fetch order items');
+        }
+        const items = unwrapRecords<OrderItem>(itemsResult.data);
+        const number = order.name || orderId;
+
+        const printer = this.header(options);
+        printer
+            .text(`הזמנה ${number}`, { align: 'center', bold: true })
+            .row('תאריך', day(order.orderdate));
+        if (order.companyname) {
+            printer.row('לכבוד', order.companyname);
+        }
+        printer.rule();
+
+        for (const item of items) {
+            printer
+                .text(item.name)
+                .row(`${item.quantity} x ${money(item.unitprice)}`, money(item.amount));
+        }
+        printer.rule();
+
+        if (order.subtotal !== undefined) {
+            printer.row('סכום ביניים', money(order.subtotal));
+        }
+        if (order.discount) {
+            printer.row('הנחה', money(-order.discount));
+        }
+        if (order.tax !== undefined) {
+            printer.row('מע"מ', money(order.tax));
+        }
+        const total = order.totalamount ?? items.reduce((sum, item) => sum + item.amount, 0);
+        printer.row('סה"כ', money(total), { bold: true, large: true });
+        if (order.paymentterms) {
+            printer.row('תנאי תשלום', order.paymentterms);
+        }
+
+        if (this.config.footer) {
+            printer.feed().text(this.config.footer, { align: 'center' });
+        }
+
+        return this.finish(printer, number, options);
+    }
+
+    /**
+     * Print the intake slip handed to the customer when a device is left for repair
+     */
+    async repairSlip(repairId: string, options: ReceiptOptions = {}): Promise<Receipt> {
+        const ticket = await this.load<RepairTicket>(() => repairService.getRepairById(repairId), 'Failed to fetch repair ticket');
+        const number = ticket.ticketNumber || repairId;
+
+        const printer = this.header(options);
+        printer
+            .text('תעודת קבלה לתיקון', { align: 'center', bold: true })
+            .text(number, { align: 'center', bold: true })
+            .row('תאריך', day(ticket.dateCreated))
+            .rule()
+            .row('לקוח', ticket.customerName)
+            .row('טלפון', ticket.customerPhone)
+            .rule()
+            .row('מכשיר', `${ticket.deviceType} ${ticket.deviceModel}`.trim());
+        if (ticket.serialNumber) {
+            printer.row('מספר סידורי', ticket.serialNumber);
+        }
+        printer
+            .row('דחיפות', REPAIR_PRIORITY_LABELS[ticket.priority] || ticket.priority)
+            .text('תיאור התקלה:', { bold: true })
+            .text(ticket.issue)
+            .rule()
+            .row('הערכת עלות', money(ticket.estimatedCost));
+        if (ticket.estimatedCompletion) {
+            printer.row('מועד משוער', day(ticket.estimatedCompletion));
+        }
+        if (this.config.repairTerms) {
+            printer.feed().text(this.config.repairTerms);
+        }
+        printer
+            .feed(2)
+            .row('חתימת הלקוח', '_'.repeat(20));
+
+        return this.finish(printer, number, options);
+    }
+
+    /**
+     * Start a receipt with the business details
+     */
+    private header(options: ReceiptOptions): EscPosBuilder {
+        const profile = loadBusinessProfile();
+        const printer = new EscPosBuilder({ width: options.width || this.config.width, codePage: this.config.codePage, rtl: true });
+
+        if (profile.name) {
+            printer.text(profile.name, { align: 'center', bold: true, large: true });
+        }
+        [
+            profile.vatId ? `עוסק מורשה ${profile.vatId}` : undefined,
+            profile.address,
+            profile.phone ? `טל' ${profile.phone}` : undefined
+        ].filter((line): line is string => Boolean(line)).forEach((line) => printer.text(line, { align: 'center' }));
+
+        return printer.rule('=');
+    }
+
+    /**
+     * Print the document number code, cut the paper and collect the output
+     */
+    private finish(printer: EscPosBuilder, number: string, options: ReceiptOptions): Receipt {
+        const code = options.code || this.config.code;
+        if (code !== 'none') {
+            printer.feed();
+            if (code === 'barcode') {
+                printer.barcode(number);
+            } else {
+                printer.qrCode(number);
+            }
+        }
+        printer.feed(3).cut();
+
+        return { fileName: `${number}.bin`, content: printer.toBuffer(), text: printer.toText() };
+    }
+
+    private async load<T>(call: () => Promise<FireberryResponse<T>>, failure: string): Promise<T> {
+        const result = await call();
+        if (!result.success) {
+            throw fromFireberryError(result.error, failure);
+        }
+        return unwrapRecord<T>(result.data);
+    }
+}
+
+// Export a singleton instance
+export const receiptService = new ReceiptService();
@@ -0,0 +1,236 @@
+import * as functions from 'firebase-functions';
+import { roundMoney } from '../utils/money';
+import { fromFireberryError, ValidationError } from '../utils/errors';
+import { unwrapRecord, unwrapRecords } from './fireberry/fireberry-service';
+import { productService, Product, PaginationParams } from './fireberry/product-service';
+import { inventoryService, InventoryItem } from './fireberry/inventory-service';
+import { stockService } from './stock-service';
+import { purchaseOrderService, PurchaseOrder } from './purchase-order-service';
+
+// Reorder configuration, read from `functions.config().reorder` by default
+export interface ReorderConfig {
+    lookbackDays: number;        // sales history the daily average is taken over
+    leadTimeDays: number;        // lead time for suppliers without completed purchase orders
+    safetyStockDays: number;     // days of average sales kept as safety stock
+    coverDays: number;           // days of sales an order covers beyond the lead time
+}
+
+// A product that has reached its reorder point
+export interface ReorderSuggestion {
+    productId: string;
+    productName: string;
+    catalognumber?: string;
+    supplier: string | null;     // `Product.vendorname`, else the `supplier` of its inventory record
+    inventoryItemId?: string;    // Fireberry inventory record of the product
+    averageDailySales: number;
+    leadTimeDays: number;
+    safetyStock: number;
+    reorderPoint: number;        // average sales over the lead time plus the safety stock
+    onHand: number;              // ledger quantity, including stock in transit between locations
+    onOrder: number;             // ordered on draft and open purchase orders, not yet received
+    suggestedQuantity: number;
+    unitCost?: number;           // `Product.ProductCost`
+}
+
+// Suggestions of one supplier
+export interface SupplierSuggestions {
+    supplier: string | null;     // null for products without a vendor name or supplier
+    items: ReorderSuggestion[];
+    total: number;               // suggested quantities at unit cost
+}
+
+// Which suggestions to turn into purchase orders
+export interface ReorderPurchaseInput {
+    suppliers?: string[];        // defaults to every supplier with suggestions
+    locationId?: string;         // where the orders are received
+    expectedDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the reorder config from Firebase config, with defaults
+ */
+export const loadReorderConfig = (): ReorderConfig => {
+    const config = functions.config().reorder || {};
+    const number = (value: unknown, fallback: number) => (value !== undefined ? Number(value) : fallback);
+
+    return {
+        lookbackDays: number(config.lookback_days, 90),
+        leadTimeDays: number(config.lead_time_days, 7),
+        safetyStockDays: number(config.safety_stock_days, 7),
+        coverDays: number(config.cover_days, 14)
+    };
+};
+
+export class ReorderService {
+    private config: ReorderConfig;
+
+    constructor(config: Partial<ReorderConfig> = {}) {
+        this.config = { ...loadReorderConfig(), ...config };
+    }
+
+    /**
+     * Suggest what to order, grouped by supplier. A product is suggested once its stock plus open orders
+     * falls to its reorder point; the quantity brings it back to the reorder point plus `coverDays` of sales.
+     * Sales are read from the stock ledger, where every checkout, return and repair part is recorded.
+     */
+    async suggest(): Promise<SupplierSuggestions[]> {
+        const suggestions = (await this.collect()).map(({ suggestion }) => suggestion);
+
+        const groups = new Map<string | null, ReorderSuggestion[]>();
+        for (const suggestion of suggestions) {
+            groups.set(suggestion.supplier, [...(groups.get(suggestion.supplier) || []), suggestion]);
+        }
+
+        return [...groups]
+            .map(([supplier, items]) => ({
+                supplier,
+                items: items.sort((a, b) => a.productName.localeCompare(b.productName)),
+                total: roundMoney(items.reduce((sum, item) => sum + item.suggestedQuantity * (item.unitCost || 0), 0))
+            }))
+            .sort((a, b) => (a.supplier === null ? 1 : b.supplier === null ? -1 : a.supplier.localeCompare(b.supplier)));
+    }
+
+    /**
+     * The products at their reorder point as inventory items, for the legacy low-stock listing:
+     * the inventory record of each product, or the product itself, with the reorder point as `reorderThreshold`
+     */
+    async lowStock(params: PaginationParams = {}): Promise<InventoryItem[]> {
+        const pageSize = params.pageSize || 50;
+        const pageNumber = params.pageNumber || 1;
+
+        return (await this.collect())
+            .map(({ suggestion, product, inventory }): InventoryItem => ({
+                ...product,
+                ...inventory,
+                reorderThreshold: Math.ceil(suggestion.reorderPoint),
+                ...(suggestion.supplier ? { supplier: suggestion.supplier } : {})
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .slice((pageNumber - 1) * pageSize, pageNumber * pageSize);
+    }
+
+    /**
+     * The products at their reorder point, with their product and inventory records
+     */
+    private async collect(): Promise<{ suggestion: ReorderSuggestion, product: Product, inventory?: InventoryItem }[]> {
+        const since = new Date(Date.now() - this.config.lookbackDays * DAY_MS);
+        const [consumed, levels, onOrder, leadTimes, inventoryItems] = await Promise.all([
+            stockService.consumption(since),
+            stockService.listLevels(),
+            purchaseOrderService.outstanding(),
+            purchaseOrderService.leadTimes(since),
+            this.loadInventory()
+        ]);
+        const quantities = new Map(levels.map((level) => [level.productId, level.quantity]));
+
+        const collected: { suggestion: ReorderSuggestion, product: Product, inventory?: InventoryItem }[] = [];
+        for (const [productId, quantity] of consumed) {
+            if (quantity <= 0) {
+                continue;
+            }
+
+            const product = await this.loadProduct(productId);
+            const inventory = inventoryItems.get(productId);
+            const supplier = product.vendorname || inventory?.supplier || null;
+            const averageDailySales = quantity / this.config.lookbackDays;
+            const leadTimeDays = (supplier ? leadTimes.get(supplier) : undefined) ?? this.config.leadTimeDays;
+            const safetyStock = averageDailySales * this.config.safetyStockDays;
+            const reorderPoint = averageDailySales * leadTimeDays + safetyStock;
+            const onHand = quantities.get(productId) ?? product.itemquantity ?? 0;
+            const ordered = onOrder.get(productId) || 0;
+
+            if (onHand + ordered > reorderPoint) {
+                continue;
+            }
+
+            const suggestion: ReorderSuggestion = JSON.parse(JSON.stringify({
+                productId,
+                productName: product.name,
+                catalognumber: product.catalognumber,
+                supplier,
+                inventoryItemId: inventory?.id,
+                averageDailySales: roundMoney(averageDailySales),
+                leadTimeDays: roundMoney(leadTimeDays),
+                safetyStock: roundMoney(safetyStock),
+                reorderPoint: roundMoney(reorderPoint),
+                onHand,
+                onOrder: ordered,
+                suggestedQuantity: Math.max(1, Math.ceil(reorderPoint + averageDailySales * this.config.coverDays - onHand - ordered)),
+                unitCost: product.ProductCost ?? undefined
+            }));
+            collected.push({ suggestion, product, inventory });
+        }
+        return collected;
+    }
+
+    /**
+     * Turn the current suggestions into one draft purchase order per supplier.
+     * Products without a supplier are left out; they cannot be ordered from anyone.
+     */
+    async createPurchaseOrders(input: ReorderPurchaseInput, createdBy?: string, branchId?: string): Promise<PurchaseOrder[]> {
+        const groups = (await this.suggest()).filter((group): group is SupplierSuggestions & { supplier: string } =>
+            group.supplier !== null && (!input.suppliers || input.suppliers.includes(group.supplier)));
+        if (groups.length === 0) {
+            throw new ValidationError('There are no reorder suggestions to order', [{ field: 'suppliers', message: 'no suggestions' }]);
+        }
+
+        const orders: PurchaseOrder[] = [];
+        for (const group of groups) {
+            orders.push(await purchaseOrderService.createPurchaseOrder({
+                supplier: group.supplier,
+                locationId: input.locationId,
+                expectedDate: input.expectedDate,
+                notes: 'Created from reorder suggestions',
+                lines: group.items.map((item) => ({
+                    productId: item.productId,
+                    description: item.productName,
+                    quantity: item.suggestedQuantity,
+                    unitCost: item.unitCost || 0,
+                    inventoryItemId: item.inventoryItemId
+                }))
+            }, createdBy, branchId));
+        }
+        return orders;
+    }
+
+    /**
+     * Every inventory record by product, page by page, as for the products of a stocktake
+     */
+    private async loadInventory(): Promise<Map<string, InventoryItem>> {
+        const pageSize = 50;
+        const items: InventoryItem[] = [];
+
+        for (let pageNumber = 1; ; pageNumber++) {
+            const result = await inventoryService.getAllInventory({ pageSize, pageNumber });
+            if (!result.success) {
+                throw fromFireberryError(result.error, 'Failed to fetch inventory');
+            }
+
+            const page = unwrapRecords<InventoryItem>(result.data);
+            items.push(...page);
+
+            const data = result.data as any;
+            const total: number | undefined = data?.data?.Total_Records ?? data?.Total_Records;
+            if (page.length === 0 || (total !== undefined ? items.length >= total : page.length < pageSize)) {
+                break;
+            }
+        }
+
+        return new Map(items
+            .filter((item) => item.productid)
+            .map((item) => [item.productid as string, item]));
+    }
+
+    private async loadProduct(productId: string): Promise<Product> {
+        const result = await productService.getProductById(productId);
+        if (!result.success) {
+            throw fromFireberryError(result.error, `Failed to fetch product ${productId}`);
+        }
+        return unwrapRecord<Product>(result.data);
+    }
+}
+
+// Export a singleton instance
+export const reorderService = new ReorderService();
@@ -0,0 +1,476 @@
+import { randomUUID } from 'crypto';
+import { DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { roundMoney } from '../utils/money';
+import { AppError, ConflictError, fromFireberryError, ValidationError } from '../utils/errors';
+import { toAppError } from '../utils/error-handler';
+import { FireberryResponse, unwrapRecord } from './fireberry/fireberry-service';
+import { invoiceService, Invoice, InvoiceItem } from './fireberry/invoice-service';
+import { pricingService } from './pricing-service';
+import { checkoutService, CheckoutRequest, CheckoutResult } from './checkout-service';
+import { paymentService, CreditRefund, CreditRefundInput, Payment } from './payment-service';
+import { outboxService } from './outbox-service';
+import { drawerService } from './drawer-service';
+import { numberingService } from './numbering-service';
+import { stockService, StockChange } from './stock-service';
+import { locationService } from './location-service';
+
+// A returned product of the original invoice
+export interface ReturnLine {
+    productId: string;
+    quantity: number;
+    restock?: boolean;           // defaults to the request's `restock`
+}
+
+// New sale made in the same transaction as the return
+export type ExchangeRequest = Pick<CheckoutRequest, 'items' | 'paymentMethod' | 'payments' | 'couponCodes' | 'customerSegment' | 'notes'>;
+
+// Return request
+export interface ReturnRequest {
+    invoiceId: string;           // original invoice
+    items: ReturnLine[];
+    reason?: string;
+    restock?: boolean;           // put the items back in stock (default true)
+    locationId?: string;         // stock location restocked and sold from; defaults to the branch default location
+    refunds?: CreditRefundInput[];  // defaults to the tenders of the original invoice
+    exchange?: ExchangeRequest;
+}
+
+export type ReturnStatus = 'pending' | 'completed' | 'rolled-back' | 'rollback-failed';
+
+// Return record stored in Firestore, updated as each step completes.
+// Pending and completed returns count against the quantities sold.
+export interface ReturnRecord {
+    id?: string;
+    status: ReturnStatus;
+    invoiceId: string;
+    request: ReturnRequest;
+    lines: ReturnLine[];         // merged per product, with the resolved restock flag
+    creditNoteId?: string;
+    creditNoteNumber?: string;
+    creditTotal: number;         // amount credited, positive
+    locationId: string;          // stock location restocked
+    stockChanges: StockChange[];
+    exchangeCheckoutId?: string;
+    refundIds: string[];
+    failedStep?: string;
+    error?: {
+        code: string;
+        message: string;
+    };
+    compensationErrors?: string[];
+    sessionId?: string;          // drawer session of the cashier
+    createdBy?: string;
+    createdAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+// Result of a completed return
+export interface ReturnResult {
+    returnId: string;
+    creditNote: Invoice;
+    stockChanges: StockChange[];
+    refunds: Payment[];
+    exchange?: CheckoutResult;
+}
+
+// Raised by a return step; carries the error for the step
+class StepFailure extends Error {
+    constructor(public readonly step: string, public readonly error: AppError) {
+        super(error.message);
+    }
+}
+
+export class ReturnsService {
+    private collection = 'returns';
+
+    /**
+     * Return items of an invoice: issue a credit note, restock the items, make the exchange sale if any,
+     * and refund what is left of the credit. Each step is recorded in Firestore; if a step fails, the completed steps
+     * are compensated in reverse order and the error is thrown with the return id.
+     */
+    async processReturn(request: ReturnRequest, createdBy?: string, branchId?: string): Promise<ReturnResult> {
+        const original = await this.loadInvoice(request.invoiceId);
+        if (original.type !== 'invoice' && original.type !== 'receipt') {
+            throw new ConflictError(`Cannot return items of a ${original.type}`);
+        }
+        if (original.status === 'draft' || original.status === 'cancelled') {
+            throw new ConflictError(`Cannot return items of a ${original.status} invoice`);
+        }
+        if (request.exchange && !original.customerId) {
+            throw new ValidationError('The original invoice has no customer account for the exchange sale',
+                [{ field: 'exchange', message: 'requires an invoice with a customerId' }]);
+        }
+
+        const lines = this.mergeLines(request);
+        const creditItems = this.creditItems(original, lines);
+        const totals = await pricingService.priceLines(creditItems.map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discount: item.discount
+        })), this.discountShare(original, creditItems));
+        const creditTotal = roundMoney(-totals.total);
+
+        // Reject unknown payments or tenders before anything is written
+        await paymentService.planCreditRefunds(request.invoiceId, creditTotal, request.refunds);
+        const locationId = await locationService.resolve(request.locationId, branchId);
+
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const session = createdBy ? await drawerService.findOpenSession(createdBy) : null;
+        const record: ReturnRecord = {
+            status: 'pending',
+            invoiceId: request.invoiceId,
+            request: JSON.parse(JSON.stringify(request)),
+            lines,
+            creditTotal,
+            locationId,
+            stockChanges: [],
+            refundIds: [],
+            ...(session ? { sessionId: session.id } : {}),
+            ...(createdBy ? { createdBy } : {})
+        };
+        await this.reserve(docRef, original, record);
+
+        const today = new Date().toISOString().substring(0, 10);
+
+        let creditNote: Invoice | undefined;
+        let exchange: CheckoutResult | undefined;
+        let refunds: Payment[] = [];
+
+        try {
+            try {
+                const issued = await numberingService.next('credit-note', { branchId, createdBy });
+                record.creditNoteNumber = issued.number;
+            } catch (error) {
+                throw new StepFailure('issueNumber', toAppError(error));
+            }
+            await this.saveProgress(docRef, { creditNoteNumber: record.creditNoteNumber });
+
+            creditNote = await this.runStep('createCreditNote', () => invoiceService.createInvoice({
+                number: record.creditNoteNumber,
+                type: 'credit-note',
+                originalInvoiceId: request.invoiceId,
+                date: today,
+                customerId: original.customerId,
+                customerName: original.customerName,
+                customerPhone: original.customerPhone,
+                customerEmail: original.customerEmail,
+                customerAddress: original.customerAddress,
+                items: creditItems.map((item, index) => ({ ...item, total: totals.lines[index].amount })),
+                subtotal: totals.subtotal,
+                tax: totals.tax,
+                discount: totals.discount,
+                total: totals.total,
+                vat: totals.vat,
+                notes: request.reason,
+                status: 'sent'
+            }));
+            record.creditNoteId = this.recordId(creditNote, 'invoicenoid');
+            await this.saveProgress(docRef, { creditNoteId: record.creditNoteId });
+
+            try {
+                // Products without a tracked quantity are not stock managed
+                const movements = await stockService.post(lines.filter((line) => line.restock).map((line) => ({
+                    productId: line.productId,
+                    quantity: line.quantity,
+                    reason: 'return',
+                    locationId,
+                    sourceType: 'return',
+                    sourceId: docRef.id
+                })), { createdBy, skipUntracked: true });
+                record.stockChanges = stockService.changes(movements);
+            } catch (error) {
+                throw new StepFailure('restock', toAppError(error));
+            }
+            await this.saveProgress(docRef, { stockChanges: record.stockChanges });
+
+            if (request.exchange) {
+                try {
+                    exchange = await checkoutService.checkout({
+                        ...request.exchange,
+                        accountid: original.customerId as string,
+                        companyname: original.customerName || '',
+                        customerName: original.customerName,
+                        customerPhone: original.customerPhone,
+                        customerEmail: original.customerEmail,
+                        customerAddress: original.customerAddress,
+                        invoiceType: original.type === 'invoice' ? 'invoice' : 'receipt',
+                        locationId
+                    }, createdBy, { branchId, storeCredit: { amount: creditTotal, reference: record.creditNoteId as string } });
+                } catch (error) {
+                    throw new StepFailure('exchange', toAppError(error));
+                }
+                record.exchangeCheckoutId = exchange.checkoutId;
+                await this.saveProgress(docRef, { exchangeCheckoutId: record.exchangeCheckoutId });
+            }
+
+            try {
+                const applied = roundMoney((exchange?.payments || [])
+                    .filter((payment) => payment.method === 'store-credit')
+                    .reduce((sum, payment) => sum + payment.amount, 0));
+                const planned: CreditRefund[] = [
+                    ...(applied > 0 ? [{ method: 'store-credit' as const, amount: applied, reference: exchange?.checkoutId }] : []),
+                    ...await paymentService.planCreditRefunds(request.invoiceId, roundMoney(creditTotal - applied), request.refunds)
+                ];
+                refunds = await paymentService.recordRefunds(record.creditNoteId as string, planned, createdBy);
+            } catch (error) {
+                throw new StepFailure('recordRefunds', toAppError(error));
+            }
+            record.refundIds = refunds.map((refund) => refund.id as string);
+            await this.saveProgress(docRef, { status: 'completed', refundIds: record.refundIds });
+        } catch (error) {
+            // Errors outside a step, e.g. a failed progress write, still leave completed steps to undo
+            const failure = error instanceof StepFailure ? error : new StepFailure('unexpected', toAppError(error));
+
+            const compensationErrors = await this.compensate(docRef.id, record);
+            const status: ReturnStatus = compensationErrors.length ? 'rollback-failed' : 'rolled-back';
+
+            await this.saveProgress(docRef, {
+                status,
+                failedStep: failure.step,
+                error: { code: failure.error.code, message: failure.error.message },
+                compensationErrors
+            });
+
+            throw new AppError(failure.error.code, `Return failed at ${failure.step}: ${failure.error.message}`, failure.error.status, {
+                returnId: docRef.id,
+                failedStep: failure.step,
+                status
+            });
+        }
+
+        // The credit note is created unsettled; mark it with what was refunded.
+        // The return is complete by now, so a failed update is left to the outbox worker.
+        const refunded = roundMoney(refunds.reduce((sum, refund) => sum + refund.amount, 0));
+        const status = paymentService.deriveStatus({ status: 'sent', total: totals.total }, -refunded);
+        if (status !== 'sent') {
+            try {
+                const entry = await outboxService.enqueue('updateInvoice', { id: record.creditNoteId, changes: { status } }, { createdBy });
+                await outboxService.replayEntry(entry.id as string);
+            } catch (error) {
+                console.warn(`Status update of credit note ${record.creditNoteNumber} deferred to the outbox worker:`, (error as Error).message);
+            }
+        }
+
+        return {
+            returnId: docRef.id,
+            creditNote: { ...creditNote as Invoice, status },
+            stockChanges: record.stockChanges,
+            refunds,
+            ...(exchange ? { exchange } : {})
+        };
+    }
+
+    /**
+     * Get a return record by ID
+     */
+    async getReturn(id: string): Promise<ReturnRecord | null> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        return doc.exists ? { id: doc.id, ...doc.data() } as ReturnRecord : null;
+    }
+
+    /**
+     * List the returns of an invoice
+     */
+    async listReturns(invoiceId: string): Promise<ReturnRecord[]> {
+        const snapshot = await db.collection(this.collection).where('invoiceId', '==', invoiceId).get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ReturnRecord);
+    }
+
+    /**
+     * Check the returned quantities against those sold less earlier returns, and store the pending return.
+     * Runs in a transaction so that concurrent returns of the same invoice cannot exceed the quantities sold.
+     */
+    private async reserve(docRef: DocumentReference, original: Invoice, record: ReturnRecord): Promise<void> {
+        const sold = new Map<string, number>();
+        for (const item of original.items) {
+            sold.set(item.productId, (sold.get(item.productId) || 0) + item.quantity);
+        }
+
+        await db.runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(db.collection(this.collection).where('invoiceId', '==', record.invoiceId));
+            const returned = new Map<string, number>();
+            snapshot.docs
+                .map((doc) => doc.data() as ReturnRecord)
+                .filter((existing) => existing.status === 'pending' || existing.status === 'completed')
+                .forEach((existing) => existing.lines.forEach((line) => {
+                    returned.set(line.productId, (returned.get(line.productId) || 0) + line.quantity);
+                }));
+
+            const requested = new Map<string, number>();
+            record.lines.forEach((line) => requested.set(line.productId, (requested.get(line.productId) || 0) + line.quantity));
+
+            const errors = Array.from(requested)
+                .map(([productId, quantity]) => ({
+                    productId,
+                    quantity,
+                    returnable: (sold.get(productId) || 0) - (returned.get(productId) || 0)
+                }))
+                .filter(({ quantity, returnable }) => quantity > returnable)
+                .map(({ productId, quantity, returnable }) => ({
+                    field: 'items',
+                    message: `${productId}: ${quantity} returned, ${Math.max(returnable, 0)} returnable`
+                }));
+            if (errors.length) {
+                throw new ValidationError('Returned quantities exceed the quantities sold', errors);
+            }
+
+            transaction.set(docRef, {
+                ...record,
+                createdAt: FieldValue.serverTimestamp(),
+                updatedAt: FieldValue.serverTimestamp()
+            });
+        });
+    }
+
+    /**
+     * Merge repeated products and resolve the restock flag of each line
+     */
+    private mergeLines(request: ReturnRequest): ReturnLine[] {
+        const lines = new Map<string, ReturnLine>();
+        for (const item of request.items) {
+            const restock = item.restock ?? request.restock ?? true;
+            const key = `${item.productId}:${restock}`;
+            const line = lines.get(key) || { productId: item.productId, quantity: 0, restock };
+            line.quantity += item.quantity;
+            lines.set(key, line);
+        }
+        return Array.from(lines.values());
+    }
+
+    /**
+     * Build the credit note items: the returned quantities, negated, at the prices and line discounts of the
+     * original invoice. A product sold on several lines is taken from the lines in order.
+     */
+    private creditItems(original: Invoice, lines: ReturnLine[]): InvoiceItem[] {
+        const quantities = new Map<string, number>();
+        for (const line of lines) {
+            quantities.set(line.productId, (quantities.get(line.productId) || 0) + line.quantity);
+        }
+
+        const items: InvoiceItem[] = [];
+        for (const [productId, quantity] of quantities) {
+            let left = quantity;
+            for (const item of original.items.filter((candidate) => candidate.productId === productId)) {
+                const taken = Math.min(left, item.quantity);
+                if (taken <= 0) {
+                    break;
+                }
+                left -= taken;
+
+                items.push({
+                    productId,
+                    productName: item.productName,
+                    ...(item.description ? { description: item.description } : {}),
+                    quantity: -taken,
+                    unitPrice: item.unitPrice,
+                    discount: -roundMoney(item.discount * taken / item.quantity),
+                    total: 0
+                });
+            }
+        }
+        return items;
+    }
+
+    /**
+     * Share of the original document discount to credit, in proportion to the credited line amounts (negative)
+     */
+    private discountShare(original: Invoice, items: InvoiceItem[]): number {
+        if (!original.discount || !original.subtotal) {
+            return 0;
+        }
+
+        const credited = items.reduce((sum, item) => sum + item.quantity * item.unitPrice - item.discount, 0);
+        return roundMoney(original.discount * credited / original.subtotal);
+    }
+
+    /**
+     * Run a Fireberry call for a return step, throwing a StepFailure when it fails
+     */
+    private async runStep<T>(step: string, call: () => Promise<FireberryResponse<T>>): Promise<T> {
+        const result = await call();
+        if (!result.success) {
+            throw new StepFailure(step, fromFireberryError(result.error, `Return step ${step} failed`));
+        }
+        if (result.stale) {
+            throw new StepFailure(step, new AppError('UPSTREAM_UNAVAILABLE', `Return step ${step} cannot use cached data`, 503));
+        }
+        return unwrapRecord<T>(result.data);
+    }
+
+    /**
+     * Undo the completed steps in reverse order; a completed exchange checkout is rolled back with its payments
+     * @returns Messages for the steps that could not be undone
+     */
+    private async compensate(returnId: string, record: ReturnRecord): Promise<string[]> {
+        const errors: string[] = [];
+
+        const undo = async (description: string, call: () => Promise<FireberryResponse<any>>) => {
+            const result = await call();
+            if (!result.success) {
+                errors.push(`${description}: ${result.error?.message || 'unknown error'}`);
+            }
+        };
+
+        if (record.exchangeCheckoutId) {
+            try {
+                const exchange = await checkoutService.rollback(record.exchangeCheckoutId, `Return ${returnId} rolled back`);
+                errors.push(...(exchange.compensationErrors || []).map((message) => `exchange checkout ${record.exchangeCheckoutId}: ${message}`));
+            } catch (error) {
+                errors.push(`roll back exchange checkout ${record.exchangeCheckoutId}: ${(error as Error).message}`);
+            }
+        }
+
+        if (record.stockChanges.length) {
+            try {
+                await stockService.reverse(record.stockChanges.map((change) => change.movementId), { note: `Return ${returnId} rolled back` });
+            } catch (error) {
+                errors.push(`restore stock: ${(error as Error).message}`);
+            }
+        }
+
+        if (record.creditNoteId) {
+            await undo(`delete credit note ${record.creditNoteId}`, () => invoiceService.deleteInvoice(record.creditNoteId as string));
+        }
+
+        if (record.creditNoteNumber) {
+            try {
+                await numberingService.void(record.creditNoteNumber, `Return ${returnId} rolled back`);
+            } catch (error) {
+                errors.push(`void credit note number ${record.creditNoteNumber}: ${(error as Error).message}`);
+            }
+        }
+
+        if (errors.length) {
+            console.error('Return compensation incomplete:', errors);
+        }
+
+        return errors;
+    }
+
+    private async loadInvoice(invoiceId: string): Promise<Invoice> {
+        const result = await invoiceService.getInvoiceById(invoiceId);
+        if (!result.success) {
+            throw fromFireberryError(result.error, 'Failed to fetch invoice');
+        }
+        if (result.stale) {
+            throw new AppError('UPSTREAM_UNAVAILABLE', 'Fireberry is unavailable; cannot check returns against cached data', 503);
+        }
+        return unwrapRecord<Invoice>(result.data);
+    }
+
+    private recordId(record: any, primaryKey?: string): string | undefined {
+        return (primaryKey && record?.[primaryKey]) || record?.id;
+    }
+
+    private async saveProgress(docRef: DocumentReference, fields: Partial<ReturnRecord>): Promise<void> {
+        await docRef.update({
+            ...JSON.parse(JSON.stringify(fields)),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+    }
+}
+
+// Export a singleton instance
+export const returnsService = new ReturnsService();
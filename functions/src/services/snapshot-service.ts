@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+
+// Stored last-known-good response
+export interface Snapshot<T> {
+    endpoint: string;
+    data: T;
+    updatedAt?: Timestamp;
+}
+
+export class SnapshotService {
+    private collection = 'fireberrySnapshots';
+
+    // Last write time per endpoint, to avoid writing on every read
+    private lastWrites = new Map<string, number>();
+
+    constructor(private minWriteIntervalMs: number = 60 * 1000) { }
+
+    private docId(endpoint: string): string {
+        return createHash('sha256').update(endpoint).digest('hex');
+    }
+
+    /**
+     * Store the latest successful response for an endpoint.
+     * Writes are throttled per endpoint and failures are only logged.
+     */
+    async save<T>(endpoint: string, data: T): Promise<void> {
+        const now = Date.now();
+        const lastWrite = this.lastWrites.get(endpoint) || 0;
+        if (now - lastWrite < this.minWriteIntervalMs) {
+            return;
+        }
+        this.lastWrites.set(endpoint, now);
+
+        try {
+            await db.collection(this.collection).doc(this.docId(endpoint)).set({
+                endpoint,
+                data,
+                updatedAt: FieldValue.serverTimestamp()
+            });
+        } catch (error) {
+            console.error(`Failed to save snapshot for ${endpoint}:`, error);
+        }
+    }
+
+    /**
+     * Load the last-known-good response for an endpoint
+     * @returns The snapshot, or null if none exists or Firestore is unavailable
+     */
+    async load<T>(endpoint: string): Promise<Snapshot<T> | null> {
+        try {
+            const doc = await db.collection(this.collection).doc(this.docId(endpoint)).get();
+            return doc.exists ? doc.data() as Snapshot<T> : null;
+        } catch (error) {
+            console.error(`Failed to load snapshot for ${endpoint}:`, error);
+            return null;
+        }
+    }
+}
+
+// Export a singleton instance
+export const snapshotService = new SnapshotService();
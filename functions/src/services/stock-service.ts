@@ -0,0 +1,453 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Query, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { AppError, ConflictError, fromFireberryError, NotFoundError, ValidationError } from '../utils/errors';
+import { FireberryResponse, unwrapRecord } from './fireberry/fireberry-service';
+import { productService, Product } from './fireberry/product-service';
+import { outboxService } from './outbox-service';
+import { locationService, loadInventoryConfig } from './location-service';
+
+export type StockMovementReason = 'sale' | 'return' | 'receiving' | 'repair-part' | 'shrinkage' | 'count-correction'
+    | 'transfer-out' | 'transfer-in';
+
+// A stock change to record
+export interface StockMovementInput {
+    productId: string;
+    quantity: number;            // signed: positive adds stock, negative removes it
+    reason: StockMovementReason;
+    locationId?: string;         // defaults to the configured default location
+    sourceType?: string;         // kind of source document, e.g. 'checkout', 'return', 'repair'
+    sourceId?: string;           // source document ID
+    note?: string;
+}
+
+// Ledger entry stored in Firestore. Entries are never changed; a mistake is undone by a reversal entry.
+export interface StockMovement extends StockMovementInput {
+    id?: string;
+    balance: number;             // quantity at the location after the movement
+    reversalOf?: string;         // movement undone by this entry
+    createdBy?: string;
+    createdAt?: Timestamp;
+}
+
+// Current quantities of a product: the sums of its movements
+export interface StockLevel {
+    productId: string;
+    quantity: number;            // total owned: all locations plus stock in transit
+    locations: Record<string, number>;  // quantity on hand per location
+    inTransit: number;           // sent by a transfer and not yet received
+    minimums?: Record<string, number>;  // low-stock threshold per location
+    lastMovementId: string;
+    syncedQuantity?: number;     // last quantity written to `Product.itemquantity` in Fireberry
+    syncedAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+// Stock change made by a sale or return, kept on its record for compensation
+export interface StockChange {
+    movementId: string;
+    productId: string;
+    previousQuantity: number;
+    newQuantity: number;
+}
+
+// Options for posting movements
+export interface PostOptions {
+    createdBy?: string;
+    allowNegative?: boolean;     // let removals take the quantity below zero
+    skipUntracked?: boolean;     // ignore products Fireberry does not track a quantity for, instead of starting them at zero
+}
+
+// Movement history filters
+export interface MovementQuery {
+    reason?: StockMovementReason;
+    limit?: number;
+}
+
+// A product at or below its minimum at a location
+export interface LowStockItem {
+    productId: string;
+    locationId: string;
+    quantity: number;
+    minimum: number;
+    inTransit: number;           // across all transfers, which may bring stock to this location
+}
+
+// Running quantities of a product while movements are applied
+interface Balance {
+    locations: Record<string, number>;
+    inTransit: number;
+}
+
+// Reasons that only move stock one way
+const DIRECTIONS: Partial<Record<StockMovementReason, 1 | -1>> = {
+    'sale': -1,
+    'repair-part': -1,
+    'shrinkage': -1,
+    'return': 1,
+    'receiving': 1,
+    'transfer-out': -1,
+    'transfer-in': 1
+};
+
+// Transfers move stock between locations through transit; the total owned does not change
+const TRANSIT_REASONS: StockMovementReason[] = ['transfer-out', 'transfer-in'];
+
+export class StockService {
+    private collection = 'stockMovements';
+    private levelsCollection = 'stockLevels';
+
+    /**
+     * Get the ledger quantities of a product, or null if no movement was recorded for it yet
+     */
+    async getLevel(productId: string): Promise<StockLevel | null> {
+        const doc = await db.collection(this.levelsCollection).doc(productId).get();
+        return doc.exists ? this.withLocations(doc.data() as StockLevel) : null;
+    }
+
+    /**
+     * Quantity on hand at a location: the ledger quantity, or Fireberry's `itemquantity` at the default location
+     * for products without movements. Undefined when the product is not stock managed.
+     */
+    async available(productId: string, product: Product, locationId: string = locationService.defaultLocation): Promise<number | undefined> {
+        const level = await this.getLevel(productId);
+        if (level) {
+            return level.locations[locationId] || 0;
+        }
+        if (product.itemquantity === undefined || product.itemquantity === null) {
+            return undefined;
+        }
+        return locationId === locationService.defaultLocation ? product.itemquantity : 0;
+    }
+
+    /**
+     * Record stock movements and update the product quantities in one transaction, then sync the quantities to Fireberry.
+     * The first movement of a product opens its ledger with the quantity Fireberry holds, as a count correction.
+     * @throws ConflictError when a removal exceeds the quantity on hand, unless `allowNegative` is set
+     */
+    async post(inputs: StockMovementInput[], options: PostOptions = {}): Promise<StockMovement[]> {
+        for (const input of inputs) {
+            this.check(input);
+        }
+        if (inputs.length === 0) {
+            return [];
+        }
+
+        const openings = await this.openingQuantities([...new Set(inputs.map((input) => input.productId))]);
+        return this.record(inputs, openings, options);
+    }
+
+    /**
+     * Undo movements with opposite entries, e.g. when the sale that made them is rolled back.
+     * Reversals restore an earlier state, so they are never refused for lack of stock.
+     */
+    async reverse(movementIds: string[], options: { createdBy?: string, note?: string } = {}): Promise<StockMovement[]> {
+        const originals = await Promise.all(movementIds.map(async (id) => {
+            const doc = await db.collection(this.collection).doc(id).get();
+            if (!doc.exists) {
+                throw new ValidationError(`Stock movement ${id} not found`);
+            }
+            return { id: doc.id, ...doc.data() } as StockMovement;
+        }));
+
+        return this.record(originals.map((original) => ({
+            productId: original.productId,
+            quantity: -original.quantity,
+            reason: original.reason,
+            locationId: original.locationId,
+            sourceType: original.sourceType,
+            sourceId: original.sourceId,
+            note: options.note || `Reversal of ${original.id}`,
+            reversalOf: original.id
+        })), new Map(), { createdBy: options.createdBy, allowNegative: true });
+    }
+
+    /**
+     * Movement history of a product, newest first
+     */
+    async listMovements(productId: string, query: MovementQuery = {}): Promise<StockMovement[]> {
+        let ref: Query = db.collection(this.collection).where('productId', '==', productId);
+        if (query.reason) {
+            ref = ref.where('reason', '==', query.reason);
+        }
+
+        const snapshot = await ref.orderBy('createdAt', 'desc').limit(query.limit || 50).get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as StockMovement);
+    }
+
+    /**
+     * Movements a source document has posted with a reason that are still in effect: reversals and the movements
+     * they reversed are left out
+     */
+    async listSourceMovements(sourceType: string, sourceId: string, reason: StockMovementReason): Promise<StockMovement[]> {
+        const snapshot = await db.collection(this.collection)
+            .where('sourceType', '==', sourceType)
+            .where('sourceId', '==', sourceId)
+            .where('reason', '==', reason)
+            .get();
+
+        const movements = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as StockMovement);
+        const reversed = new Set(movements.map((movement) => movement.reversalOf).filter(Boolean));
+        return movements.filter((movement) => !movement.reversalOf && !reversed.has(movement.id));
+    }
+
+    /**
+     * Quantity of each product consumed since a date: sales and repair parts, less returns and reversals
+     */
+    async consumption(since: Date): Promise<Map<string, number>> {
+        const snapshot = await db.collection(this.collection)
+            .where('reason', 'in', ['sale', 'return', 'repair-part'])
+            .where('createdAt', '>=', Timestamp.fromDate(since))
+            .get();
+
+        const consumed = new Map<string, number>();
+        for (const doc of snapshot.docs) {
+            const movement = doc.data() as StockMovement;
+            consumed.set(movement.productId, (consumed.get(movement.productId) || 0) - movement.quantity);
+        }
+        return consumed;
+    }
+
+    /**
+     * Ledger quantities of all products that have one
+     */
+    async listLevels(): Promise<StockLevel[]> {
+        const snapshot = await db.collection(this.levelsCollection).get();
+        return snapshot.docs.map((doc) => this.withLocations(doc.data() as StockLevel));
+    }
+
+    /**
+     * Before and after quantities of movements, as kept on sale and return records
+     */
+    changes(movements: StockMovement[]): StockChange[] {
+        return movements.map((movement) => ({
+            movementId: movement.id as string,
+            productId: movement.productId,
+            previousQuantity: movement.balance - movement.quantity,
+            newQuantity: movement.balance
+        }));
+    }
+
+    /**
+     * Products at or below their minimum at a location. Only products stocked at the location,
+     * or with a minimum set for it, are considered.
+     */
+    async lowStock(locationId: string): Promise<LowStockItem[]> {
+        const { lowStockThreshold } = loadInventoryConfig();
+        const levels = await this.listLevels();
+
+        return levels
+            .filter((level) => level.locations[locationId] !== undefined || level.minimums?.[locationId] !== undefined)
+            .map((level) => ({
+                productId: level.productId,
+                locationId,
+                quantity: level.locations[locationId] || 0,
+                minimum: level.minimums?.[locationId] ?? lowStockThreshold,
+                inTransit: level.inTransit
+            }))
+            .filter((item) => item.quantity <= item.minimum)
+            .sort((a, b) => (a.quantity - a.minimum) - (b.quantity - b.minimum));
+    }
+
+    /**
+     * Set the low-stock threshold of a product at a location
+     */
+    async setMinimum(productId: string, locationId: string, minimum: number): Promise<StockLevel> {
+        const docRef = db.collection(this.levelsCollection).doc(productId);
+        const doc = await docRef.get();
+        if (!doc.exists) {
+            throw new NotFoundError(`No stock movements recorded for product ${productId}`);
+        }
+
+        await docRef.update({ [`minimums.${locationId}`]: minimum, updatedAt: FieldValue.serverTimestamp() });
+        const level = this.withLocations(doc.data() as StockLevel);
+        return { ...level, minimums: { ...level.minimums, [locationId]: minimum } };
+    }
+
+    /**
+     * Write the ledger quantity of a product to `Product.itemquantity` in Fireberry.
+     * Replayed by the outbox; the current quantity is read at replay time so a late retry never writes an old value.
+     */
+    async syncToFireberry(productId: string): Promise<FireberryResponse<Product>> {
+        const level = await this.getLevel(productId);
+        if (!level) {
+            return { success: true };
+        }
+
+        const result = await productService.updateProduct(productId, { itemquantity: level.quantity });
+        if (result.success) {
+            await db.collection(this.levelsCollection).doc(productId).update({
+                syncedQuantity: level.quantity,
+                syncedAt: FieldValue.serverTimestamp()
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Queue the Fireberry sync of the products and replay it right away.
+     * A failed sync stays in the outbox for the background worker; the ledger remains the source of truth.
+     * Never throws: the movements are committed by now, and the next movement of a product syncs its full quantity.
+     */
+    private async sync(productIds: string[], createdBy?: string): Promise<void> {
+        try {
+            const entryIds: string[] = [];
+            for (const productId of productIds) {
+                const entry = await outboxService.enqueue('syncStock', { productId }, { createdBy });
+                entryIds.push(entry.id as string);
+            }
+            for (const id of entryIds) {
+                await outboxService.replayEntry(id);
+            }
+        } catch (error) {
+            console.warn('Stock sync deferred to the outbox worker:', (error as Error).message);
+        }
+    }
+
+    /**
+     * Write the movements and the new quantities in one transaction
+     */
+    private async record(
+        inputs: (StockMovementInput & { reversalOf?: string })[],
+        openings: Map<string, number>,
+        options: PostOptions
+    ): Promise<StockMovement[]> {
+        const defaultLocation = locationService.defaultLocation;
+        const productIds = [...new Set(inputs.map((input) => input.productId))];
+        const levelRefs = productIds.map((productId) => db.collection(this.levelsCollection).doc(productId));
+
+        const movements = await db.runTransaction(async (transaction) => {
+            const snapshots = await transaction.getAll(...levelRefs);
+            const balances = new Map<string, Balance>();
+            const written: StockMovement[] = [];
+
+            const write = (movement: StockMovement): StockMovement => {
+                const id = randomUUID();
+                const cleaned: StockMovement = JSON.parse(JSON.stringify(movement));
+                transaction.create(db.collection(this.collection).doc(id), { ...cleaned, createdAt: FieldValue.serverTimestamp() });
+                written.push({ id, ...cleaned });
+                return { id, ...cleaned };
+            };
+
+            snapshots.forEach((snapshot, index) => {
+                const productId = productIds[index];
+                if (snapshot.exists) {
+                    const level = this.withLocations(snapshot.data() as StockLevel);
+                    balances.set(productId, { locations: { ...level.locations }, inTransit: level.inTransit });
+                    return;
+                }
+
+                const opening = openings.get(productId);
+                if (opening === undefined && options.skipUntracked) {
+                    return;
+                }
+                balances.set(productId, { locations: opening ? { [defaultLocation]: opening } : {}, inTransit: 0 });
+                if (opening) {
+                    write({
+                        productId,
+                        quantity: opening,
+                        reason: 'count-correction',
+                        locationId: defaultLocation,
+                        sourceType: 'fireberry',
+                        note: 'Opening balance from Fireberry',
+                        balance: opening,
+                        createdBy: options.createdBy
+                    });
+                }
+            });
+
+            const recorded: StockMovement[] = [];
+            for (const input of inputs) {
+                const current = balances.get(input.productId);
+                if (!current) {
+                    continue;
+                }
+
+                const locationId = input.locationId || defaultLocation;
+                const previous = current.locations[locationId] || 0;
+                const balance = previous + input.quantity;
+                if (input.quantity < 0 && balance < 0 && !options.allowNegative) {
+                    throw new ConflictError(`Insufficient stock for product ${input.productId} at ${locationId}: ${previous} available, ${-input.quantity} requested`);
+                }
+
+                current.locations[locationId] = balance;
+                if (TRANSIT_REASONS.includes(input.reason)) {
+                    current.inTransit -= input.quantity;
+                }
+                recorded.push(write({ ...input, locationId, balance, createdBy: options.createdBy }));
+            }
+
+            for (const [productId, current] of balances) {
+                const last = [...written].reverse().find((movement) => movement.productId === productId);
+                if (last) {
+                    const onHand = Object.values(current.locations).reduce((sum, quantity) => sum + quantity, 0);
+                    transaction.set(db.collection(this.levelsCollection).doc(productId), {
+                        productId,
+                        quantity: onHand + current.inTransit,
+                        locations: current.locations,
+                        inTransit: current.inTransit,
+                        lastMovementId: last.id,
+                        updatedAt: FieldValue.serverTimestamp()
+                    }, { merge: true });
+                }
+            }
+
+            return recorded;
+        });
+
+        await this.sync([...new Set(movements.map((movement) => movement.productId))], options.createdBy);
+        return movements;
+    }
+
+    /**
+     * Levels written before stock was tracked per location hold everything at the default location
+     */
+    private withLocations(level: StockLevel): StockLevel {
+        return {
+            ...level,
+            locations: level.locations || { [locationService.defaultLocation]: level.quantity },
+            inTransit: level.inTransit || 0
+        };
+    }
+
+    /**
+     * Fireberry quantities of the products that have no ledger yet; products without a tracked quantity are left out
+     */
+    private async openingQuantities(productIds: string[]): Promise<Map<string, number>> {
+        const openings = new Map<string, number>();
+        for (const productId of productIds) {
+            if (await this.getLevel(productId)) {
+                continue;
+            }
+
+            const result = await productService.getProductById(productId);
+            if (!result.success) {
+                throw fromFireberryError(result.error, `Failed to fetch product ${productId}`);
+            }
+            if (result.stale) {
+                throw new AppError('UPSTREAM_UNAVAILABLE', 'Fireberry is unavailable; cannot open the stock ledger from cached data', 503);
+            }
+
+            const product = unwrapRecord<Product>(result.data);
+            if (product.itemquantity !== undefined && product.itemquantity !== null) {
+                openings.set(productId, product.itemquantity);
+            }
+        }
+        return openings;
+    }
+
+    private check(input: StockMovementInput): void {
+        if (!Number.isFinite(input.quantity) || input.quantity === 0) {
+            throw new ValidationError(`Stock movement quantity for product ${input.productId} must be a non-zero number`);
+        }
+
+        const direction = DIRECTIONS[input.reason];
+        if (direction && Math.sign(input.quantity) !== direction) {
+            throw new ValidationError(`A ${input.reason} movement must ${direction > 0 ? 'add' : 'remove'} stock`,
+                [{ field: 'quantity', message: direction > 0 ? 'must be positive' : 'must be negative' }]);
+        }
+    }
+}
+
+// Export a singleton instance
+export const stockService = new StockService();
@@ -0,0 +1,414 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Query, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { roundMoney } from '../utils/money';
+import { AppError, ConflictError, fromFireberryError, NotFoundError, ValidationError } from '../utils/errors';
+import { unwrapRecords } from './fireberry/fireberry-service';
+import { productService, Product } from './fireberry/product-service';
+import { locationService } from './location-service';
+import { numberingService } from './numbering-service';
+import { stockService, StockLevel } from './stock-service';
+
+export type StocktakeStatus = 'open' | 'approving' | 'approved' | 'cancelled';
+
+// Count session stored in Firestore. Its products and their system quantities are frozen under `lines` when it opens.
+export interface Stocktake {
+    id?: string;
+    number: string;
+    status: StocktakeStatus;
+    locationId: string;
+    categoryCode?: number;       // count only one category; the whole location otherwise
+    lineCount: number;
+    note?: string;
+    movementIds: string[];       // count corrections posted on approval
+    createdBy?: string;
+    approvedBy?: string;
+    cancelledBy?: string;
+    createdAt?: Timestamp;       // when the system quantities were frozen
+    approvedAt?: Timestamp;
+    cancelledAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+// Session request
+export type StocktakeInput = Pick<Stocktake, 'categoryCode' | 'note'> & {
+    locationId?: string;         // defaults to the branch default location
+};
+
+// A product in scope, with its quantity when the session opened
+export interface StocktakeLine {
+    productId: string;
+    name: string;
+    catalognumber?: string;
+    systemQuantity: number;
+    unitCost?: number;           // `Product.ProductCost` when the session opened
+}
+
+// A counted quantity, identified by the scanned barcode/catalog number or by product ID
+export interface CountInput {
+    code?: string;
+    productId?: string;
+    quantity: number;            // added to the product's count; negative to take back a miscount
+}
+
+// A batch of counts from one device
+export interface CountSubmission {
+    deviceId?: string;
+    counts: CountInput[];
+}
+
+// Count entry stored under the session. Entries are only added, so devices never overwrite each other.
+export interface CountEntry {
+    id?: string;
+    productId: string;
+    code?: string;
+    quantity: number;
+    deviceId?: string;
+    countedBy?: string;
+    createdAt?: Timestamp;
+}
+
+// A product of the variance report
+export interface VarianceLine extends StocktakeLine {
+    countedQuantity: number | null;  // null when the product was not counted
+    variance: number;
+    varianceValue: number;
+}
+
+// Counted against system quantities and their value at cost
+export interface VarianceReport {
+    stocktake: Stocktake;
+    lines: VarianceLine[];       // largest absolute variance value first
+    countedLines: number;
+    uncountedLines: number;
+    systemValue: number;
+    countedValue: number;
+    varianceValue: number;
+}
+
+// Approval options
+export interface ApproveInput {
+    zeroUncounted?: boolean;     // treat products that were not counted as counted at zero (default: leave them)
+}
+
+// Firestore batches and transactions are limited to 500 writes
+const WRITE_CHUNK = 400;
+
+// Each movement writes the movement, the stock level and possibly an opening balance
+const MOVEMENT_CHUNK = 100;
+
+const chunks = <T>(items: T[], size: number): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+export class StocktakeService {
+    private collection = 'stocktakes';
+
+    /**
+     * Open a count session and freeze the system quantity of every stock-managed product in scope.
+     * Corrections are later taken against the frozen quantities, so sales made during the count stay on the books.
+     * @throws ConflictError when the location already has an open session
+     */
+    async openSession(input: StocktakeInput, createdBy?: string, branchId?: string): Promise<Stocktake> {
+        const locationId = await locationService.resolve(input.locationId, branchId);
+        const open = await db.collection(this.collection)
+            .where('locationId', '==', locationId)
+            .where('status', 'in', ['open', 'approving'])
+            .limit(1)
+            .get();
+        if (!open.empty) {
+            throw new ConflictError(`Location ${locationId} already has an open stocktake (${open.docs[0].data().number})`);
+        }
+
+        const lines = await this.freeze(locationId, input.categoryCode);
+        if (lines.length === 0) {
+            throw new ValidationError('There are no stock-managed products to count in this scope');
+        }
+
+        const { number } = await numberingService.next('stocktake', { branchId, createdBy });
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const stocktake: Stocktake = JSON.parse(JSON.stringify({
+            number,
+            status: 'open',
+            locationId,
+            categoryCode: input.categoryCode,
+            lineCount: lines.length,
+            note: input.note,
+            movementIds: [],
+            createdBy
+        }));
+
+        for (const chunk of chunks(lines, WRITE_CHUNK)) {
+            const batch = db.batch();
+            for (const line of chunk) {
+                batch.set(docRef.collection('lines').doc(line.productId), JSON.parse(JSON.stringify(line)));
+            }
+            await batch.commit();
+        }
+        await docRef.set({ ...stocktake, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() });
+
+        return { id: docRef.id, ...stocktake };
+    }
+
+    /**
+     * Add counts from a device. Codes are matched against the catalog numbers of the session's products;
+     * the whole batch is rejected if any code or product is not in the session.
+     */
+    async submitCounts(id: string, submission: CountSubmission, countedBy?: string): Promise<CountEntry[]> {
+        const stocktake = await this.getSession(id);
+        if (stocktake.status !== 'open') {
+            throw new ConflictError(`Stocktake ${stocktake.number} is ${stocktake.status}`);
+        }
+
+        const lines = await this.listLines(id);
+        const byCode = new Map(lines.filter((line) => line.catalognumber).map((line) => [line.catalognumber as string, line.productId]));
+        const productIds = new Set(lines.map((line) => line.productId));
+
+        const unknown: string[] = [];
+        const entries: CountEntry[] = submission.counts.map((count) => {
+            const productId = count.productId || (count.code ? byCode.get(count.code) : undefined);
+            if (!count.code && !count.productId) {
+                throw new ValidationError('Each count needs a code or a productId', [{ field: 'counts', message: 'code or productId is required' }]);
+            }
+            if (!productId || !productIds.has(productId)) {
+                unknown.push(count.code || count.productId as string);
+            }
+            return JSON.parse(JSON.stringify({
+                productId,
+                code: count.code,
+                quantity: count.quantity,
+                deviceId: submission.deviceId,
+                countedBy
+            }));
+        });
+        if (unknown.length) {
+            throw new ValidationError('Some counted items are not in this stocktake', unknown.map((code) => ({ field: 'counts', message: `${code} is not in scope` })));
+        }
+
+        const countsRef = db.collection(this.collection).doc(id).collection('counts');
+        const written: CountEntry[] = [];
+        for (const chunk of chunks(entries, WRITE_CHUNK)) {
+            const batch = db.batch();
+            for (const entry of chunk) {
+                const entryRef = countsRef.doc(randomUUID());
+                batch.create(entryRef, { ...entry, createdAt: FieldValue.serverTimestamp() });
+                written.push({ id: entryRef.id, ...entry });
+            }
+            await batch.commit();
+        }
+        return written;
+    }
+
+    /**
+     * Compare the counts with the frozen system quantities
+     */
+    async variance(id: string, options: ApproveInput = {}): Promise<VarianceReport> {
+        const stocktake = await this.getSession(id);
+        const [lines, counted] = await Promise.all([this.listLines(id), this.countedQuantities(id)]);
+
+        const report: VarianceLine[] = lines.map((line) => {
+            const countedQuantity = counted.has(line.productId) ? counted.get(line.productId) as number : null;
+            const variance = countedQuantity === null
+                ? (options.zeroUncounted ? -line.systemQuantity : 0)
+                : countedQuantity - line.systemQuantity;
+            return { ...line, countedQuantity, variance, varianceValue: roundMoney(variance * (line.unitCost || 0)) };
+        });
+
+        const systemValue = roundMoney(report.reduce((sum, line) => sum + line.systemQuantity * (line.unitCost || 0), 0));
+        const varianceValue = roundMoney(report.reduce((sum, line) => sum + line.varianceValue, 0));
+
+        return {
+            stocktake,
+            lines: report.sort((a, b) => Math.abs(b.varianceValue) - Math.abs(a.varianceValue) || Math.abs(b.variance) - Math.abs(a.variance)),
+            countedLines: report.filter((line) => line.countedQuantity !== null).length,
+            uncountedLines: report.filter((line) => line.countedQuantity === null).length,
+            systemValue,
+            countedValue: roundMoney(systemValue + varianceValue),
+            varianceValue
+        };
+    }
+
+    /**
+     * Approve the counts: post a count correction for every product whose count differs from its frozen quantity.
+     * Corrections apply the variance to the current quantity, which already reflects sales made during the count.
+     */
+    async approve(id: string, input: ApproveInput, approvedBy?: string): Promise<VarianceReport> {
+        await this.claim(id, ['open'], 'approving');
+
+        const posted: string[] = [];
+        try {
+            const report = await this.variance(id, input);
+            const corrections = report.lines.filter((line) => line.variance !== 0);
+
+            for (const chunk of chunks(corrections, MOVEMENT_CHUNK)) {
+                const movements = await stockService.post(chunk.map((line) => ({
+                    productId: line.productId,
+                    quantity: line.variance,
+                    reason: 'count-correction',
+                    locationId: report.stocktake.locationId,
+                    sourceType: 'stocktake',
+                    sourceId: id,
+                    note: `Stocktake ${report.stocktake.number}: counted ${line.countedQuantity ?? 0}, system ${line.systemQuantity}`
+                })), { createdBy: approvedBy, allowNegative: true });
+                posted.push(...movements.map((movement) => movement.id as string));
+            }
+
+            await db.collection(this.collection).doc(id).update({
+                status: 'approved',
+                movementIds: posted,
+                ...(approvedBy ? { approvedBy } : {}),
+                approvedAt: FieldValue.serverTimestamp(),
+                updatedAt: FieldValue.serverTimestamp()
+            });
+            return { ...report, stocktake: { ...report.stocktake, status: 'approved', movementIds: posted, approvedBy } };
+        } catch (error) {
+            if (posted.length) {
+                await stockService.reverse(posted, { createdBy: approvedBy, note: 'Stocktake approval rolled back' });
+            }
+            await db.collection(this.collection).doc(id).update({ status: 'open', updatedAt: FieldValue.serverTimestamp() });
+            throw error;
+        }
+    }
+
+    /**
+     * Cancel an open session; nothing is posted
+     */
+    async cancel(id: string, cancelledBy?: string): Promise<Stocktake> {
+        const stocktake = await this.claim(id, ['open'], 'cancelled', {
+            ...(cancelledBy ? { cancelledBy } : {}),
+            cancelledAt: FieldValue.serverTimestamp()
+        });
+        return { ...stocktake, status: 'cancelled', cancelledBy };
+    }
+
+    /**
+     * Get a session by ID
+     */
+    async getSession(id: string): Promise<Stocktake> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        if (!doc.exists) {
+            throw new NotFoundError(`Stocktake ${id} not found`);
+        }
+        return { id: doc.id, ...doc.data() } as Stocktake;
+    }
+
+    /**
+     * List sessions, newest first
+     */
+    async listSessions(filters: { locationId?: string, status?: StocktakeStatus }, limit: number = 50): Promise<Stocktake[]> {
+        let query: Query = db.collection(this.collection);
+        if (filters.locationId) {
+            query = query.where('locationId', '==', filters.locationId);
+        }
+        if (filters.status) {
+            query = query.where('status', '==', filters.status);
+        }
+
+        const snapshot = await query.orderBy('createdAt', 'desc').limit(limit).get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Stocktake);
+    }
+
+    /**
+     * Count entries of a session, oldest first
+     */
+    async listCounts(id: string): Promise<CountEntry[]> {
+        const snapshot = await db.collection(this.collection).doc(id).collection('counts').orderBy('createdAt').get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as CountEntry);
+    }
+
+    /**
+     * Products in scope with the quantities they have at the location now
+     */
+    private async freeze(locationId: string, categoryCode?: number): Promise<StocktakeLine[]> {
+        const levels = new Map<string, StockLevel>((await stockService.listLevels()).map((level) => [level.productId, level]));
+        const products = (await this.loadProducts())
+            .filter((product) => categoryCode === undefined || product.categorycode === categoryCode);
+
+        const lines: StocktakeLine[] = [];
+        for (const product of products) {
+            const productId = product.id as string;
+            const level = levels.get(productId);
+            let systemQuantity: number | undefined;
+            if (level) {
+                systemQuantity = level.locations[locationId] || 0;
+            } else if (product.itemquantity !== undefined && product.itemquantity !== null) {
+                systemQuantity = locationId === locationService.defaultLocation ? product.itemquantity : 0;
+            }
+
+            // Products Fireberry does not track a quantity for are not stock managed
+            if (systemQuantity !== undefined) {
+                lines.push({
+                    productId,
+                    name: product.name,
+                    catalognumber: product.catalognumber,
+                    systemQuantity,
+                    unitCost: product.ProductCost ?? undefined
+                });
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Every product, page by page. Fireberry serves at most 50 records a page, whatever is asked for;
+     * the end is taken from `Total_Records` when the page reports it.
+     */
+    private async loadProducts(): Promise<Product[]> {
+        const pageSize = 50;
+        const products: Product[] = [];
+
+        for (let pageNumber = 1; ; pageNumber++) {
+            const result = await productService.getAllProductsPaginated({ pageSize, pageNumber });
+            if (!result.success) {
+                throw fromFireberryError(result.error, 'Failed to fetch products');
+            }
+            if (result.stale) {
+                throw new AppError('UPSTREAM_UNAVAILABLE', 'Fireberry is unavailable; cannot freeze quantities from cached data', 503);
+            }
+
+            const page = unwrapRecords<Product>(result.data);
+            products.push(...page.map((product) => ({ ...product, id: product.id || product.productid })));
+
+            const data = result.data as any;
+            const total: number | undefined = data?.data?.Total_Records ?? data?.Total_Records;
+            if (page.length === 0 || (total !== undefined ? products.length >= total : page.length < pageSize)) {
+                return products;
+            }
+        }
+    }
+
+    private async listLines(id: string): Promise<StocktakeLine[]> {
+        const snapshot = await db.collection(this.collection).doc(id).collection('lines').get();
+        return snapshot.docs.map((doc) => doc.data() as StocktakeLine);
+    }
+
+    private async countedQuantities(id: string): Promise<Map<string, number>> {
+        const snapshot = await db.collection(this.collection).doc(id).collection('counts').get();
+        const counted = new Map<string, number>();
+        for (const doc of snapshot.docs) {
+            const entry = doc.data() as CountEntry;
+            counted.set(entry.productId, (counted.get(entry.productId) || 0) + entry.quantity);
+        }
+        return counted;
+    }
+
+    private async claim(id: string, from: StocktakeStatus[], to: StocktakeStatus, fields: Record<string, unknown> = {}): Promise<Stocktake> {
+        const docRef = db.collection(this.collection).doc(id);
+
+        return db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(docRef);
+            if (!doc.exists) {
+                throw new NotFoundError(`Stocktake ${id} not found`);
+            }
+
+            const stocktake = { id: doc.id, ...doc.data() } as Stocktake;
+            if (!from.includes(stocktake.status)) {
+                throw new ConflictError(`Stocktake ${stocktake.number} is ${stocktake.status}`);
+            }
+            transaction.update(docRef, { ...fields, status: to, updatedAt: FieldValue.serverTimestamp() });
+            return stocktake;
+        });
+    }
+}
+
+// Export a singleton instance
+export const stocktakeService = new StocktakeService();
@@ -0,0 +1,237 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Query, Timestamp } from 'firebase-admin/firestore';
+import { db } from '../utils/firebase-admin';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { locationService } from './location-service';
+import { numberingService } from './numbering-service';
+import { stockService, StockMovement, StockMovementInput, StockMovementReason } from './stock-service';
+
+export type TransferStatus = 'draft' | 'sent' | 'received' | 'cancelled';
+
+// A product moved by a transfer
+export interface TransferItem {
+    productId: string;
+    quantity: number;
+}
+
+// Transfer request
+export interface TransferInput {
+    fromLocationId: string;
+    toLocationId: string;
+    items: TransferItem[];
+    note?: string;
+    send?: boolean;              // send right away; the draft is kept if sending fails
+}
+
+// Transfer document stored in Firestore. Sending takes the items out of the source location into transit;
+// receiving puts them in the destination location.
+export interface StockTransfer {
+    id?: string;
+    number: string;
+    status: TransferStatus;
+    fromLocationId: string;
+    toLocationId: string;
+    items: TransferItem[];       // merged per product
+    note?: string;
+    sentMovementIds: string[];
+    receivedMovementIds: string[];
+    createdBy?: string;
+    sentBy?: string;
+    receivedBy?: string;
+    cancelledBy?: string;
+    createdAt?: Timestamp;
+    sentAt?: Timestamp;
+    receivedAt?: Timestamp;
+    cancelledAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+// Transfer list filters
+export interface TransferQuery {
+    status?: TransferStatus;
+    fromLocationId?: string;
+    toLocationId?: string;
+    limit?: number;
+}
+
+export class TransferService {
+    private collection = 'stockTransfers';
+
+    /**
+     * Create a transfer between two locations, numbered from the branch series
+     */
+    async createTransfer(input: TransferInput, createdBy?: string, branchId?: string): Promise<StockTransfer> {
+        if (input.fromLocationId === input.toLocationId) {
+            throw new ValidationError('A transfer must move stock between two different locations',
+                [{ field: 'toLocationId', message: 'must differ from fromLocationId' }]);
+        }
+        await locationService.resolve(input.fromLocationId);
+        await locationService.resolve(input.toLocationId);
+
+        const quantities = new Map<string, number>();
+        for (const item of input.items) {
+            quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+        }
+
+        const { number } = await numberingService.next('transfer', { branchId, createdBy });
+        const docRef = db.collection(this.collection).doc(randomUUID());
+        const transfer: StockTransfer = JSON.parse(JSON.stringify({
+            number,
+            status: 'draft',
+            fromLocationId: input.fromLocationId,
+            toLocationId: input.toLocationId,
+            items: [...quantities].map(([productId, quantity]) => ({ productId, quantity })),
+            note: input.note,
+            sentMovementIds: [],
+            receivedMovementIds: [],
+            createdBy
+        }));
+        await docRef.set({ ...transfer, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() });
+
+        return input.send ? this.send(docRef.id, createdBy) : { id: docRef.id, ...transfer };
+    }
+
+    /**
+     * Send a draft: the items leave the source location and are in transit until received
+     * @throws ConflictError when the source location does not hold enough stock
+     */
+    async send(id: string, sentBy?: string): Promise<StockTransfer> {
+        const transfer = await this.claim(id, 'draft', 'sent');
+
+        try {
+            const movements = await this.postOnce(id, 'transfer-out', transfer.items.map((item) => ({
+                productId: item.productId,
+                quantity: -item.quantity,
+                reason: 'transfer-out',
+                locationId: transfer.fromLocationId,
+                sourceType: 'transfer',
+                sourceId: id
+            })), sentBy);
+
+            const sentMovementIds = movements.map((movement) => movement.id as string);
+            await this.update(id, { sentMovementIds, ...(sentBy ? { sentBy } : {}) }, 'sentAt');
+            return { ...transfer, status: 'sent', sentMovementIds, sentBy };
+        } catch (error) {
+            await this.update(id, { status: 'draft' });
+            throw error;
+        }
+    }
+
+    /**
+     * Receive a sent transfer into the destination location
+     */
+    async receive(id: string, receivedBy?: string): Promise<StockTransfer> {
+        const transfer = await this.claim(id, 'sent', 'received');
+
+        try {
+            const movements = await this.postOnce(id, 'transfer-in', transfer.items.map((item) => ({
+                productId: item.productId,
+                quantity: item.quantity,
+                reason: 'transfer-in',
+                locationId: transfer.toLocationId,
+                sourceType: 'transfer',
+                sourceId: id
+            })), receivedBy);
+
+            const receivedMovementIds = movements.map((movement) => movement.id as string);
+            await this.update(id, { receivedMovementIds, ...(receivedBy ? { receivedBy } : {}) }, 'receivedAt');
+            return { ...transfer, status: 'received', receivedMovementIds, receivedBy };
+        } catch (error) {
+            await this.update(id, { status: 'sent' });
+            throw error;
+        }
+    }
+
+    /**
+     * Cancel a draft, or a sent transfer that was not received; sent items go back to the source location.
+     * The movements are looked up in the ledger, so that those of a send that failed to record them are reversed too.
+     */
+    async cancel(id: string, cancelledBy?: string): Promise<StockTransfer> {
+        const transfer = await this.claim(id, ['draft', 'sent'], 'cancelled');
+
+        try {
+            const sent = await stockService.listSourceMovements('transfer', id, 'transfer-out');
+            if (sent.length) {
+                await stockService.reverse(sent.map((movement) => movement.id as string), {
+                    createdBy: cancelledBy,
+                    note: `Transfer ${transfer.number} cancelled`
+                });
+            }
+            await this.update(id, cancelledBy ? { cancelledBy } : {}, 'cancelledAt');
+            return { ...transfer, status: 'cancelled', cancelledBy };
+        } catch (error) {
+            await this.update(id, { status: transfer.status });
+            throw error;
+        }
+    }
+
+    /**
+     * Get a transfer by ID
+     */
+    async getTransfer(id: string): Promise<StockTransfer | null> {
+        const doc = await db.collection(this.collection).doc(id).get();
+        return doc.exists ? { id: doc.id, ...doc.data() } as StockTransfer : null;
+    }
+
+    /**
+     * List transfers, newest first
+     */
+    async listTransfers(query: TransferQuery = {}): Promise<StockTransfer[]> {
+        let ref: Query = db.collection(this.collection);
+        if (query.fromLocationId) {
+            ref = ref.where('fromLocationId', '==', query.fromLocationId);
+        }
+        if (query.toLocationId) {
+            ref = ref.where('toLocationId', '==', query.toLocationId);
+        }
+        if (query.status) {
+            ref = ref.where('status', '==', query.status);
+        }
+
+        const snapshot = await ref.orderBy('createdAt', 'desc').limit(query.limit || 50).get();
+        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as StockTransfer);
+    }
+
+    /**
+     * Move a transfer to its next status in a transaction, so that two requests cannot both post its movements.
+     * Returns the transfer as it was before the change.
+     */
+    private async claim(id: string, from: TransferStatus | TransferStatus[], to: TransferStatus): Promise<StockTransfer> {
+        const docRef = db.collection(this.collection).doc(id);
+        const allowed = Array.isArray(from) ? from : [from];
+
+        return db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(docRef);
+            if (!doc.exists) {
+                throw new NotFoundError(`Transfer ${id} not found`);
+            }
+
+            const transfer = { id: doc.id, ...doc.data() } as StockTransfer;
+            if (!allowed.includes(transfer.status)) {
+                throw new ConflictError(`Transfer ${transfer.number} is ${transfer.status}`);
+            }
+            transaction.update(docRef, { status: to, updatedAt: FieldValue.serverTimestamp() });
+            return transfer;
+        });
+    }
+
+    /**
+     * Post the movements of a send or receive, unless an earlier attempt already posted them and then failed
+     * to record the transfer, so that retrying the step does not move the stock twice
+     */
+    private async postOnce(id: string, reason: StockMovementReason, inputs: StockMovementInput[], createdBy?: string): Promise<StockMovement[]> {
+        const posted = await stockService.listSourceMovements('transfer', id, reason);
+        return posted.length ? posted : stockService.post(inputs, { createdBy });
+    }
+
+    private async update(id: string, fields: Partial<StockTransfer>, stamp?: 'sentAt' | 'receivedAt' | 'cancelledAt'): Promise<void> {
+        await db.collection(this.collection).doc(id).update({
+            ...fields,
+            ...(stamp ? { [stamp]: FieldValue.serverTimestamp() } : {}),
+            updatedAt: FieldValue.serverTimestamp()
+        });
+    }
+}
+
+// Export a singleton instance
+export const transferService = new TransferService();
@@ -0,0 +1,70 @@
+// Minimal bidirectional text support for renderers that lay glyphs out left to right
+// (PDFKit, thermal printers). Covers Hebrew mixed with Latin text and numbers; it is not a
+// full implementation of the Unicode bidi algorithm.
+
+type Direction = 'L' | 'R';
+
+const RTL = /[\u0590-\u05FF\uFB1D-\uFB4F]/;
+const LTR = /[A-Za-z0-9\u00C0-\u024F]/;
+
+// Signs that stay with an adjacent number, e.g. `18%` or `₪50`
+const NUMBER_AFFIX = /[%\u2030\u20AA$\u20AC+#\u00B0]/;
+const DIGIT = /[0-9]/;
+
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<' };
+
+/**
+ * Whether a string contains right-to-left characters
+ */
+export const hasRtl = (text: string): boolean => RTL.test(text);
+
+/**
+ * Reorder a string from logical to visual order.
+ * Hebrew runs are reversed (with mirrored brackets); Latin words and numbers keep their order.
+ * The paragraph direction is that of the first letter.
+ */
+export const toVisual = (text: string): string => {
+    if (!hasRtl(text)) {
+        return text;
+    }
+
+    const chars = Array.from(text);
+    const strong = chars.map((char, index): Direction | null => {
+        if (RTL.test(char)) {
+            return 'R';
+        }
+        if (LTR.test(char) || (NUMBER_AFFIX.test(char) && (DIGIT.test(chars[index - 1] || '') || DIGIT.test(chars[index + 1] || '')))) {
+            return 'L';
+        }
+        return null;
+    });
+    // Numbers do not set the paragraph direction
+    const firstLetter = chars.find((char) => RTL.test(char) || (LTR.test(char) && !DIGIT.test(char))) as string;
+    const paragraph: Direction = RTL.test(firstLetter) ? 'R' : 'L';
+
+    // Neutral characters take the direction of the strong characters around them when both sides agree
+    const resolved = strong.map((direction, index): Direction => {
+        if (direction) {
+            return direction;
+        }
+        const before = strong.slice(0, index).reverse().find((candidate) => candidate !== null);
+        const after = strong.slice(index + 1).find((candidate) => candidate !== null);
+        return before && before === after ? before : paragraph;
+    });
+
+    const runs: { direction: Direction, chars: string[] }[] = [];
+    chars.forEach((char, index) => {
+        const last = runs[runs.length - 1];
+        if (last && last.direction === resolved[index]) {
+            last.chars.push(char);
+        } else {
+            runs.push({ direction: resolved[index], chars: [char] });
+        }
+    });
+
+    const visual = runs.map((run) => (run.direction === 'R'
+        ? run.chars.reverse().map((char) => MIRRORED[char] || char).join('')
+        : run.chars.join('')));
+
+    return (paragraph === 'R' ? visual.reverse() : visual).join('');
+};
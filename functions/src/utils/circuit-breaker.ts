@@ -0,0 +1,56 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Minimal circuit breaker.
+ * Opens after `failureThreshold` consecutive failures, fails fast while open,
+ * and lets a single probe through once `resetTimeoutMs` has elapsed.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private probeInFlight = false;
+
+    constructor(private failureThreshold: number, private resetTimeoutMs: number) { }
+
+    getState(): CircuitState {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+            this.state = 'half-open';
+        }
+        return this.state;
+    }
+
+    /**
+     * Check whether a call may proceed. In half-open state only one probe is allowed.
+     */
+    allowRequest(): boolean {
+        const state = this.getState();
+
+        if (state === 'closed') {
+            return true;
+        }
+
+        if (state === 'half-open' && !this.probeInFlight) {
+            this.probeInFlight = true;
+            return true;
+        }
+
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.probeInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        this.probeInFlight = false;
+
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+}
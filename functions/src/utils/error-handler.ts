@@ -1,20 +1,51 @@
 import { Response } from 'express';
+import { AppError } from './errors';
+
+/**
+ * Convert any thrown value to a typed error.
+ * An unexpected error is logged and replaced by a generic message, so that its details never reach the client.
+ */
+export const toAppError = (error: any): AppError => {
+    if (error instanceof AppError) {
+        return error;
+    }
+
+    // Body parser errors (malformed JSON, oversized body) carry an HTTP status
+    const status = error?.status || error?.statusCode;
+    if (status === 400) {
+        return new AppError('VALIDATION_ERROR', error.message || 'Invalid request', 400);
+    }
+    if (status === 413) {
+        return new AppError('PAYLOAD_TOO_LARGE', error.message || 'Payload too large', 413);
+    }
+
+    console.error('Unexpected error:', error);
+    return new AppError('INTERNAL', 'An unexpected error occurred', 500);
+};
 
 /**
  * Standardized error handler for HTTP functions
- * 
+ *
  * @param error - Error object
  * @param res - HTTP response object
  */
 export const handleError = (error: any, res: Response): void => {
-    console.error('Error:', error);
+    const appError = toAppError(error);
 
-    const statusCode = error.status || error.statusCode || 500;
-    const message = error.message || 'An unexpected error occurred';
+    // Unexpected errors are logged by toAppError
+    if (appError.status >= 500) {
+        if (error instanceof AppError) {
+            console.error('Error:', error);
+        }
+    } else {
+        console.warn(`${appError.code}: ${appError.message}`);
+    }
 
-    res.status(statusCode).json({
+    res.status(appError.status).json({
         success: false,
-        message,
-        error: error.toString()
+        data: null,
+        code: appError.code,
+        message: appError.message,
+        ...(appError.details !== undefined ? { details: appError.details } : {})
     });
-}; 
\ No newline at end of file
+};
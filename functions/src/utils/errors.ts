@@ -0,0 +1,138 @@
+// Stable machine-readable error codes returned in the `code` field of error responses
+export type ErrorCode =
+    | 'VALIDATION_ERROR'
+    | 'UNAUTHENTICATED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'METHOD_NOT_ALLOWED'
+    | 'CONFLICT'
+    | 'PAYLOAD_TOO_LARGE'
+    | 'RATE_LIMITED'
+    | 'UPSTREAM_AUTH'
+    | 'UPSTREAM_UNAVAILABLE'
+    | 'UPSTREAM_ERROR'
+    | 'INTERNAL';
+
+/**
+ * Base class for errors that map to an HTTP status and error code
+ */
+export class AppError extends Error {
+    constructor(
+        public readonly code: ErrorCode,
+        message: string,
+        public readonly status: number = 500,
+        public readonly details?: any
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class ValidationError extends AppError {
+    constructor(message: string, details?: any) {
+        super('VALIDATION_ERROR', message, 400, details);
+    }
+}
+
+export class UnauthenticatedError extends AppError {
+    constructor(message: string = 'Authentication required') {
+        super('UNAUTHENTICATED', message, 401);
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(message: string) {
+        super('FORBIDDEN', message, 403);
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(message: string) {
+        super('NOT_FOUND', message, 404);
+    }
+}
+
+export class MethodNotAllowedError extends AppError {
+    constructor(message: string = 'Method Not Allowed') {
+        super('METHOD_NOT_ALLOWED', message, 405);
+    }
+}
+
+export class ConflictError extends AppError {
+    constructor(message: string) {
+        super('CONFLICT', message, 409);
+    }
+}
+
+export class PayloadTooLargeError extends AppError {
+    constructor(message: string) {
+        super('PAYLOAD_TOO_LARGE', message, 413);
+    }
+}
+
+export class RateLimitedError extends AppError {
+    constructor(message: string) {
+        super('RATE_LIMITED', message, 429);
+    }
+}
+
+// Fireberry rejected our credentials; the caller cannot fix this, so it is a gateway error
+export class UpstreamAuthError extends AppError {
+    constructor(message: string) {
+        super('UPSTREAM_AUTH', message, 502);
+    }
+}
+
+export class UpstreamUnavailableError extends AppError {
+    constructor(message: string) {
+        super('UPSTREAM_UNAVAILABLE', message, 503);
+    }
+}
+
+/**
+ * Map a failed Fireberry call (`FireberryResponse.error`) to a typed error.
+ * `code` is the upstream HTTP status captured by FireberryService, or a symbolic code.
+ * @param error - Error from a FireberryResponse
+ * @param fallbackMessage - Message used when Fireberry did not provide one
+ */
+export const fromFireberryError = (
+    error: { code: string, message: string } | undefined,
+    fallbackMessage: string
+): AppError => {
+    const message = error?.message || fallbackMessage;
+    const code = error?.code || 'unknown';
+
+    switch (code) {
+    case 'MISSING_REQUIRED_FIELDS':
+        return new ValidationError(message);
+    case 'CIRCUIT_OPEN':
+    case 'unknown':
+        return new UpstreamUnavailableError(message);
+    }
+
+    const status = Number(code);
+    if (Number.isNaN(status)) {
+        return new AppError('INTERNAL', message, 500);
+    }
+
+    if (status === 400 || status === 422) {
+        return new ValidationError(message);
+    }
+    if (status === 401 || status === 403) {
+        return new UpstreamAuthError(message);
+    }
+    if (status === 404) {
+        return new NotFoundError(message);
+    }
+    if (status === 409) {
+        return new ConflictError(message);
+    }
+    if (status === 429) {
+        return new RateLimitedError(message);
+    }
+    if (status === 408 || status >= 500) {
+        return new UpstreamUnavailableError(message);
+    }
+
+    return new AppError('UPSTREAM_ERROR', message, 502);
+};
@@ -0,0 +1,227 @@
+// ESC/POS command builder for thermal receipt printers (Epson TM series and compatibles).
+// Lines are laid out here, padded to the paper width, so the plain-text preview matches the printout.
+import { toVisual } from './bidi';
+
+export type Align = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+    align?: Align;               // defaults to the reading direction of the receipt
+    bold?: boolean;
+    large?: boolean;             // double width and height, half as many characters per line
+}
+
+export interface EscPosOptions {
+    width: number;               // characters per line in the normal font (48 on 80 mm paper, 32 on 58 mm)
+    codePage: number;            // `ESC t` code table holding Hebrew (PC862)
+    rtl: boolean;                // right-to-left layout: lines start on the right
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Font A is 12 dots wide, which sizes barcodes to the paper
+const DOTS_PER_CHAR = 12;
+
+// Hebrew points and cantillation marks have no glyphs in PC862
+const COMBINING_MARKS = /[\u0591-\u05C7]/g;
+
+/**
+ * Encode a line for the printer: ASCII as is, Hebrew letters in PC862 (0x80-0x9A), anything else as `?`
+ */
+const encode = (line: string): Buffer => Buffer.from(Array.from(line).map((char) => {
+    const code = char.codePointAt(0) as number;
+    if (code >= 0x20 && code < 0x7f) {
+        return code;
+    }
+    if (code >= 0x05d0 && code <= 0x05ea) {
+        return 0x80 + code - 0x05d0;
+    }
+    return 0x3f;
+}));
+
+const length = (value: string) => Array.from(value).length;
+
+export class EscPosBuilder {
+    private commands: Buffer[] = [];
+    private preview: string[] = [];
+
+    constructor(private options: EscPosOptions) {
+        this.commands.push(Buffer.from([ESC, 0x40, ESC, 0x74, options.codePage]));
+    }
+
+    /**
+     * Print text, wrapped at word boundaries to the line width
+     */
+    text(value: string, style: TextStyle = {}): this {
+        const width = style.large ? Math.floor(this.options.width / 2) : this.options.width;
+        const lines = this.wrap(value.replace(COMBINING_MARKS, ''), width)
+            .map((line) => this.pad(toVisual(line), width, style.align));
+
+        return this.styled(lines, style);
+    }
+
+    /**
+     * Print a label at the start of the line and a value at its end, e.g. a total and its amount
+     */
+    row(label: string, value: string, style: Pick<TextStyle, 'bold' | 'large'> = {}): this {
+        const width = style.large ? Math.floor(this.options.width / 2) : this.options.width;
+        const end = toVisual(value.replace(COMBINING_MARKS, ''));
+        const labelWidth = Math.max(1, width - length(end) - 1);
+        const labels = this.wrap(label.replace(COMBINING_MARKS, ''), labelWidth).map((line) => toVisual(line));
+
+        const lines = labels.map((line, index) => {
+            const last = index === labels.length - 1 ? end : '';
+            const gap = ' '.repeat(Math.max(1, width - length(line) - length(last)));
+            return this.options.rtl ? `${last}${gap}${line}` : `${line}${gap}${last}`;
+        });
+
+        return this.styled(lines.map((line) => this.pad(line, width, this.options.rtl ? 'right' : 'left')), style);
+    }
+
+    /**
+     * Print a full-width separator
+     */
+    rule(char = '-'): this {
+        return this.styled([char.repeat(this.options.width)], {});
+    }
+
+    /**
+     * Feed blank lines
+     */
+    feed(lines = 1): this {
+        this.commands.push(Buffer.from([ESC, 0x64, lines]));
+        this.preview.push(...Array(lines).fill(''));
+        return this;
+    }
+
+    /**
+     * Print a centered CODE128 barcode with the human readable text below it.
+     * Long values may not fit 58 mm paper; use a QR code there.
+     */
+    barcode(data: string): this {
+        const ascii = data.replace(/[^\x20-\x7e]/g, '');
+        // Start, check and stop symbols plus quiet zones, 11 modules per character
+        const modules = (length(ascii) + 3) * 11 + 2 + 20;
+        const moduleWidth = Math.max(2, Math.min(4, Math.floor(this.options.width * DOTS_PER_CHAR / modules)));
+        const payload = Buffer.from(`{B${ascii}`, 'ascii');
+
+        this.commands.push(
+            Buffer.from([ESC, 0x61, 1]),
+            Buffer.from([GS, 0x68, 80, GS, 0x77, moduleWidth, GS, 0x48, 2, GS, 0x66, 0]),
+            Buffer.from([GS, 0x6b, 73, payload.length]),
+            payload,
+            Buffer.from([0x0a, ESC, 0x61, 0])
+        );
+        this.preview.push(this.pad(`[BARCODE ${ascii}]`, this.options.width, 'center'));
+        return this;
+    }
+
+    /**
+     * Print a centered QR code (model 2, error correction M)
+     */
+    qrCode(data: string, moduleSize = 6): this {
+        const payload = Buffer.from(data, 'utf8');
+        const stored = payload.length + 3;
+
+        this.commands.push(
+            Buffer.from([ESC, 0x61, 1]),
+            Buffer.from([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0]),
+            Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize]),
+            Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31]),
+            Buffer.from([GS, 0x28, 0x6b, stored % 256, Math.floor(stored / 256), 0x31, 0x50, 0x30]),
+            payload,
+            Buffer.from([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30]),
+            Buffer.from([0x0a, ESC, 0x61, 0])
+        );
+        this.preview.push(this.pad(`[QR ${data}]`, this.options.width, 'center'));
+        return this;
+    }
+
+    /**
+     * Feed past the cutter and partially cut the paper
+     */
+    cut(): this {
+        this.commands.push(Buffer.from([GS, 0x56, 66, 3]));
+        this.preview.push('='.repeat(this.options.width));
+        return this;
+    }
+
+    /**
+     * The command stream to send to the printer
+     */
+    toBuffer(): Buffer {
+        return Buffer.concat(this.commands);
+    }
+
+    /**
+     * The printout as plain text, one line per printed line
+     */
+    toText(): string {
+        return this.preview.map((line) => line.replace(/\s+$/, '')).join('\n') + '\n';
+    }
+
+    private styled(lines: string[], style: TextStyle): this {
+        if (style.bold) {
+            this.commands.push(Buffer.from([ESC, 0x45, 1]));
+        }
+        if (style.large) {
+            this.commands.push(Buffer.from([GS, 0x21, 0x11]));
+        }
+        for (const line of lines) {
+            this.commands.push(encode(line), Buffer.from([0x0a]));
+            // Large text takes two preview columns per character
+            this.preview.push(style.large ? Array.from(line).join(' ') : line);
+        }
+        if (style.large) {
+            this.commands.push(Buffer.from([GS, 0x21, 0]));
+        }
+        if (style.bold) {
+            this.commands.push(Buffer.from([ESC, 0x45, 0]));
+        }
+        return this;
+    }
+
+    private pad(line: string, width: number, align?: Align): string {
+        const space = Math.max(0, width - length(line));
+        const resolved = align || (this.options.rtl ? 'right' : 'left');
+        if (resolved === 'center') {
+            const left = Math.floor(space / 2);
+            return ' '.repeat(left) + line + ' '.repeat(space - left);
+        }
+        return resolved === 'right' ? ' '.repeat(space) + line : line + ' '.repeat(space);
+    }
+
+    /**
+     * Break text into lines that fit the width, in logical order so each line is reordered on its own.
+     * Words longer than a line are split.
+     */
+    private wrap(value: string, width: number): string[] {
+        const lines: string[] = [];
+        for (const paragraph of value.split(/\r?\n/)) {
+            let line = '';
+            for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+                let rest = word;
+                while (length(rest) > width) {
+                    if (line) {
+                        lines.push(line);
+                        line = '';
+                    }
+                    lines.push(Array.from(rest).slice(0, width).join(''));
+                    rest = Array.from(rest).slice(width).join('');
+                }
+                if (!rest) {
+                    continue;
+                }
+                const candidate = line ? `${line} ${rest}` : rest;
+                if (line && length(candidate) > width) {
+                    lines.push(line);
+                    line = rest;
+                } else {
+                    line = candidate;
+                }
+            }
+            lines.push(line);
+        }
+        return lines;
+    }
+}
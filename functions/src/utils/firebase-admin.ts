@@ -0,0 +1,13 @@
+import { initializeApp, getApps, getApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+
+// Initialize the default app once per instance. When running under the
+// emulators, FIREBASE_AUTH_EMULATOR_HOST / FIRESTORE_EMULATOR_HOST /
+// FIREBASE_STORAGE_EMULATOR_HOST are picked up automatically by the Admin SDK.
+const app = getApps().length ? getApp() : initializeApp();
+
+export const adminAuth = getAuth(app);
+export const db = getFirestore(app);
+export const storage = getStorage(app);
@@ -0,0 +1,14 @@
+/**
+ * Round an amount to agorot/cents, half away from zero
+ */
+export const roundMoney = (amount: number): number => {
+    const rounded = Math.round((Math.abs(amount) + Number.EPSILON) * 100) / 100;
+    return amount < 0 ? -rounded : rounded;
+};
+
+/**
+ * Whether two amounts are equal to the agora
+ */
+export const moneyEquals = (a: number, b: number): boolean => {
+    return Math.abs(roundMoney(a) - roundMoney(b)) < 0.005;
+};
@@ -0,0 +1,49 @@
+/**
+ * Simple token-bucket rate limiter.
+ * Tokens refill continuously at `ratePerSecond` up to `capacity`;
+ * `acquire` waits until a token is available.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(private ratePerSecond: number, private capacity: number) {
+        this.tokens = capacity;
+        this.lastRefill = Date.now();
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsedSeconds = (now - this.lastRefill) / 1000;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.ratePerSecond);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Take a token without waiting
+     * @returns true if a token was available
+     */
+    tryAcquire(): boolean {
+        this.refill();
+        if (this.tokens >= 1) {
+            this.tokens -= 1;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Wait until a token is available and take it
+     */
+    async acquire(): Promise<void> {
+        // A non-positive rate disables limiting
+        if (this.ratePerSecond <= 0) {
+            return;
+        }
+
+        while (!this.tryAcquire()) {
+            const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+            await new Promise((resolve) => setTimeout(resolve, Math.max(waitMs, 1)));
+        }
+    }
+}
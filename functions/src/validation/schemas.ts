@@ -0,0 +1,479 @@
+import { ObjectSchema } from './validator';
+import { Product, PaginationParams } from '../services/fireberry/product-service';
+import { Customer, QueryCustomersParams } from '../services/fireberry/customer-service';
+import { Order, OrderItem } from '../services/fireberry/order-service';
+import { RepairTicket, RepairPart, RepairLog } from '../services/fireberry/repair-service';
+import { Invoice, InvoiceItem } from '../services/fireberry/invoice-service';
+import { VatLine } from '../services/pricing-service';
+import { CartItem, CheckoutRequest } from '../services/checkout-service';
+import { Promotion, PromotionContext } from '../services/promotion-service';
+import { CreditRefundInput, PaymentInput, RefundInput } from '../services/payment-service';
+import { CloseDrawerInput, DenominationCount, DENOMINATIONS, DrawerMovement, DrawerSession, DrawerSessionStatus } from '../services/drawer-service';
+import { ExchangeRequest, ReturnLine, ReturnRequest } from '../services/returns-service';
+import { ReceiptOptions } from '../services/receipt-service';
+import { OutboxStatus } from '../services/outbox-service';
+import { SendEmailInput } from '../services/email-service';
+import { MovementQuery, StockMovementInput } from '../services/stock-service';
+import { StockLocation } from '../services/location-service';
+import { TransferInput, TransferItem, TransferQuery } from '../services/transfer-service';
+import {
+    PurchaseOrderInput,
+    PurchaseOrderLine,
+    PurchaseOrderQuery,
+    ReceivingInput,
+    ReceivingLine
+} from '../services/purchase-order-service';
+import { ReorderPurchaseInput } from '../services/reorder-service';
+import { ApproveInput, CountInput, CountSubmission, StocktakeInput, StocktakeStatus } from '../services/stocktake-service';
+
+// Runtime schemas mirroring the service interfaces.
+// ObjectSchema<T> requires an entry for every interface field, so adding a field
+// to an interface without updating its schema is a compile error.
+
+export const paginationSchema: ObjectSchema<PaginationParams> = {
+    pageSize: { type: 'integer', min: 1, max: 50 },
+    pageNumber: { type: 'integer', min: 1 }
+};
+
+export const productSchema: ObjectSchema<Product> = {
+    id: { type: 'string' },
+    name: { type: 'string', required: true, max: 255 },
+    catalognumber: { type: 'string' },
+    categorycode: { type: 'integer' },
+    description: { type: 'string', max: 4000 },
+    itemprice: { type: 'number', min: 0 },
+    itemquantity: { type: 'number' },
+    ownerid: { type: 'string' },
+    ProductCost: { type: 'number', min: 0 },
+    productid: { type: 'string' },
+    statuscode: { type: 'integer' },
+    vendorname: { type: 'string' },
+    vendorpartnumber: { type: 'string' }
+};
+
+export const customerSchema: ObjectSchema<Customer> = {
+    id: { type: 'string' },
+    accountid: { type: 'string' },
+    accountname: { type: 'string', required: true, max: 255 },
+    accountnumber: { type: 'string' },
+    emailaddress1: { type: 'string' },
+    emailaddress2: { type: 'string' },
+    telephone1: { type: 'string' },
+    telephone2: { type: 'string' },
+    firstname: { type: 'string' },
+    lastname: { type: 'string' },
+    birthdaydate: { type: 'date' },
+    billingcity: { type: 'string' },
+    billingcountry: { type: 'string' },
+    billingstate: { type: 'string' },
+    billingstreet: { type: 'string' },
+    billingzipcode: { type: 'string' },
+    description: { type: 'string', max: 4000 },
+    idnumber: { type: 'string' },
+    revenue: { type: 'number' },
+    statuscode: { type: 'integer' },
+    statecode: { type: 'integer' },
+    websiteurl: { type: 'string' },
+    createdon: { type: 'date' },
+    ownerid: { type: 'string' }
+};
+
+export const queryCustomersSchema: ObjectSchema<QueryCustomersParams> = {
+    query: { type: 'string', max: 100 },
+    pageSize: { type: 'integer', min: 1, max: 50 },
+    pageNumber: { type: 'integer', min: 1 },
+    sortBy: { type: 'string', enum: Object.keys(customerSchema) },
+    sortDirection: { type: 'string', enum: ['asc', 'desc'] }
+};
+
+export const birthdaysQuerySchema: ObjectSchema<{ days?: number }> = {
+    days: { type: 'integer', min: 0, max: 366 }
+};
+
+export const orderSchema: ObjectSchema<Order> = {
+    id: { type: 'string' },
+    accountid: { type: 'string', required: true },
+    companyname: { type: 'string', required: true },
+    name: { type: 'string' },
+    description: { type: 'string', max: 4000 },
+    statuscode: { type: 'integer' },
+    orderdate: { type: 'date' },
+    totalamount: { type: 'number', min: 0 },
+    subtotal: { type: 'number', min: 0 },
+    discount: { type: 'number', min: 0 },
+    tax: { type: 'number', min: 0 },
+    shippingaddress: { type: 'string' },
+    billingaddress: { type: 'string' },
+    paymentterms: { type: 'string' }
+};
+
+export const orderItemSchema: ObjectSchema<OrderItem> = {
+    id: { type: 'string' },
+    orderid: { type: 'string', required: true },
+    productid: { type: 'string' },
+    name: { type: 'string', required: true },
+    quantity: { type: 'number', required: true, min: 0 },
+    unitprice: { type: 'number', required: true, min: 0 },
+    amount: { type: 'number', required: true },
+    description: { type: 'string' }
+};
+
+export const repairPartSchema: ObjectSchema<RepairPart> = {
+    id: { type: 'string' },
+    productId: { type: 'string' },
+    locationId: { type: 'string', max: 50 },
+    name: { type: 'string', required: true },
+    price: { type: 'number', required: true, min: 0 },
+    quantity: { type: 'number', required: true, min: 0 },
+    status: { type: 'string', required: true, enum: ['in-stock', 'ordered', 'received', 'used'] }
+};
+
+export const repairLogSchema: ObjectSchema<RepairLog> = {
+    id: { type: 'string' },
+    date: { type: 'date', required: true },
+    technician: { type: 'string', required: true },
+    action: { type: 'string', required: true },
+    notes: { type: 'string' }
+};
+
+export const repairTicketSchema: ObjectSchema<RepairTicket> = {
+    id: { type: 'string' },
+    ticketNumber: { type: 'string' },
+    customerId: { type: 'string' },
+    customerName: { type: 'string', required: true },
+    customerPhone: { type: 'string', required: true },
+    deviceType: { type: 'string', required: true },
+    deviceModel: { type: 'string', required: true },
+    serialNumber: { type: 'string' },
+    issue: { type: 'string', required: true, max: 4000 },
+    status: { type: 'string', required: true, enum: ['pending', 'in-progress', 'waiting-parts', 'completed', 'delivered'] },
+    priority: { type: 'string', required: true, enum: ['low', 'medium', 'high', 'urgent'] },
+    estimatedCost: { type: 'number', required: true, min: 0 },
+    actualCost: { type: 'number', min: 0 },
+    dateCreated: { type: 'date', required: true },
+    estimatedCompletion: { type: 'date' },
+    completionDate: { type: 'date' },
+    notes: { type: 'string', max: 4000 },
+    technician: { type: 'string' },
+    parts: { type: 'array', items: { type: 'object', fields: repairPartSchema } },
+    logs: { type: 'array', items: { type: 'object', fields: repairLogSchema } }
+};
+
+export const invoiceItemSchema: ObjectSchema<InvoiceItem> = {
+    id: { type: 'string' },
+    productId: { type: 'string', required: true },
+    productName: { type: 'string', required: true },
+    description: { type: 'string' },
+    quantity: { type: 'number', required: true, min: 0 },
+    unitPrice: { type: 'number', required: true, min: 0 },
+    discount: { type: 'number', required: true, min: 0 },
+    total: { type: 'number', required: true }
+};
+
+export const vatLineSchema: ObjectSchema<VatLine> = {
+    rate: { type: 'number', required: true, min: 0 },
+    base: { type: 'number', required: true },
+    vat: { type: 'number', required: true }
+};
+
+export const invoiceSchema: ObjectSchema<Invoice> = {
+    id: { type: 'string' },
+    number: { type: 'string' },
+    type: { type: 'string', required: true, enum: ['invoice', 'quote', 'receipt'] },
+    date: { type: 'date', required: true },
+    dueDate: { type: 'date' },
+    customerId: { type: 'string' },
+    customerName: { type: 'string' },
+    customerPhone: { type: 'string' },
+    customerEmail: { type: 'string' },
+    customerAddress: { type: 'string' },
+    items: { type: 'array', required: true, min: 1, items: { type: 'object', fields: invoiceItemSchema } },
+    subtotal: { type: 'number', required: true },
+    tax: { type: 'number', required: true, min: 0 },
+    discount: { type: 'number', required: true, min: 0 },
+    total: { type: 'number', required: true },
+    // Computed by the pricing engine; routes omit it from the request
+    vat: { type: 'array', items: { type: 'object', fields: vatLineSchema } },
+    notes: { type: 'string', max: 4000 },
+    // Paid, partially paid and overdue are derived from the payments, never set by the client
+    status: { type: 'string', required: true, enum: ['draft', 'sent', 'cancelled'] },
+    paymentMethod: { type: 'string', enum: ['cash', 'credit', 'bank', 'mobile'] },
+    paymentDate: { type: 'date' },
+    promotions: { type: 'array', items: { type: 'string' } },
+    originalInvoiceId: { type: 'string' }
+};
+
+export const repairStatusSchema: ObjectSchema<Pick<RepairTicket, 'status'>> = {
+    status: repairTicketSchema.status
+};
+
+export const assignTechnicianSchema: ObjectSchema<{ technician: string }> = {
+    technician: { type: 'string', required: true }
+};
+
+export const completeRepairSchema: ObjectSchema<{ actualCost: number, notes?: string }> = {
+    actualCost: { type: 'number', required: true, min: 0 },
+    notes: { type: 'string', max: 4000 }
+};
+
+export const cartItemSchema: ObjectSchema<CartItem> = {
+    productId: { type: 'string', required: true },
+    quantity: { type: 'number', required: true, min: 0.001 }
+};
+
+export const paymentSchema: ObjectSchema<PaymentInput> = {
+    method: { type: 'string', required: true, enum: ['cash', 'credit', 'bank', 'mobile'] },
+    amount: { type: 'number', required: true, min: 0.01 },
+    tendered: { type: 'number', min: 0 },
+    reference: { type: 'string', max: 255 },
+    cardLast4: { type: 'string', min: 4, max: 4 }
+};
+
+export const refundSchema: ObjectSchema<RefundInput> = {
+    amount: { type: 'number', min: 0.01 },
+    method: { type: 'string', enum: ['cash', 'credit', 'bank', 'mobile'] },
+    reference: paymentSchema.reference
+};
+
+export const voidPaymentSchema: ObjectSchema<{ reason: string }> = {
+    reason: { type: 'string', required: true, max: 1000 }
+};
+
+export const checkoutSchema: ObjectSchema<CheckoutRequest> = {
+    accountid: { type: 'string', required: true },
+    companyname: { type: 'string', required: true },
+    customerName: { type: 'string' },
+    customerPhone: { type: 'string' },
+    customerEmail: { type: 'string' },
+    customerAddress: { type: 'string' },
+    items: { type: 'array', required: true, min: 1, max: 100, items: { type: 'object', fields: cartItemSchema } },
+    invoiceType: { type: 'string', enum: ['invoice', 'receipt'] },
+    paymentMethod: invoiceSchema.paymentMethod,
+    payments: { type: 'array', max: 10, items: { type: 'object', fields: paymentSchema } },
+    couponCodes: { type: 'array', max: 10, items: { type: 'string', max: 50 } },
+    customerSegment: { type: 'string' },
+    locationId: { type: 'string', max: 50 },
+    notes: { type: 'string', max: 4000 }
+};
+
+export const returnLineSchema: ObjectSchema<ReturnLine> = {
+    productId: { type: 'string', required: true },
+    quantity: { type: 'number', required: true, min: 0.001 },
+    restock: { type: 'boolean' }
+};
+
+export const creditRefundSchema: ObjectSchema<CreditRefundInput> = {
+    paymentId: { type: 'string' },
+    method: refundSchema.method,
+    amount: { type: 'number', min: 0.01 },
+    reference: paymentSchema.reference
+};
+
+export const exchangeSchema: ObjectSchema<ExchangeRequest> = {
+    items: checkoutSchema.items,
+    paymentMethod: checkoutSchema.paymentMethod,
+    payments: checkoutSchema.payments,
+    couponCodes: checkoutSchema.couponCodes,
+    customerSegment: checkoutSchema.customerSegment,
+    notes: checkoutSchema.notes
+};
+
+export const returnSchema: ObjectSchema<ReturnRequest> = {
+    invoiceId: { type: 'string', required: true },
+    items: { type: 'array', required: true, min: 1, max: 100, items: { type: 'object', fields: returnLineSchema } },
+    reason: { type: 'string', max: 1000 },
+    restock: { type: 'boolean' },
+    locationId: { type: 'string', max: 50 },
+    refunds: { type: 'array', max: 10, items: { type: 'object', fields: creditRefundSchema } },
+    exchange: { type: 'object', fields: exchangeSchema }
+};
+
+export const promotionSchema: ObjectSchema<Promotion> = {
+    id: { type: 'string' },
+    name: { type: 'string', required: true, max: 255 },
+    type: { type: 'string', required: true, enum: ['percent-off', 'amount-off', 'buy-x-get-y', 'bundle-price'] },
+    active: { type: 'boolean', required: true },
+    startsAt: { type: 'date' },
+    endsAt: { type: 'date' },
+    productIds: { type: 'array', items: { type: 'string' } },
+    categoryCodes: { type: 'array', items: { type: 'integer' } },
+    customerSegments: { type: 'array', items: { type: 'string' } },
+    couponCode: { type: 'string', max: 50 },
+    stackable: { type: 'boolean', required: true },
+    priority: { type: 'integer' },
+    usageLimit: { type: 'integer', min: 1 },
+    usageCount: { type: 'integer', min: 0 },
+    percent: { type: 'number', min: 0, max: 100 },
+    amount: { type: 'number', min: 0 },
+    buyQuantity: { type: 'integer', min: 1 },
+    getQuantity: { type: 'integer', min: 1 },
+    bundleQuantity: { type: 'integer', min: 2 },
+    bundlePrice: { type: 'number', min: 0 }
+};
+
+export const evaluateCartSchema: ObjectSchema<Omit<PromotionContext, 'date'> & { items: CartItem[] }> = {
+    items: checkoutSchema.items,
+    couponCodes: checkoutSchema.couponCodes,
+    customerSegment: checkoutSchema.customerSegment
+};
+
+export const openDrawerSchema: ObjectSchema<Pick<DrawerSession, 'registerId' | 'openingFloat'>> = {
+    registerId: { type: 'string', required: true, max: 100 },
+    openingFloat: { type: 'number', required: true, min: 0 }
+};
+
+export const drawerSessionQuerySchema: ObjectSchema<{ registerId?: string, status?: DrawerSessionStatus, limit?: number }> = {
+    registerId: { type: 'string', max: 100 },
+    status: { type: 'string', enum: ['open', 'closed'] },
+    limit: { type: 'integer', min: 1, max: 200 }
+};
+
+export const drawerMovementSchema: ObjectSchema<Pick<DrawerMovement, 'type' | 'amount' | 'reason'>> = {
+    type: { type: 'string', required: true, enum: ['paid-in', 'paid-out'] },
+    amount: { type: 'number', required: true, min: 0.01 },
+    reason: { type: 'string', required: true, max: 1000 }
+};
+
+export const denominationCountSchema: ObjectSchema<DenominationCount> = {
+    value: { type: 'number', required: true, enum: DENOMINATIONS },
+    count: { type: 'integer', required: true, min: 0 }
+};
+
+export const closeDrawerSchema: ObjectSchema<CloseDrawerInput> = {
+    denominations: { type: 'array', required: true, items: { type: 'object', fields: denominationCountSchema } },
+    notes: { type: 'string', max: 4000 }
+};
+
+export const outboxQuerySchema: ObjectSchema<{ status?: OutboxStatus, limit?: number }> = {
+    status: { type: 'string', enum: ['pending', 'processing', 'completed', 'dead'] },
+    limit: { type: 'integer', min: 1, max: 200 }
+};
+
+export const receiptQuerySchema: ObjectSchema<ReceiptOptions> = {
+    format: { type: 'string', enum: ['escpos', 'text'] },
+    width: { type: 'integer', min: 24, max: 64 },
+    code: { type: 'string', enum: ['qr', 'barcode', 'none'] }
+};
+
+export const sendEmailSchema: ObjectSchema<SendEmailInput> = {
+    to: { type: 'string', min: 3, max: 254 },
+    subject: { type: 'string', max: 255 },
+    message: { type: 'string', max: 4000 }
+};
+
+// Movements entered by hand; sales, returns and repair parts are recorded by their documents
+export const stockMovementSchema: ObjectSchema<Omit<StockMovementInput, 'productId'>> = {
+    quantity: { type: 'number', required: true },
+    reason: { type: 'string', required: true, enum: ['receiving', 'shrinkage', 'count-correction'] },
+    locationId: { type: 'string', max: 50 },
+    sourceType: { type: 'string', max: 50 },
+    sourceId: { type: 'string', max: 255 },
+    note: { type: 'string', max: 500 }
+};
+
+export const movementQuerySchema: ObjectSchema<MovementQuery> = {
+    reason: { type: 'string', enum: ['sale', 'return', 'receiving', 'repair-part', 'shrinkage', 'count-correction', 'transfer-out', 'transfer-in'] },
+    limit: { type: 'integer', min: 1, max: 200 }
+};
+
+export const stockLocationSchema: ObjectSchema<Omit<StockLocation, 'createdAt' | 'updatedAt'>> = {
+    id: { type: 'string', required: true, min: 1, max: 50 },
+    name: { type: 'string', required: true, max: 255 },
+    branchId: { type: 'string', max: 100 },
+    isDefault: { type: 'boolean' },
+    active: { type: 'boolean', required: true }
+};
+
+export const stockMinimumSchema: ObjectSchema<{ minimum: number }> = {
+    minimum: { type: 'number', required: true, min: 0 }
+};
+
+export const transferItemSchema: ObjectSchema<TransferItem> = {
+    productId: { type: 'string', required: true },
+    quantity: { type: 'number', required: true, min: 0.001 }
+};
+
+export const transferSchema: ObjectSchema<TransferInput> = {
+    fromLocationId: { type: 'string', required: true, max: 50 },
+    toLocationId: { type: 'string', required: true, max: 50 },
+    items: { type: 'array', required: true, min: 1, max: 200, items: { type: 'object', fields: transferItemSchema } },
+    note: { type: 'string', max: 1000 },
+    send: { type: 'boolean' }
+};
+
+export const transferQuerySchema: ObjectSchema<TransferQuery> = {
+    status: { type: 'string', enum: ['draft', 'sent', 'received', 'cancelled'] },
+    fromLocationId: { type: 'string', max: 50 },
+    toLocationId: { type: 'string', max: 50 },
+    limit: { type: 'integer', min: 1, max: 200 }
+};
+
+// Received quantities are recorded by receiving, never entered on the order
+export const purchaseOrderLineSchema: ObjectSchema<Omit<PurchaseOrderLine, 'receivedQuantity'>> = {
+    id: { type: 'string', max: 100 },
+    productId: { type: 'string', required: true },
+    inventoryItemId: { type: 'string' },
+    description: { type: 'string', max: 1000 },
+    quantity: { type: 'number', required: true, min: 0.001 },
+    unitCost: { type: 'number', required: true, min: 0 },
+    expectedDate: { type: 'date' }
+};
+
+export const purchaseOrderSchema: ObjectSchema<PurchaseOrderInput> = {
+    supplier: { type: 'string', required: true, max: 255 },
+    supplierContact: { type: 'string', max: 255 },
+    locationId: { type: 'string', max: 50 },
+    expectedDate: { type: 'date' },
+    notes: { type: 'string', max: 4000 },
+    lines: { type: 'array', required: true, min: 1, max: 200, items: { type: 'object', fields: purchaseOrderLineSchema } }
+};
+
+export const purchaseOrderQuerySchema: ObjectSchema<PurchaseOrderQuery> = {
+    status: { type: 'string', enum: ['draft', 'sent', 'partially-received', 'received', 'cancelled'] },
+    supplier: { type: 'string', max: 255 },
+    limit: { type: 'integer', min: 1, max: 200 }
+};
+
+export const receivingLineSchema: ObjectSchema<ReceivingLine> = {
+    lineId: { type: 'string', required: true },
+    quantity: { type: 'number', required: true, min: 0.001 },
+    unitCost: { type: 'number', min: 0 }
+};
+
+export const receivingSchema: ObjectSchema<ReceivingInput> = {
+    lines: { type: 'array', required: true, min: 1, max: 200, items: { type: 'object', fields: receivingLineSchema } },
+    note: { type: 'string', max: 1000 }
+};
+
+export const reorderPurchaseSchema: ObjectSchema<ReorderPurchaseInput> = {
+    suppliers: { type: 'array', min: 1, max: 100, items: { type: 'string', max: 255 } },
+    locationId: { type: 'string', max: 50 },
+    expectedDate: { type: 'date' }
+};
+
+export const stocktakeSchema: ObjectSchema<StocktakeInput> = {
+    locationId: { type: 'string', max: 50 },
+    categoryCode: { type: 'integer' },
+    note: { type: 'string', max: 1000 }
+};
+
+export const stocktakeQuerySchema: ObjectSchema<{ locationId?: string, status?: StocktakeStatus, limit?: number }> = {
+    locationId: { type: 'string', max: 50 },
+    status: { type: 'string', enum: ['open', 'approving', 'approved', 'cancelled'] },
+    limit: { type: 'integer', min: 1, max: 200 }
+};
+
+export const countSchema: ObjectSchema<CountInput> = {
+    code: { type: 'string', max: 100 },
+    productId: { type: 'string' },
+    quantity: { type: 'number', required: true }
+};
+
+export const countSubmissionSchema: ObjectSchema<CountSubmission> = {
+    deviceId: { type: 'string', max: 100 },
+    counts: { type: 'array', required: true, min: 1, max: 500, items: { type: 'object', fields: countSchema } }
+};
+
+export const approveStocktakeSchema: ObjectSchema<ApproveInput> = {
+    zeroUncounted: { type: 'boolean' }
+};
@@ -0,0 +1,210 @@
+import { Response } from 'express';
+import { handleError } from '../utils/error-handler';
+import { ValidationError } from '../utils/errors';
+
+// Supported field types
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'object' | 'array';
+
+// Schema for a single field
+export interface FieldSchema {
+    type: FieldType;
+    required?: boolean;
+    enum?: readonly (string | number | boolean)[];
+    min?: number;                // minimum value (numbers) or length (strings, arrays)
+    max?: number;                // maximum value (numbers) or length (strings, arrays)
+    items?: FieldSchema;         // element schema for arrays
+    fields?: ObjectSchema<any>;  // nested schema for objects (and array elements)
+}
+
+// Object schema covering every property of T, so schemas stay in sync with the interfaces
+export type ObjectSchema<T> = {
+    [K in keyof Required<T>]: FieldSchema;
+};
+
+// Field-level validation error
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+export type ValidationResult<T> =
+    | { valid: true, value: T }
+    | { valid: false, errors: FieldError[] };
+
+// Validation options
+export interface ValidateOptions {
+    partial?: boolean;           // ignore `required` (updates)
+    allowUnknown?: boolean;      // keep unknown fields instead of rejecting them (query strings)
+    omit?: string[];             // fields that must not be supplied (e.g. 'id' on create)
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Coerce and check a single value
+ */
+const validateField = (path: string, schema: FieldSchema, input: any, errors: FieldError[], options: ValidateOptions): any => {
+    let value = input;
+
+    switch (schema.type) {
+    case 'number':
+    case 'integer':
+        if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+            value = Number(value);
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            errors.push({ field: path, message: `must be a ${schema.type}` });
+            return undefined;
+        }
+        if (schema.type === 'integer' && !Number.isInteger(value)) {
+            errors.push({ field: path, message: 'must be an integer' });
+            return undefined;
+        }
+        if (schema.min !== undefined && value < schema.min) {
+            errors.push({ field: path, message: `must be at least ${schema.min}` });
+        }
+        if (schema.max !== undefined && value > schema.max) {
+            errors.push({ field: path, message: `must be at most ${schema.max}` });
+        }
+        break;
+    case 'boolean':
+        if (value === 'true' || value === 'false') {
+            value = value === 'true';
+        }
+        if (typeof value !== 'boolean') {
+            errors.push({ field: path, message: 'must be a boolean' });
+            return undefined;
+        }
+        break;
+    case 'string':
+    case 'date':
+        if (typeof value === 'number' && schema.type === 'string') {
+            value = String(value);
+        }
+        if (typeof value !== 'string') {
+            errors.push({ field: path, message: `must be a ${schema.type === 'date' ? 'date string' : 'string'}` });
+            return undefined;
+        }
+        if (schema.type === 'date' && (!ISO_DATE.test(value) || Number.isNaN(Date.parse(value)))) {
+            errors.push({ field: path, message: 'must be an ISO 8601 date' });
+            return undefined;
+        }
+        if (schema.min !== undefined && value.length < schema.min) {
+            errors.push({ field: path, message: `must be at least ${schema.min} characters` });
+        }
+        if (schema.max !== undefined && value.length > schema.max) {
+            errors.push({ field: path, message: `must be at most ${schema.max} characters` });
+        }
+        break;
+    case 'array':
+        if (!Array.isArray(value)) {
+            errors.push({ field: path, message: 'must be an array' });
+            return undefined;
+        }
+        if (schema.min !== undefined && value.length < schema.min) {
+            errors.push({ field: path, message: `must contain at least ${schema.min} item(s)` });
+        }
+        if (schema.max !== undefined && value.length > schema.max) {
+            errors.push({ field: path, message: `must contain at most ${schema.max} item(s)` });
+        }
+        if (schema.items) {
+            const itemSchema = schema.items;
+            value = value.map((item: any, index: number) =>
+                validateField(`${path}[${index}]`, itemSchema, item, errors, { ...options, partial: false, omit: undefined }));
+        }
+        return value;
+    case 'object':
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            errors.push({ field: path, message: 'must be an object' });
+            return undefined;
+        }
+        if (schema.fields) {
+            return validateObject(schema.fields, value, errors, { ...options, partial: false, omit: undefined }, `${path}.`);
+        }
+        return value;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push({ field: path, message: `must be one of: ${schema.enum.join(', ')}` });
+    }
+
+    return value;
+};
+
+/**
+ * Validate an object against a schema, collecting errors
+ */
+const validateObject = (schema: ObjectSchema<any>, input: any, errors: FieldError[], options: ValidateOptions, prefix = ''): any => {
+    const output: Record<string, any> = {};
+
+    for (const key of Object.keys(input)) {
+        const fieldSchema = schema[key];
+        if (options.omit?.includes(key)) {
+            errors.push({ field: `${prefix}${key}`, message: 'is not allowed' });
+        } else if (!fieldSchema) {
+            if (options.allowUnknown) {
+                output[key] = input[key];
+            } else {
+                errors.push({ field: `${prefix}${key}`, message: 'is not a known field' });
+            }
+        }
+    }
+
+    for (const [key, fieldSchema] of Object.entries(schema) as [string, FieldSchema][]) {
+        if (options.omit?.includes(key)) {
+            continue;
+        }
+
+        const value = input[key];
+        if (value === undefined || value === null || (value === '' && fieldSchema.required)) {
+            if (fieldSchema.required && !options.partial) {
+                errors.push({ field: `${prefix}${key}`, message: 'is required' });
+            } else if (value === null) {
+                output[key] = null;
+            }
+            continue;
+        }
+
+        const coerced = validateField(`${prefix}${key}`, fieldSchema, value, errors, options);
+        if (coerced !== undefined) {
+            output[key] = coerced;
+        }
+    }
+
+    return output;
+};
+
+/**
+ * Validate and coerce input against a schema
+ * @param schema - Object schema
+ * @param input - Request body or query
+ * @param options - Validation options
+ * @returns The coerced value, or the field-level errors
+ */
+export const validate = <T>(schema: ObjectSchema<T>, input: any, options: ValidateOptions = {}): ValidationResult<T> => {
+    const errors: FieldError[] = [];
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { valid: false, errors: [{ field: '', message: 'must be an object' }] };
+    }
+
+    const value = validateObject(schema, input, errors, options);
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, value: value as T };
+};
+
+/**
+ * Validate request input and send a 400 VALIDATION_ERROR with field errors when it is invalid.
+ * @returns The coerced value, or null if a response has been sent
+ */
+export const validateRequest = <T>(schema: ObjectSchema<T>, input: any, res: Response, options: ValidateOptions = {}): T | null => {
+    const result = validate(schema, input, options);
+
+    if (!result.valid) {
+        const message = `Validation failed: ${result.errors.map((error) => `${error.field} ${error.message}`).join('; ')}`;
+        handleError(new ValidationError(message, result.errors), res);
+        return null;
+    }
+
+    return result.value;
+};
@@ -0,0 +1,187 @@
+import { FireberryEmulator, matchesQuery, parseQuery } from '../src/emulator/fireberry-emulator';
+import { FireberryService } from '../src/services/fireberry/fireberry-service';
+
+describe('parseQuery', () => {
+    it('parses a single condition', () => {
+        expect(parseQuery('(name = \'Cable\')')).toEqual({ kind: 'condition', field: 'name', operator: '=', value: 'Cable' });
+    });
+
+    it('reads unquoted values up to whitespace or a closing parenthesis', () => {
+        expect(parseQuery('(itemprice >= 10)')).toEqual({ kind: 'condition', field: 'itemprice', operator: '>=', value: '10' });
+    });
+
+    it('parses null checks without a value', () => {
+        expect(parseQuery('categorycode is-not-null')).toEqual({ kind: 'condition', field: 'categorycode', operator: 'is-not-null' });
+    });
+
+    it('prefers the longest operator', () => {
+        expect(parseQuery('name not-start-with \'A\'')).toMatchObject({ operator: 'not-start-with' });
+        expect(parseQuery('itemprice <= 5')).toMatchObject({ operator: '<=' });
+    });
+
+    it('binds AND tighter than OR', () => {
+        expect(parseQuery('(a = 1) OR (b = 2) AND (c = 3)')).toEqual({
+            kind: 'or',
+            left: { kind: 'condition', field: 'a', operator: '=', value: '1' },
+            right: {
+                kind: 'and',
+                left: { kind: 'condition', field: 'b', operator: '=', value: '2' },
+                right: { kind: 'condition', field: 'c', operator: '=', value: '3' }
+            }
+        });
+    });
+
+    it('groups with parentheses and accepts lower case keywords', () => {
+        expect(parseQuery('((a = 1) or (b = 2)) and (c = 3)')).toMatchObject({
+            kind: 'and',
+            left: { kind: 'or' },
+            right: { kind: 'condition', field: 'c' }
+        });
+    });
+
+    it('does not read a field starting with a keyword as the keyword', () => {
+        expect(parseQuery('(a = 1) OR ORDERNAME = \'x\'')).toMatchObject({
+            kind: 'or',
+            right: { kind: 'condition', field: 'ORDERNAME' }
+        });
+    });
+
+    it.each([
+        ['(name = \'Cable\'', /Expected '\)'/],
+        ['name = \'Cable', /Unterminated string literal/],
+        ['name ~ 1', /Unknown operator/],
+        ['= 1', /Expected field name/],
+        ['(a = 1) (b = 2)', /Unexpected input/]
+    ])('rejects %s', (query, message) => {
+        expect(() => parseQuery(query)).toThrow(message);
+    });
+});
+
+describe('matchesQuery', () => {
+    const record = { name: 'USB Cable', catalognumber: 'CB-100', itemprice: 25, categorycode: null };
+    const matches = (query: string) => matchesQuery(parseQuery(query), record);
+
+    it('matches start-with case insensitively, anywhere with a leading %', () => {
+        expect(matches('name start-with \'usb\'')).toBe(true);
+        expect(matches('name start-with \'cable\'')).toBe(false);
+        expect(matches('name start-with \'%cable\'')).toBe(true);
+        expect(matches('name not-start-with \'usb\'')).toBe(false);
+    });
+
+    it('compares numbers numerically and text alphabetically', () => {
+        expect(matches('itemprice > 9')).toBe(true);
+        expect(matches('itemprice <= 25')).toBe(true);
+        expect(matches('catalognumber < \'CB-200\'')).toBe(true);
+    });
+
+    it('treats null fields as matching only null checks and inequality', () => {
+        expect(matches('categorycode is-null')).toBe(true);
+        expect(matches('categorycode = 1')).toBe(false);
+        expect(matches('categorycode != 1')).toBe(true);
+        expect(matches('categorycode start-with \'%\'')).toBe(false);
+    });
+
+    it('combines conditions with AND and OR', () => {
+        expect(matches('(name start-with \'%cable\') AND (itemprice = 30)')).toBe(false);
+        expect(matches('(name start-with \'%cable\') OR (itemprice = 30)')).toBe(true);
+    });
+});
+
+describe('FireberryEmulator', () => {
+    const emulator = new FireberryEmulator({ token: 'test-token' });
+    let baseUrl: string;
+    let service: FireberryService;
+
+    beforeAll(async () => {
+        baseUrl = await emulator.start();
+        service = new FireberryService({
+            baseUrl,
+            token: 'test-token',
+            maxRetries: 0,
+            rateLimitPerSecond: 0,
+            breakerFailureThreshold: 100
+        });
+    });
+
+    afterAll(() => emulator.stop());
+
+    beforeEach(() => {
+        emulator.reset();
+        // Failed calls are logged by the service
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('creates, reads, updates and deletes records', async () => {
+        const created = await service.callApi<any>('api/record/product', 'POST', { name: 'Cable', itemprice: 25 });
+        expect(created.success).toBe(true);
+        const id = created.data.data.Record.productid;
+
+        const updated = await service.callApi<any>(`api/record/product/${id}`, 'PUT', { itemprice: 30 });
+        expect(updated.data.data.Record).toMatchObject({ productid: id, name: 'Cable', itemprice: 30 });
+
+        const fetched = await service.callApi<any>(`api/record/product/${id}`);
+        expect(fetched.data.data.Record.itemprice).toBe(30);
+
+        expect((await service.callApi(`api/record/product/${id}`, 'DELETE')).success).toBe(true);
+        expect(await service.callApi(`api/record/product/${id}`)).toMatchObject({
+            success: false,
+            error: { code: '404', message: 'Record not found' }
+        });
+    });
+
+    it('rejects requests without the token', async () => {
+        const unauthorized = new FireberryService({ baseUrl, token: 'wrong', maxRetries: 0, rateLimitPerSecond: 0 });
+        expect(await unauthorized.callApi('api/record/product')).toMatchObject({ success: false, error: { code: '401' } });
+    });
+
+    it('pages records, capping the page size', async () => {
+        emulator.seed('product', Array.from({ length: 60 }, (_, index) => ({ name: `Product ${index}` })));
+
+        const first = await service.callApi<any>('api/record/product?pagesize=500&pagenumber=1');
+        expect(first.data.data).toMatchObject({ Total_Records: 60, Page_Size: 50, Page_Number: 1 });
+        expect(first.data.data.Records).toHaveLength(50);
+
+        const second = await service.callApi<any>('api/record/product?pagesize=500&pagenumber=2');
+        expect(second.data.data.Records).toHaveLength(10);
+    });
+
+    it('queries with filters, sorting, fields and paging', async () => {
+        emulator.seed('product', [
+            { name: 'USB Cable', itemprice: 25 },
+            { name: 'HDMI Cable', itemprice: 40 },
+            { name: 'Charger', itemprice: 80 }
+        ]);
+
+        const result = await service.callApi<any>('api/query', 'POST', {
+            objecttype: 14,
+            query: '(name start-with \'%cable\') OR (itemprice > 50)',
+            fields: 'name,itemprice',
+            sort_by: 'itemprice',
+            sort_type: 'desc',
+            page_size: 2,
+            page_number: 1
+        });
+
+        expect(result.data.data).toMatchObject({
+            Total_Records: 3,
+            IsLastPage: false,
+            Data: [{ name: 'Charger', itemprice: 80 }, { name: 'HDMI Cable', itemprice: 40 }]
+        });
+    });
+
+    it('answers an invalid query with 400', async () => {
+        const result = await service.callApi('api/query', 'POST', { objecttype: 14, query: '(name = ' });
+        expect(result).toMatchObject({ success: false, error: { code: '400' } });
+    });
+
+    it('fails injected requests, then serves the rest', async () => {
+        emulator.failNext(503, 1, { pathPrefix: '/api/record/account', retryAfter: '1' });
+
+        expect(await service.callApi('api/record/product')).toMatchObject({ success: true });
+        expect(await service.callApi('api/record/account')).toMatchObject({ success: false, error: { code: '503' } });
+        expect(await service.callApi('api/record/account')).toMatchObject({ success: true });
+        expect(emulator.requests.map((request) => request.path)).toEqual(['/api/record/product', '/api/record/account', '/api/record/account']);
+    });
+});
@@ -0,0 +1,289 @@
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { FireberryEmulator } from '../src/emulator/fireberry-emulator';
+import { FireberryService, FireberryServiceConfig } from '../src/services/fireberry/fireberry-service';
+import { snapshotService } from '../src/services/snapshot-service';
+
+// Records the backoff waits instead of sleeping
+class TestFireberryService extends FireberryService {
+    readonly delays: number[] = [];
+
+    protected async sleep(ms: number): Promise<void> {
+        this.delays.push(ms);
+    }
+}
+
+describe('FireberryService', () => {
+    const emulator = new FireberryEmulator();
+    let baseUrl: string;
+
+    const createService = (config: Partial<FireberryServiceConfig> = {}) => new TestFireberryService({
+        baseUrl,
+        token: 'test-token',
+        maxRetries: 3,
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+        rateLimitPerSecond: 0,
+        breakerFailureThreshold: 100,
+        breakerResetMs: 100,
+        ...config
+    });
+
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    beforeAll(async () => {
+        baseUrl = await emulator.start();
+    });
+
+    afterAll(() => emulator.stop());
+
+    beforeEach(() => {
+        emulator.reset();
+        // Retries and failures are logged by the service
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('retries', () => {
+        it('retries an idempotent call with exponential backoff and full jitter', async () => {
+            const service = createService();
+            emulator.failNext(503, 3);
+
+            expect(await service.callApi('api/record/product')).toMatchObject({ success: true });
+            expect(emulator.requests).toHaveLength(4);
+            expect(service.delays).toEqual([50, 100, 200]);
+        });
+
+        it('caps the backoff at maxDelayMs', async () => {
+            const service = createService({ baseDelayMs: 400 });
+            emulator.failNext(503, 3);
+
+            await service.callApi('api/record/product');
+            expect(service.delays).toEqual([200, 400, 500]);
+        });
+
+        it('gives up after maxRetries with the last error', async () => {
+            const service = createService();
+            emulator.failNext(502, 10);
+
+            expect(await service.callApi('api/record/product')).toMatchObject({ success: false, error: { code: '502' } });
+            expect(emulator.requests).toHaveLength(4);
+        });
+
+        it('honors a per-call maxRetries', async () => {
+            const service = createService();
+            emulator.failNext(503, 10);
+
+            await service.callApi('api/record/product', 'GET', undefined, { maxRetries: 1 });
+            expect(emulator.requests).toHaveLength(2);
+        });
+
+        it('does not retry a POST after a server error', async () => {
+            const service = createService();
+            emulator.failNext(503);
+
+            expect(await service.callApi('api/record/product', 'POST', { name: 'Cable' })).toMatchObject({ success: false, error: { code: '503' } });
+            expect(emulator.requests).toHaveLength(1);
+            expect(emulator.all('product')).toHaveLength(0);
+        });
+
+        it('retries any method after a 429', async () => {
+            const service = createService();
+            emulator.failNext(429);
+
+            expect(await service.callApi('api/record/product', 'POST', { name: 'Cable' })).toMatchObject({ success: true });
+            expect(emulator.all('product')).toHaveLength(1);
+        });
+
+        it('does not retry a client error', async () => {
+            const service = createService();
+
+            expect(await service.callApi('api/record/product/missing')).toMatchObject({ success: false, error: { code: '404' } });
+            expect(emulator.requests).toHaveLength(1);
+        });
+
+        it('retries a timed out call', async () => {
+            // The first request never gets an answer
+            let received = 0;
+            const server = createServer((_req, res) => {
+                if (++received > 1) {
+                    res.setHeader('Content-Type', 'application/json');
+                    res.end(JSON.stringify({ success: true }));
+                }
+            });
+            await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+            try {
+                const service = createService({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, timeoutMs: 100 });
+                expect(await service.callApi('api/record/product')).toMatchObject({ success: true });
+                expect(received).toBe(2);
+            } finally {
+                server.closeAllConnections();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+    });
+
+    describe('Retry-After', () => {
+        it('waits the number of seconds given', async () => {
+            const service = createService();
+            emulator.failNext(429, 1, { retryAfter: '0.3' });
+
+            await service.callApi('api/record/product');
+            expect(service.delays).toEqual([300]);
+        });
+
+        it('waits until the date given', async () => {
+            const service = createService({ maxDelayMs: 10000 });
+            emulator.failNext(503, 1, { retryAfter: new Date(Date.now() + 3000).toUTCString() });
+
+            await service.callApi('api/record/product');
+            expect(service.delays[0]).toBeGreaterThan(1000);
+            expect(service.delays[0]).toBeLessThanOrEqual(3000);
+        });
+
+        it('caps the wait at maxDelayMs', async () => {
+            const service = createService();
+            emulator.failNext(429, 1, { retryAfter: '120' });
+
+            await service.callApi('api/record/product');
+            expect(service.delays).toEqual([1000]);
+        });
+
+        it('falls back to backoff for an invalid value', async () => {
+            const service = createService();
+            emulator.failNext(429, 1, { retryAfter: 'soon' });
+
+            await service.callApi('api/record/product');
+            expect(service.delays).toEqual([50]);
+        });
+    });
+
+    describe('rate limiting', () => {
+        it('spaces calls beyond the burst at the refill rate', async () => {
+            const service = createService({ rateLimitPerSecond: 20, rateLimitBurst: 1 });
+
+            const started = Date.now();
+            await Promise.all([1, 2, 3].map(() => service.callApi('api/record/product')));
+
+            expect(emulator.requests).toHaveLength(3);
+            expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+        });
+    });
+
+    describe('circuit breaker', () => {
+        it('opens after consecutive failures and fails fast', async () => {
+            const service = createService({ maxRetries: 0, breakerFailureThreshold: 2 });
+            emulator.failNext(503, 2);
+
+            await service.callApi('api/record/product');
+            expect(service.getCircuitState()).toBe('closed');
+            await service.callApi('api/record/product');
+            expect(service.getCircuitState()).toBe('open');
+
+            expect(await service.callApi('api/record/product')).toMatchObject({ success: false, error: { code: 'CIRCUIT_OPEN' } });
+            expect(emulator.requests).toHaveLength(2);
+        });
+
+        it('does not count client errors as failures', async () => {
+            const service = createService({ maxRetries: 0, breakerFailureThreshold: 2 });
+
+            await service.callApi('api/record/product/missing');
+            await service.callApi('api/record/product/missing');
+            expect(service.getCircuitState()).toBe('closed');
+        });
+
+        it('lets one probe through when half-open and closes when it succeeds', async () => {
+            const service = createService({ maxRetries: 0, breakerFailureThreshold: 1 });
+            emulator.failNext(503);
+
+            await service.callApi('api/record/product');
+            expect(service.getCircuitState()).toBe('open');
+
+            await wait(120);
+            expect(service.getCircuitState()).toBe('half-open');
+
+            const [probe, concurrent] = await Promise.all([
+                service.callApi('api/record/product'),
+                service.callApi('api/record/product')
+            ]);
+            expect(probe).toMatchObject({ success: true });
+            expect(concurrent).toMatchObject({ success: false, error: { code: 'CIRCUIT_OPEN' } });
+            expect(service.getCircuitState()).toBe('closed');
+            expect(emulator.requests).toHaveLength(2);
+        });
+
+        it('opens again when the probe fails', async () => {
+            const service = createService({ maxRetries: 0, breakerFailureThreshold: 1 });
+            emulator.failNext(503, 2);
+
+            await service.callApi('api/record/product');
+            await wait(120);
+            await service.callApi('api/record/product');
+
+            expect(service.getCircuitState()).toBe('open');
+            expect(emulator.requests).toHaveLength(2);
+        });
+    });
+
+    describe('snapshots', () => {
+        const snapshot = { endpoint: 'api/record/product', data: { data: { Records: [{ name: 'Cached' }] } } };
+
+        it('saves successful snapshot reads', async () => {
+            const save = jest.spyOn(snapshotService, 'save').mockResolvedValue();
+            const service = createService();
+            emulator.seed('product', [{ name: 'Cable' }]);
+
+            const result = await service.callApi<any>('api/record/product', 'GET', undefined, { snapshot: true });
+            expect(save).toHaveBeenCalledWith('api/record/product', result.data);
+        });
+
+        it('serves the last snapshot, flagged stale, while Fireberry is unavailable', async () => {
+            const load = jest.spyOn(snapshotService, 'load').mockResolvedValue(snapshot);
+            const service = createService({ maxRetries: 0 });
+            emulator.failNext(503);
+
+            expect(await service.callApi('api/record/product', 'GET', undefined, { snapshot: true })).toEqual({
+                success: true,
+                data: snapshot.data,
+                stale: true
+            });
+            expect(load).toHaveBeenCalledWith('api/record/product');
+        });
+
+        it('serves the snapshot without calling Fireberry while the breaker is open', async () => {
+            jest.spyOn(snapshotService, 'load').mockResolvedValue(snapshot);
+            const service = createService({ maxRetries: 0, breakerFailureThreshold: 1 });
+            emulator.failNext(503);
+
+            await service.callApi('api/record/product');
+            expect(await service.callApi('api/record/product', 'GET', undefined, { snapshot: true })).toMatchObject({ stale: true });
+            expect(emulator.requests).toHaveLength(1);
+        });
+
+        it('returns the failure when there is no snapshot', async () => {
+            jest.spyOn(snapshotService, 'load').mockResolvedValue(null);
+            const service = createService({ maxRetries: 0 });
+            emulator.failNext(503);
+
+            expect(await service.callApi('api/record/product', 'GET', undefined, { snapshot: true })).toMatchObject({
+                success: false,
+                error: { code: '503' }
+            });
+        });
+
+        it('does not serve a snapshot for a client error', async () => {
+            const load = jest.spyOn(snapshotService, 'load').mockResolvedValue(snapshot);
+            const service = createService();
+
+            expect(await service.callApi('api/record/product/missing', 'GET', undefined, { snapshot: true })).toMatchObject({
+                success: false,
+                error: { code: '404' }
+            });
+            expect(load).not.toHaveBeenCalled();
+        });
+    });
+});
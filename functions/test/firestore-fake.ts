@@ -0,0 +1,235 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+// In-memory stand-in for the Firestore API the services use, for tests that mock '../src/utils/firebase-admin':
+//   jest.mock('../src/utils/firebase-admin', () => jest.requireActual('./firestore-fake'));
+// Transactions run one at a time and apply their writes when they succeed.
+
+type Data = Record<string, any>;
+type Operator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+const store = new Map<string, Data>();
+let generatedIds = 0;
+
+const parentOf = (path: string) => path.substring(0, path.lastIndexOf('/'));
+
+/**
+ * Apply the field transforms the services write: server timestamps, increments and deletes
+ */
+const applyFields = (target: Data, fields: Data): Data => {
+    const result = { ...target };
+    for (const [key, value] of Object.entries(fields)) {
+        if (value instanceof FieldValue) {
+            if (value.isEqual(FieldValue.serverTimestamp())) {
+                result[key] = Timestamp.now();
+            } else if (value.isEqual(FieldValue.delete())) {
+                delete result[key];
+            } else if ((value as any).operand !== undefined) {
+                result[key] = (result[key] || 0) + (value as any).operand;
+            }
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+};
+
+const compare = (a: any, b: any): number => {
+    const value = (item: any) => (item instanceof Timestamp ? item.toMillis() : item);
+    return value(a) < value(b) ? -1 : value(a) > value(b) ? 1 : 0;
+};
+
+class DocumentSnapshot {
+    constructor(readonly ref: DocumentReference, private readonly stored: Data | undefined) {}
+
+    get id(): string {
+        return this.ref.id;
+    }
+
+    get exists(): boolean {
+        return this.stored !== undefined;
+    }
+
+    data(): Data | undefined {
+        return this.stored && { ...this.stored };
+    }
+}
+
+class QuerySnapshot {
+    constructor(readonly docs: DocumentSnapshot[]) {}
+
+    get empty(): boolean {
+        return this.docs.length === 0;
+    }
+
+    get size(): number {
+        return this.docs.length;
+    }
+}
+
+class DocumentReference {
+    constructor(readonly path: string) {}
+
+    get id(): string {
+        return this.path.substring(this.path.lastIndexOf('/') + 1);
+    }
+
+    collection(name: string): Query {
+        return new Query(`${this.path}/${name}`);
+    }
+
+    async get(): Promise<DocumentSnapshot> {
+        return new DocumentSnapshot(this, store.get(this.path));
+    }
+
+    async set(data: Data, options: { merge?: boolean } = {}): Promise<void> {
+        store.set(this.path, applyFields(options.merge ? store.get(this.path) || {} : {}, data));
+    }
+
+    async create(data: Data): Promise<void> {
+        if (store.has(this.path)) {
+            throw new Error(`Document already exists: ${this.path}`);
+        }
+        await this.set(data);
+    }
+
+    async update(data: Data): Promise<void> {
+        const current = store.get(this.path);
+        if (!current) {
+            throw new Error(`No document to update: ${this.path}`);
+        }
+        store.set(this.path, applyFields(current, data));
+    }
+
+    async delete(): Promise<void> {
+        store.delete(this.path);
+    }
+}
+
+class Query {
+    constructor(
+        readonly path: string,
+        private readonly filters: { field: string, operator: Operator, value: any }[] = [],
+        private readonly order: { field: string, direction: 'asc' | 'desc' }[] = [],
+        private readonly max?: number
+    ) {}
+
+    doc(id: string = `generated-${++generatedIds}`): DocumentReference {
+        return new DocumentReference(`${this.path}/${id}`);
+    }
+
+    where(field: string, operator: Operator, value: any): Query {
+        return new Query(this.path, [...this.filters, { field, operator, value }], this.order, this.max);
+    }
+
+    orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): Query {
+        return new Query(this.path, this.filters, [...this.order, { field, direction }], this.max);
+    }
+
+    limit(max: number): Query {
+        return new Query(this.path, this.filters, this.order, max);
+    }
+
+    async get(): Promise<QuerySnapshot> {
+        const matches = [...store.entries()]
+            .filter(([path]) => parentOf(path) === this.path)
+            .filter(([, data]) => this.filters.every(({ field, operator, value }) => {
+                const actual = data[field];
+                switch (operator) {
+                case '==': return compare(actual, value) === 0;
+                case '!=': return compare(actual, value) !== 0;
+                case '<': return actual !== undefined && compare(actual, value) < 0;
+                case '<=': return actual !== undefined && compare(actual, value) <= 0;
+                case '>': return actual !== undefined && compare(actual, value) > 0;
+                case '>=': return actual !== undefined && compare(actual, value) >= 0;
+                case 'in': return (value as any[]).includes(actual);
+                }
+            }))
+            .sort(([, a], [, b]) => {
+                for (const { field, direction } of this.order) {
+                    const result = compare(a[field], b[field]);
+                    if (result !== 0) {
+                        return direction === 'asc' ? result : -result;
+                    }
+                }
+                return 0;
+            })
+            .slice(0, this.max);
+
+        return new QuerySnapshot(matches.map(([path, data]) => new DocumentSnapshot(new DocumentReference(path), { ...data })));
+    }
+}
+
+class Transaction {
+    private writes: (() => Promise<void>)[] = [];
+
+    async get(target: DocumentReference | Query): Promise<any> {
+        return target.get();
+    }
+
+    async getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+        return Promise.all(refs.map((ref) => ref.get()));
+    }
+
+    set(ref: DocumentReference, data: Data, options?: { merge?: boolean }): this {
+        this.writes.push(() => ref.set(data, options));
+        return this;
+    }
+
+    create(ref: DocumentReference, data: Data): this {
+        this.writes.push(() => ref.create(data));
+        return this;
+    }
+
+    update(ref: DocumentReference, data: Data): this {
+        this.writes.push(() => ref.update(data));
+        return this;
+    }
+
+    delete(ref: DocumentReference): this {
+        this.writes.push(() => ref.delete());
+        return this;
+    }
+
+    async commit(): Promise<void> {
+        for (const write of this.writes) {
+            await write();
+        }
+    }
+}
+
+let running: Promise<unknown> = Promise.resolve();
+
+export const db = {
+    collection: (name: string) => new Query(name),
+    runTransaction: <T>(update: (transaction: Transaction) => Promise<T>): Promise<T> => {
+        const result = running.then(async () => {
+            const transaction = new Transaction();
+            const value = await update(transaction);
+            await transaction.commit();
+            return value;
+        });
+        running = result.catch(() => undefined);
+        return result;
+    }
+};
+
+/**
+ * Remove every document
+ */
+export const resetFirestore = (): void => {
+    store.clear();
+};
+
+/**
+ * Read a stored document by path, e.g. `stockLevels/p1`
+ */
+export const stored = (path: string): Data | undefined => store.get(path);
+
+/**
+ * Store documents by path
+ */
+export const seed = (documents: Record<string, Data>): void => {
+    for (const [path, data] of Object.entries(documents)) {
+        store.set(path, { ...data });
+    }
+};
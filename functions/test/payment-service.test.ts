@@ -0,0 +1,33 @@
+import { paymentService } from '../src/services/payment-service';
+
+describe('PaymentService.deriveStatus', () => {
+    const future = '2999-12-31';
+    const past = '2000-01-01';
+
+    it('marks an invoice paid once the net payments cover its total, to the agora', () => {
+        expect(paymentService.deriveStatus({ status: 'sent', total: 100, dueDate: future }, 100)).toBe('paid');
+        expect(paymentService.deriveStatus({ status: 'sent', total: 100, dueDate: future }, 99.999)).toBe('paid');
+        expect(paymentService.deriveStatus({ status: 'overdue', total: 100, dueDate: past }, 120)).toBe('paid');
+    });
+
+    it('marks a partly settled invoice partially paid until it is due', () => {
+        expect(paymentService.deriveStatus({ status: 'sent', total: 100, dueDate: future }, 40)).toBe('partially-paid');
+        expect(paymentService.deriveStatus({ status: 'partially-paid', total: 100, dueDate: past }, 40)).toBe('overdue');
+    });
+
+    it('returns an unpaid invoice to sent once its payments are refunded', () => {
+        expect(paymentService.deriveStatus({ status: 'paid', total: 100, dueDate: future }, 0)).toBe('sent');
+        expect(paymentService.deriveStatus({ status: 'paid', total: 100 }, 0)).toBe('sent');
+    });
+
+    it('settles a credit note with refunds', () => {
+        expect(paymentService.deriveStatus({ status: 'sent', total: -50, dueDate: future }, -50)).toBe('paid');
+        expect(paymentService.deriveStatus({ status: 'sent', total: -50, dueDate: future }, -20)).toBe('partially-paid');
+        expect(paymentService.deriveStatus({ status: 'sent', total: -50, dueDate: future }, 20)).toBe('sent');
+    });
+
+    it('keeps the status of cancelled invoices and drafts', () => {
+        expect(paymentService.deriveStatus({ status: 'cancelled', total: 100, dueDate: past }, 100)).toBe('cancelled');
+        expect(paymentService.deriveStatus({ status: 'draft', total: 100, dueDate: past }, 0)).toBe('draft');
+    });
+});
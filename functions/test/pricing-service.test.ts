@@ -0,0 +1,91 @@
+import { PricingService } from '../src/services/pricing-service';
+import { ValidationError } from '../src/utils/errors';
+import { roundMoney } from '../src/utils/money';
+
+describe('roundMoney', () => {
+    it('rounds half away from zero', () => {
+        expect(roundMoney(1.005)).toBe(1.01);
+        expect(roundMoney(-1.005)).toBe(-1.01);
+        expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+    });
+});
+
+describe('PricingService.calculate', () => {
+    const exclusive = new PricingService({ vatRate: 0.18, pricesIncludeVat: false, exemptCategories: [5] });
+    const inclusive = new PricingService({ vatRate: 0.18, pricesIncludeVat: true, exemptCategories: [5] });
+
+    it('rounds line amounts and adds VAT to prices that exclude it', () => {
+        const totals = exclusive.calculate([
+            { quantity: 3, unitPrice: 9.99 },
+            { quantity: 3, unitPrice: 0.1 }
+        ]);
+
+        expect(totals.lines.map((line) => line.amount)).toEqual([29.97, 0.3]);
+        expect(totals).toMatchObject({ subtotal: 30.27, tax: 5.45, total: 35.72 });
+    });
+
+    it('takes the VAT out of prices that include it', () => {
+        const totals = inclusive.calculate([{ quantity: 1, unitPrice: 100 }]);
+
+        expect(totals).toMatchObject({ subtotal: 100, tax: 15.25, total: 100 });
+        expect(totals.vat).toEqual([{ rate: 0.18, base: 84.75, vat: 15.25 }]);
+    });
+
+    it('spreads the document discount over the VAT rates before taxing them', () => {
+        const totals = exclusive.calculate([
+            { categorycode: 5, quantity: 1, unitPrice: 30 },
+            { quantity: 1, unitPrice: 70 }
+        ], 10);
+
+        expect(totals.vat).toEqual([
+            { rate: 0, base: 27, vat: 0 },
+            { rate: 0.18, base: 63, vat: 11.34 }
+        ]);
+        expect(totals).toMatchObject({ subtotal: 100, discount: 10, tax: 11.34, total: 101.34 });
+    });
+
+    it('gives the rounding remainder of the discount to the last rate', () => {
+        const totals = exclusive.calculate([
+            { categorycode: 5, quantity: 1, unitPrice: 10 },
+            { quantity: 1, unitPrice: 20 }
+        ], 10);
+
+        expect(totals.vat.map((line) => line.base)).toEqual([6.67, 13.33]);
+        expect(totals).toMatchObject({ tax: 2.4, total: 22.4 });
+    });
+
+    it('subtracts line discounts from the line amounts', () => {
+        const totals = exclusive.calculate([{ quantity: 2, unitPrice: 10, discount: 2.5 }]);
+
+        expect(totals.lines[0].amount).toBe(17.5);
+        expect(totals.tax).toBe(3.15);
+    });
+});
+
+describe('PricingService.priceOrder', () => {
+    const items = [
+        { productid: 'a', quantity: 3, unitprice: 9.99 },
+        { productid: 'b', quantity: 1, unitprice: 0.03 }
+    ] as any[];
+
+    it('overwrites submitted totals with the ones computed from the items', async () => {
+        const pricing = new PricingService({ vatRate: 0.18, pricesIncludeVat: false, exemptCategories: [], mismatchPolicy: 'overwrite' });
+
+        const order = await pricing.priceOrder({ discount: 0, subtotal: 1, tax: 1, totalamount: 1 }, items);
+
+        expect(order).toMatchObject({ subtotal: 30, discount: 0, tax: 5.4, totalamount: 35.4 });
+    });
+
+    it('rejects mismatching totals when configured to', async () => {
+        const pricing = new PricingService({ vatRate: 0.18, pricesIncludeVat: false, exemptCategories: [], mismatchPolicy: 'reject' });
+
+        await expect(pricing.priceOrder({ subtotal: 30, tax: 5.4, totalamount: 35.41 }, items)).rejects.toBeInstanceOf(ValidationError);
+        await expect(pricing.priceOrder({ subtotal: 30, tax: 5.4, totalamount: 35.4 }, items)).resolves.toMatchObject({ totalamount: 35.4 });
+    });
+
+    it('rejects a discount larger than the subtotal', async () => {
+        const pricing = new PricingService({ exemptCategories: [] });
+
+        await expect(pricing.priceOrder({ discount: 30.01 }, items)).rejects.toBeInstanceOf(ValidationError);
+    });
+});
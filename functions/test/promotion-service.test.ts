@@ -0,0 +1,99 @@
+import { Promotion, PromotionLine, promotionService } from '../src/services/promotion-service';
+
+describe('PromotionService.evaluate', () => {
+    const promotion = (fields: Partial<Promotion>): Promotion => ({
+        id: fields.name || 'promotion',
+        name: 'promotion',
+        type: 'percent-off',
+        active: true,
+        stackable: false,
+        ...fields
+    });
+
+    const evaluate = (promotions: Promotion[], cart: PromotionLine[], context = {}) => {
+        jest.spyOn(promotionService, 'listPromotions').mockResolvedValue(promotions);
+        return promotionService.evaluate(cart, context);
+    };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('takes a percentage off the eligible lines', async () => {
+        const result = await evaluate([promotion({ percent: 10, productIds: ['a'] })], [
+            { productId: 'a', quantity: 3, unitPrice: 9.99 },
+            { productId: 'b', quantity: 1, unitPrice: 50 }
+        ]);
+
+        expect(result.lines.map((line) => line.discount)).toEqual([3, 0]);
+        expect(result.totalDiscount).toBe(3);
+    });
+
+    it('spreads an amount over the eligible lines and rounds the last share to the rest', async () => {
+        const result = await evaluate([promotion({ type: 'amount-off', amount: 10 })], [
+            { productId: 'a', quantity: 1, unitPrice: 10 },
+            { productId: 'b', quantity: 1, unitPrice: 10 },
+            { productId: 'c', quantity: 1, unitPrice: 10 }
+        ]);
+
+        expect(result.lines.map((line) => line.discount)).toEqual([3.33, 3.33, 3.34]);
+        expect(result.totalDiscount).toBe(10);
+    });
+
+    it('gives the cheapest units of each buy-x-get-y group for free', async () => {
+        const result = await evaluate([promotion({ type: 'buy-x-get-y', buyQuantity: 2, getQuantity: 1 })], [
+            { productId: 'a', quantity: 2, unitPrice: 30 },
+            { productId: 'b', quantity: 3, unitPrice: 20 },
+            { productId: 'c', quantity: 2, unitPrice: 10 }
+        ]);
+
+        // Units by price: 30 30 20 | 20 20 10 | 10
+        expect(result.lines.map((line) => line.discount)).toEqual([0, 20, 10]);
+    });
+
+    it('prices bundles and spreads the saving over their units', async () => {
+        const result = await evaluate([promotion({ type: 'bundle-price', bundleQuantity: 2, bundlePrice: 30 })], [
+            { productId: 'a', quantity: 3, unitPrice: 20 },
+            { productId: 'b', quantity: 1, unitPrice: 10 }
+        ]);
+
+        // Bundles: 20 20 saves 10, 20 10 saves nothing
+        expect(result.lines.map((line) => line.discount)).toEqual([10, 0]);
+    });
+
+    it('handles large quantities without a unit per element', async () => {
+        const result = await evaluate([promotion({ type: 'buy-x-get-y', buyQuantity: 1, getQuantity: 1 })], [
+            { productId: 'a', quantity: 1e9, unitPrice: 1 }
+        ]);
+
+        expect(result.totalDiscount).toBe(5e8);
+    });
+
+    it('skips promotions outside their dates, over their cap or without the coupon', async () => {
+        const result = await evaluate([
+            promotion({ name: 'expired', percent: 10, endsAt: '2026-01-31' }),
+            promotion({ name: 'capped', percent: 10, usageLimit: 5, usageCount: 5 }),
+            promotion({ name: 'coupon', percent: 10, couponCode: 'SAVE10' })
+        ], [{ productId: 'a', quantity: 1, unitPrice: 100 }], { date: '2026-02-01', couponCodes: ['other'] });
+
+        expect(result.applied).toEqual([]);
+        expect(result.unmatchedCoupons).toEqual(['OTHER']);
+    });
+
+    it('applies by priority and keeps other promotions off the lines of a non-stackable one', async () => {
+        const result = await evaluate([
+            promotion({ name: 'low', percent: 50, priority: 1 }),
+            promotion({ name: 'high', percent: 10, priority: 2 })
+        ], [{ productId: 'a', quantity: 1, unitPrice: 100 }]);
+
+        expect(result.applied.map((applied) => applied.name)).toEqual(['high']);
+        expect(result.totalDiscount).toBe(10);
+    });
+
+    it('stacks stackable promotions on the discounted amount', async () => {
+        const result = await evaluate([
+            promotion({ name: 'first', percent: 10, priority: 2, stackable: true }),
+            promotion({ name: 'second', percent: 10, priority: 1, stackable: true })
+        ], [{ productId: 'a', quantity: 1, unitPrice: 100 }]);
+
+        expect(result.lines[0]).toMatchObject({ discount: 19, promotionIds: ['first', 'second'] });
+    });
+});
@@ -0,0 +1,82 @@
+import { returnsService } from '../src/services/returns-service';
+import { invoiceService, Invoice } from '../src/services/fireberry/invoice-service';
+import { paymentService } from '../src/services/payment-service';
+import { locationService } from '../src/services/location-service';
+import { numberingService } from '../src/services/numbering-service';
+import { AppError, ConflictError, ValidationError } from '../src/utils/errors';
+import { resetFirestore, seed, stored } from './firestore-fake';
+
+jest.mock('../src/utils/firebase-admin', () => jest.requireActual('./firestore-fake'));
+
+describe('ReturnsService quantity reservation', () => {
+    const invoice: Invoice = {
+        number: 'INV-1',
+        type: 'invoice',
+        date: '2026-10-01',
+        status: 'paid',
+        customerName: 'Customer',
+        items: [
+            { productId: 'a', productName: 'A', quantity: 2, unitPrice: 10, discount: 0, total: 20 },
+            { productId: 'a', productName: 'A', quantity: 1, unitPrice: 10, discount: 0, total: 10 },
+            { productId: 'b', productName: 'B', quantity: 1, unitPrice: 5, discount: 0, total: 5 }
+        ],
+        subtotal: 35,
+        tax: 5.34,
+        discount: 0,
+        total: 35
+    };
+
+    const earlierReturn = (id: string, status: string, quantity: number) => ({
+        [`returns/${id}`]: { invoiceId: 'inv-1', status, lines: [{ productId: 'a', quantity, restock: true }] }
+    });
+
+    beforeEach(() => {
+        resetFirestore();
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(invoiceService, 'getInvoiceById').mockResolvedValue({ success: true, data: invoice } as any);
+        jest.spyOn(paymentService, 'planCreditRefunds').mockResolvedValue([]);
+        jest.spyOn(locationService, 'resolve').mockResolvedValue('main');
+        // Stop each return at its first step, once the quantities are reserved
+        jest.spyOn(numberingService, 'next').mockRejectedValue(new ConflictError('Numbering is closed'));
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    const processReturn = (quantity: number) => returnsService.processReturn({ invoiceId: 'inv-1', items: [{ productId: 'a', quantity }] });
+
+    it('counts the quantities of pending and completed returns, summed over the invoice lines', async () => {
+        seed({
+            ...earlierReturn('pending', 'pending', 1),
+            ...earlierReturn('completed', 'completed', 1),
+            ...earlierReturn('rolled-back', 'rolled-back', 1)
+        });
+
+        const error = await processReturn(2).catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.details).toEqual([{ field: 'items', message: 'a: 2 returned, 1 returnable' }]);
+        expect(numberingService.next).not.toHaveBeenCalled();
+    });
+
+    it('stores the reserved return before its first step and rolls it back when the step fails', async () => {
+        seed(earlierReturn('rolled-back', 'rolled-back', 3));
+
+        const error = await processReturn(3).catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(AppError);
+        expect(error.details).toMatchObject({ failedStep: 'issueNumber', status: 'rolled-back' });
+        expect(stored(`returns/${error.details.returnId}`)).toMatchObject({
+            status: 'rolled-back',
+            lines: [{ productId: 'a', quantity: 3, restock: true }],
+            creditTotal: 30
+        });
+    });
+
+    it('lets only one of two concurrent returns take the last units', async () => {
+        const results = await Promise.allSettled([processReturn(2), processReturn(2)]);
+
+        const reasons = results.map((result) => (result as PromiseRejectedResult).reason);
+        expect(reasons.filter((reason) => reason instanceof ValidationError)).toHaveLength(1);
+        expect(numberingService.next).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,96 @@
+import { transferService } from '../src/services/transfer-service';
+import { locationService } from '../src/services/location-service';
+import { numberingService } from '../src/services/numbering-service';
+import { outboxService } from '../src/services/outbox-service';
+import { ConflictError } from '../src/utils/errors';
+import { resetFirestore, seed, stored } from './firestore-fake';
+
+jest.mock('../src/utils/firebase-admin', () => jest.requireActual('./firestore-fake'));
+
+describe('TransferService', () => {
+    beforeEach(() => {
+        resetFirestore();
+        seed({
+            'stockLevels/a': { productId: 'a', quantity: 10, locations: { main: 10 }, inTransit: 0, lastMovementId: 'opening' },
+            'stockLevels/b': { productId: 'b', quantity: 2, locations: { main: 2 }, inTransit: 0, lastMovementId: 'opening' }
+        });
+        jest.spyOn(locationService, 'resolve').mockImplementation(async (locationId) => locationId as string);
+        jest.spyOn(numberingService, 'next').mockResolvedValue({ number: 'TR-1' } as any);
+        jest.spyOn(outboxService, 'enqueue').mockResolvedValue({ id: 'entry' } as any);
+        jest.spyOn(outboxService, 'replayEntry').mockResolvedValue({ id: 'entry' } as any);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    const createTransfer = (items = [{ productId: 'a', quantity: 2 }, { productId: 'a', quantity: 1 }]) =>
+        transferService.createTransfer({ fromLocationId: 'main', toLocationId: 'branch', items });
+
+    const level = (productId: string) => {
+        const { quantity, locations, inTransit } = stored(`stockLevels/${productId}`) as any;
+        return { quantity, locations, inTransit };
+    };
+
+    it('moves the items into transit when sent and into the destination when received', async () => {
+        const draft = await createTransfer();
+        expect(draft.items).toEqual([{ productId: 'a', quantity: 3 }]);
+
+        const sent = await transferService.send(draft.id as string, 'clerk');
+        expect(sent).toMatchObject({ status: 'sent', sentBy: 'clerk' });
+        expect(sent.sentMovementIds).toHaveLength(1);
+        expect(level('a')).toEqual({ quantity: 10, locations: { main: 7 }, inTransit: 3 });
+
+        const received = await transferService.receive(draft.id as string);
+        expect(received.status).toBe('received');
+        expect(level('a')).toEqual({ quantity: 10, locations: { main: 7, branch: 3 }, inTransit: 0 });
+        expect(stored(`stockTransfers/${draft.id}`)).toMatchObject({ status: 'received' });
+    });
+
+    it('keeps the draft when the source location does not hold enough stock', async () => {
+        const draft = await createTransfer([{ productId: 'a', quantity: 1 }, { productId: 'b', quantity: 3 }]);
+
+        await expect(transferService.send(draft.id as string)).rejects.toBeInstanceOf(ConflictError);
+
+        expect(stored(`stockTransfers/${draft.id}`)).toMatchObject({ status: 'draft', sentMovementIds: [] });
+        expect(level('a')).toEqual({ quantity: 10, locations: { main: 10 }, inTransit: 0 });
+    });
+
+    it('does not post the movements twice when a send is retried after they were posted', async () => {
+        const draft = await createTransfer();
+        await transferService.send(draft.id as string);
+
+        // As if the transfer could not be updated after its movements were posted
+        seed({ [`stockTransfers/${draft.id}`]: { ...stored(`stockTransfers/${draft.id}`), status: 'draft', sentMovementIds: [] } });
+        const retried = await transferService.send(draft.id as string);
+
+        expect(retried.sentMovementIds).toHaveLength(1);
+        expect(level('a')).toEqual({ quantity: 10, locations: { main: 7 }, inTransit: 3 });
+    });
+
+    it('puts the items of a cancelled transfer back in the source location', async () => {
+        const draft = await createTransfer();
+        await transferService.send(draft.id as string);
+
+        const cancelled = await transferService.cancel(draft.id as string, 'manager');
+
+        expect(cancelled).toMatchObject({ status: 'cancelled', cancelledBy: 'manager' });
+        expect(level('a')).toEqual({ quantity: 10, locations: { main: 10 }, inTransit: 0 });
+        await expect(transferService.cancel(draft.id as string)).rejects.toBeInstanceOf(ConflictError);
+        await expect(transferService.receive(draft.id as string)).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('cancels a draft without moving stock', async () => {
+        const draft = await createTransfer();
+
+        await transferService.cancel(draft.id as string);
+
+        expect(stored(`stockTransfers/${draft.id}`)).toMatchObject({ status: 'cancelled' });
+        expect(level('a')).toEqual({ quantity: 10, locations: { main: 10 }, inTransit: 0 });
+    });
+
+    it('receives only sent transfers', async () => {
+        const draft = await createTransfer();
+
+        await expect(transferService.receive(draft.id as string)).rejects.toBeInstanceOf(ConflictError);
+        expect(stored(`stockTransfers/${draft.id}`)).toMatchObject({ status: 'draft' });
+    });
+});